@@ -1,41 +1,186 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
-import { OpenAI } from 'openai';
+import { ApiKeyStore } from './apiKeyStore';
+import { ChangelogGroups, ReleaseInfo } from './changelog';
+import { ReviewResult } from './codeReview';
+import {
+  CANDIDATE_VARIANTS,
+  collectFileDiffs,
+  generateCommitMessage,
+  GeneratedCommit,
+  GenerateOptions,
+  generatePullRequest,
+  generateReleaseNotes,
+  PlannedCommit,
+  planCommits,
+  prepareDiff,
+  PreparedDiff,
+  PromptContext,
+  reviewChanges,
+  readContextSettings,
+  readDiffBudgetSettings,
+  readLlmSettings,
+  readRedactionSettings,
+  resolveExcludedFiles,
+} from './commitGenerator';
+import { lintCommitMessage, LintViolation } from './commitLint';
+import { LogCommit, readCommits, readTags } from './commitLog';
+import { listRecentCommits, readCommitChanges, readRewordRange, RewordableCommit, rewordCommits, RewordRange } from './commitRewrite';
+import { CommitConventions, fallbackMessage, readConfigFile, resolveConventions } from './conventions';
+import { FileDiff, formatFileDiffs } from './diffBudget';
+import { GitDiffCollector } from './gitDiff';
+import { DiffSource, getRepositoryForPath, groupByRepository } from './gitRepositories';
+import { createLlmProvider, LlmProvider, LlmProviderId, requiresApiKey } from './llm';
+import { BranchChanges, collectBranchChanges, DEFAULT_PULL_REQUEST_TEMPLATE, PullRequest } from './pullRequest';
+import { compileDetectors, RedactionOptions, ScrubbedFileDiff, SecretDetector } from './redaction';
+import { collectRepositoryContext, extractTickets } from './repoContext';
 
-// Git 에러 인터페이스 정의
-interface GitError extends Error {
-  gitErrorCode?: string;
+/**
+ * Why the LLM provider could not be created, shown as the setup state of the view
+ * - missingApiKey: the provider needs a key and none is stored
+ * - invalidSettings: other settings are missing or invalid
+ */
+export interface SetupIssue {
+  provider: LlmProviderId;
+  reason: 'missingApiKey' | 'invalidSettings';
   message: string;
 }
 
-// 에러가 GitError 타입인지 확인하는 타입 가드 함수
-function isGitError(error: unknown): error is GitError {
-  return (
-    error !== null &&
-    typeof error === 'object' &&
-    ('gitErrorCode' in error || 'message' in error)
-  );
+/**
+ * Read the configured diff source (`commitWithAi.diffSource`)
+ */
+export function readDiffSource(): DiffSource {
+  return vscode.workspace.getConfiguration('commitWithAi').get<DiffSource>('diffSource') || 'staged';
+}
+
+/**
+ * Number of candidate messages per generation (`commitWithAi.candidateCount`)
+ */
+export function readCandidateCount(): number {
+  const count = vscode.workspace.getConfiguration('commitWithAi').get<number>('candidateCount') ?? 3;
+  return Math.min(Math.max(Math.floor(count), 1), CANDIDATE_VARIANTS.length);
+}
+
+/**
+ * Whether the model is asked again when lint violations remain (`commitWithAi.repromptOnLintErrors`)
+ */
+export function readRepromptSetting(): boolean {
+  return vscode.workspace.getConfiguration('commitWithAi').get<boolean>('repromptOnLintErrors') ?? false;
+}
+
+/**
+ * Show why the model cannot be used, with an action to set the API key or open the settings
+ * @param issue Issue from `AiCommitProvider.getSetupIssue`
+ */
+export async function showSetupIssue(issue: SetupIssue): Promise<void> {
+  const setApiKey = vscode.l10n.t('Set API Key');
+  const action = issue.reason === 'missingApiKey' ? setApiKey : vscode.l10n.t('Open Settings');
+  const picked = await vscode.window.showWarningMessage(issue.message, action);
+  if (picked === setApiKey) {
+    await vscode.commands.executeCommand('commit-with-ai.setApiKey', issue.provider);
+  } else if (picked) {
+    await vscode.commands.executeCommand('workbench.action.openSettings', 'commitWithAi');
+  }
+}
+
+/**
+ * Read commit convention settings (`commitWithAi.style`, `emoji`, `promptTemplate`, ...)
+ */
+export function readConventionSettings(): Partial<CommitConventions> {
+  const config = vscode.workspace.getConfiguration('commitWithAi');
+  return {
+    style: config.get<CommitConventions['style']>('style'),
+    emoji: config.get<CommitConventions['emoji']>('emoji'),
+    prompt: config.get<string>('promptTemplate'),
+    subjectMaxLength: config.get<number>('subjectMaxLength'),
+    bodyMaxLineLength: config.get<number>('bodyMaxLineLength'),
+    types: config.get<Record<string, string>>('types'),
+    rules: config.get<string[]>('rules'),
+    language: config.get<string>('messageLanguage'),
+  };
 }
 
 export class AiCommitProvider {
-  private openai: OpenAI | undefined;
+  private llm: LlmProvider | undefined;
   private context: vscode.ExtensionContext;
   private gitExtension: any;
+  private apiKeys: ApiKeyStore;
+  // 설정이나 키가 바뀔 때마다 새로 만들어지며, 생성 요청은 초기화가 끝날 때까지 기다림
+  private llmReady: Promise<void>;
+  private _setupIssue: SetupIssue | undefined;
+  private readonly _onDidChangeSetup = new vscode.EventEmitter<SetupIssue | undefined>();
 
-  constructor(context: vscode.ExtensionContext) {
+  /** Fires when the LLM provider was re-created after a settings or API key change */
+  readonly onDidChangeSetup = this._onDidChangeSetup.event;
+
+  constructor(context: vscode.ExtensionContext, apiKeys: ApiKeyStore) {
     this.context = context;
+    this.apiKeys = apiKeys;
     this.initGitExtension();
-    this.initOpenAI();
+    this.llmReady = this.initLlmProvider();
+
+    // 창을 다시 로드하지 않아도 설정/키 변경을 반영
+    context.subscriptions.push(
+      this._onDidChangeSetup,
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('commitWithAi')) {
+          this.reloadLlmProvider();
+        }
+      }),
+      apiKeys.onDidChange(() => this.reloadLlmProvider())
+    );
   }
 
-  private initOpenAI() {
+  /**
+   * Why the LLM provider is not available, or undefined when it is ready
+   */
+  get setupIssue(): SetupIssue | undefined {
+    return this._setupIssue;
+  }
+
+  /**
+   * Wait for the LLM provider to be (re)initialized and return the setup issue, if any
+   */
+  async getSetupIssue(): Promise<SetupIssue | undefined> {
+    await this.llmReady;
+    return this._setupIssue;
+  }
+
+  private reloadLlmProvider() {
+    this.llmReady = this.llmReady.then(() => this.initLlmProvider());
+  }
+
+  private async initLlmProvider() {
     const config = vscode.workspace.getConfiguration('commitWithAi');
-    const apiKey = config.get<string>('openaiApiKey') || process.env.OPENAI_API_KEY;
-    
-    if (apiKey) {
-      this.openai = new OpenAI({ apiKey });
+    const provider = config.get<LlmProviderId>('provider') || 'openai';
+    const settings = readLlmSettings(config, await this.apiKeys.get(provider));
+
+    this.llm = undefined;
+    if (requiresApiKey(settings.provider) && !settings.apiKey) {
+      this._setupIssue = {
+        provider: settings.provider,
+        reason: 'missingApiKey',
+        message: vscode.l10n.t('The {0} API key is not set.', settings.provider),
+      };
     } else {
-      console.warn('OpenAI API key not found. Please set it in settings or as environment variable.');
+      try {
+        this.llm = createLlmProvider(settings);
+        this._setupIssue = undefined;
+      } catch (error: any) {
+        console.warn(`LLM provider "${settings.provider}" could not be initialized:`, error);
+        this._setupIssue = { provider: settings.provider, reason: 'invalidSettings', message: error.message };
+      }
+    }
+    this._onDidChangeSetup.fire(this._setupIssue);
+  }
+
+  // 초기화가 끝난 LLM 공급자를 반환
+  private async getLlm(): Promise<LlmProvider> {
+    await this.llmReady;
+    if (!this.llm) {
+      throw new Error(this._setupIssue?.message ?? 'AI provider is not initialized. Please check the provider, model and API key in settings.');
     }
+    return this.llm;
   }
 
   private initGitExtension() {
@@ -48,242 +193,511 @@ export class AiCommitProvider {
   }
 
   /**
-   * Get diff content for changed files
-   * @param filePaths Array of file paths to get diffs for
+   * Get diff content for selected files
+   * @param filePaths Array of absolute file paths to get diffs for. Files may belong to different repositories.
+   *   If empty, returns empty string.
+   * @param source Which side of the staging area to diff. Defaults to the `commitWithAi.diffSource` setting.
    * @returns Combined diff content as string
+   * @throws Error if Git extension is not initialized or no repository is found
    */
+  async getChangesDiff(filePaths: string[], source: DiffSource = readDiffSource()): Promise<string> {
+    return formatFileDiffs(await this.getFileDiffs(filePaths, source));
+  }
+
   /**
-   * Get diff content for selected files
-   * @param filePaths Array of file paths to get diffs for. If empty, returns empty string.
-   * @returns Combined diff content as string
-   * @throws Error if Git extension is not initialized or repository is not found
+   * Get diffs of selected files, one entry per file that has changes.
+   * Secrets are masked and the content of excluded files (built-in patterns, `commitWithAi.excludedFiles`
+   * and the repository's `.commitwithaiignore`) is dropped before the diffs are returned.
+   * @param filePaths Array of absolute file paths to get diffs for
+   * @param source Which side of the staging area to diff. Defaults to the `commitWithAi.diffSource` setting.
+   * @param excludedHunks Ids of the hunks to leave out, keyed by absolute file path
+   * @returns Scrubbed diff of each file keyed by its workspace-relative path, with what was masked
+   * @throws Error if Git extension is not initialized or no repository is found
    */
-  async getChangesDiff(filePaths: string[]): Promise<string> {
-    let allDiffs = '';
-    
+  async getFileDiffs(
+    filePaths: string[],
+    source: DiffSource = readDiffSource(),
+    excludedHunks?: ReadonlyMap<string, ReadonlySet<string>>
+  ): Promise<ScrubbedFileDiff[]> {
     if (!this.gitExtension) {
       const error = new Error('Git extension not initialized');
-      vscode.window.showErrorMessage('Git 확장이 초기화되지 않았습니다. VS Code를 재시작해보세요.');
+      vscode.window.showErrorMessage(vscode.l10n.t('The Git extension is not initialized. Try restarting VS Code.'));
       throw error;
     }
 
-    const repo = this.gitExtension.repositories[0];
-    if (!repo) {
+    if (this.gitExtension.repositories.length === 0) {
       const error = new Error('No Git repository found');
-      vscode.window.showErrorMessage('Git 저장소를 찾을 수 없습니다. 현재 워크스페이스가 Git 저장소인지 확인하세요.');
+      vscode.window.showErrorMessage(vscode.l10n.t('No Git repository found. Check that the current workspace is a Git repository.'));
       throw error;
     }
     
     if (filePaths.length === 0) {
-      return '';
+      return [];
     }
-    
-    // 병렬로 모든 파일의 diff를 가져옴
-    const diffPromises = filePaths.map(async (filePath) => {
-      try {
-        const uri = vscode.Uri.file(filePath);
-        const fileRelativePath = vscode.workspace.asRelativePath(filePath);
-        
-        // Get diff for file
-        const diff = await this.getFileDiff(repo, uri);
-        
-        if (diff) {
-          return { path: fileRelativePath, diff };
+
+    const { redaction, detectors } = this.getDetectors();
+
+    // 파일을 저장소별로 나눈 뒤 각 파일이 속한 저장소에서 diff를 가져옴
+    const gitPath: string = this.gitExtension.git.path;
+    const results = await Promise.all([...groupByRepository(this.gitExtension, filePaths)].map(([repo, files]) => {
+      const repoRoot: string = repo.rootUri.fsPath;
+      return collectFileDiffs(
+        new GitDiffCollector(gitPath, repoRoot, source),
+        files.map(filePath => path.relative(repoRoot, filePath).split(path.sep).join('/')),
+        detectors,
+        resolveExcludedFiles(repoRoot, redaction),
+        {
+          displayPath: relativePath => vscode.workspace.asRelativePath(path.join(repoRoot, relativePath)),
+          onError: (relativePath, error) => {
+            const filePath = path.join(repoRoot, relativePath);
+            console.error(`Error getting diff for file ${filePath}:`, error);
+            vscode.window.showWarningMessage(vscode.l10n.t('Failed to get the changes of {0}.', filePath));
+          },
+          excludedHunks: relativePath => excludedHunks?.get(path.join(repoRoot, relativePath))
         }
-        return null;
-      } catch (error) {
-        console.error(`Error getting diff for file ${filePath}:`, error);
-        vscode.window.showWarningMessage(`파일 ${filePath}의 변경 사항을 가져오는 중 오류가 발생했습니다.`);
-        return null;
-      }
-    });
-    
-    const results = await Promise.all(diffPromises);
-    
-    // 결과 조합
-    for (const result of results) {
-      if (result) {
-        allDiffs += `\n--- ${result.path} ---\n${result.diff}\n`;
+      );
+    }));
+
+    return results.flat();
+  }
+
+  // 프롬프트에 들어가기 전에 비밀 정보를 가리기 위한 검출기
+  private getDetectors(): { redaction: RedactionOptions, detectors: SecretDetector[] } {
+    const redaction = readRedactionSettings(vscode.workspace.getConfiguration('commitWithAi'));
+    const { detectors, invalid } = compileDetectors(redaction);
+    if (invalid.length > 0) {
+      vscode.window.showWarningMessage(vscode.l10n.t('Ignored invalid regular expressions: {0}', invalid.join(', ')));
+    }
+    return { redaction, detectors };
+  }
+
+  /**
+   * Fit file diffs into the configured token budget before they are put in the prompt.
+   * Lock, generated and binary files are collapsed, context lines are trimmed and, for very large
+   * changesets, chunks of files are summarized by the model first (map-reduce).
+   * @param files File diffs from `getFileDiffs`
+   * @param options Cancellation options for the summarization requests
+   * @returns Diff content for the prompt and how each file was treated
+   * @throws vscode.CancellationError if the request was aborted through `options.signal`
+   */
+  async prepareDiff(files: FileDiff[], options: GenerateOptions = {}): Promise<PreparedDiff> {
+    const budget = readDiffBudgetSettings(vscode.workspace.getConfiguration('commitWithAi'));
+    try {
+      return await prepareDiff(files, budget, () => this.getLlm(), options.signal);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new vscode.CancellationError();
       }
+      throw error;
     }
-    
-    return allDiffs;
   }
   
   /**
-   * Get diff for a single file
-   * @param repo Git repository
-   * @param uri File URI
-   * @returns Diff content as string or undefined if error
+   * Resolve commit conventions for a repository
+   * @param repoRoot Repository root. Its `.commitwithai.json` overrides user settings.
+   * @returns Resolved conventions (settings only if the config file is invalid). The `auto` language is the
+   *   VS Code display language.
    */
+  getConventions(repoRoot?: string): CommitConventions {
+    return this.resolveConventions(this.readRepositoryConfig(repoRoot));
+  }
+
+  private resolveConventions(fileConfig: Record<string, any>): CommitConventions {
+    const conventions = resolveConventions(readConventionSettings(), fileConfig);
+    return conventions.language === 'auto' ? { ...conventions, language: vscode.env.language } : conventions;
+  }
+
+  // 저장소의 .commitwithai.json (없거나 잘못되었으면 빈 객체)
+  private readRepositoryConfig(repoRoot?: string): Record<string, any> {
+    if (!repoRoot) {
+      return {};
+    }
+    try {
+      return readConfigFile(repoRoot);
+    } catch (error: any) {
+      console.error('Error reading commit-with-ai config file:', error);
+      vscode.window.showWarningMessage(vscode.l10n.t('Could not read the config file, using the default settings: {0}', error.message));
+      return {};
+    }
+  }
+
   /**
-   * Get diff for a single file
-   * @param repo Git repository
-   * @param uri File URI
-   * @returns Diff content as string or undefined if error
+   * Collect repository information for the prompt from the selected files.
+   * Branch and ticket IDs, recent commit subjects and scope hints are added as enabled in settings.
+   * @param filePaths Absolute paths of the selected files
+   * @returns Context of the first file's repository, and the relative file paths
    */
-  private async getFileDiff(repo: any, uri: vscode.Uri): Promise<string | undefined> {
-    try {
-      // 파일이 존재하는지 확인
-      try {
-        await vscode.workspace.fs.stat(uri);
-      } catch (error) {
-        console.warn(`File ${uri.fsPath} does not exist or cannot be accessed`);
-        return undefined;
-      }
-      
-      // 파일이 Git에 추적되고 있는지 확인
-      try {
-        await repo.show(uri, 'HEAD');
-      } catch (error) {
-        // 새 파일인 경우 전체 내용을 diff로 반환
-        if (isGitError(error) && (
-            error.gitErrorCode === 'NotAGitRepository' ||
-            error.gitErrorCode === 'UnknownPath' ||
-            error.message?.includes('did not match any file(s) known to git')
-        )) {
-          try {
-            const content = await vscode.workspace.fs.readFile(uri);
-            const textDecoder = new TextDecoder();
-            return `+++ New file\n${textDecoder.decode(content)}`;
-          } catch (readError) {
-            console.error(`Error reading new file ${uri.fsPath}:`, readError);
-            return undefined;
-          }
-        }
-      }
-      
-      // Git diff 가져오기
-      const diff = await repo.diffWithHEAD(uri);
-      return diff;
-    } catch (error) {
-      console.error(`Error getting diff for file ${uri.fsPath}:`, error);
-      return undefined;
+  async getPromptContext(filePaths: string[]): Promise<PromptContext> {
+    const repo = this.gitExtension && filePaths.length > 0
+      ? getRepositoryForPath(this.gitExtension, filePaths[0])
+      : undefined;
+    const context: PromptContext = {
+      repoRoot: repo?.rootUri.fsPath,
+      files: filePaths.map(filePath => vscode.workspace.asRelativePath(filePath)),
+    };
+    if (!repo) {
+      return context;
     }
+
+    const repoRoot: string = repo.rootUri.fsPath;
+    const relativePaths = filePaths
+      .filter(filePath => getRepositoryForPath(this.gitExtension, filePath) === repo)
+      .map(filePath => path.relative(repoRoot, filePath));
+    const repositoryContext = await collectRepositoryContext(
+      this.gitExtension.git.path,
+      repoRoot,
+      repo.state.HEAD?.name,
+      relativePaths,
+      readContextSettings(vscode.workspace.getConfiguration('commitWithAi')),
+      error => vscode.window.showWarningMessage(vscode.l10n.t('The ticket pattern is invalid: {0}', error.message))
+    );
+
+    return { ...context, ...repositoryContext };
   }
-  
+
+  /**
+   * Check a commit message against the conventions of a repository
+   * @param message Commit message
+   * @param repoRoot Repository root whose `.commitwithai.json` applies
+   * @returns Rule violations
+   */
+  lintMessage(message: string, repoRoot?: string): LintViolation[] {
+    return lintCommitMessage(message, this.getConventions(repoRoot));
+  }
+
   /**
    * Generate commit message using AI
    * @param diffContent Diff content to analyze
-   * @returns Generated commit message
+   * @param options Streaming and cancellation options
+   * @returns Generated commit message, cleaned and auto-fixed, with the lint warnings that remain
+   * @throws vscode.CancellationError if the request was aborted through `options.signal`
    */
-  async generateCommitMessage(diffContent: string): Promise<string> {
-    if (!this.openai) {
-      throw new Error('OpenAI API is not initialized. Please set your API key in settings.');
-    }
+  async generateCommitMessage(diffContent: string, options: GenerateOptions = {}): Promise<GeneratedCommit> {
+    const llm = await this.getLlm();
 
-    try {
-      // 커밋 메시지 생성을 위한 프롬프트
-      const prompt = `
-You are a helpful assistant that generates concise and informative Git commit messages based on code changes.
-Analyze the following git diff and create a commit message that follows the Conventional Commits format.
-
-The format should be:
-<type>[optional scope]: <description>
-
-[optional body]
-
-Where type is one of:
-- feat: A new feature
-- fix: A bug fix
-- docs: Documentation changes
-- style: Code style changes (formatting, missing semi colons, etc)
-- refactor: Code changes that neither fix bugs nor add features
-- perf: Performance improvements
-- test: Adding or updating tests
-- chore: Changes to the build process, tooling, etc
-
-Add an appropriate GitHub emoji at the beginning of the commit message.
-Common GitHub emojis include:
-- ✨ (sparkles) for new features
-- 🐛 (bug) for bug fixes
-- 📚 (books) for documentation
-- 💄 (lipstick) for style changes
-- ♻️ (recycle) for refactoring
-- ⚡ (zap) for performance improvements
-- ✅ (white_check_mark) for tests
-- 🔧 (wrench) for configuration changes
-
-Here is the diff:
-\`\`\`
-${diffContent}
-\`\`\`
-
-Generate a concise and informative commit message based on these changes.
-`;
-
-      // OpenAI API 호출
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          { role: 'system', content: 'You are a helpful assistant that generates git commit messages.' },
-          { role: 'user', content: prompt }
-        ],
-        max_tokens: 200,
-        temperature: 0.5,
-      });
-
-      // 응답에서 커밋 메시지 추출
-      let commitMessage = response.choices[0]?.message?.content?.trim() || '✨ feat: implement requested changes';
-      
-      // 커밋 메시지에서 타입 추출
-      const typeMatch = commitMessage.match(/^(\w+)(\(.*?\))?:/);
-      const type = typeMatch ? typeMatch[1] : 'feat';
+    // 설정과 저장소의 .commitwithai.json에서 커밋 규칙을 읽음
+    const conventions = this.getConventions(options.context?.repoRoot);
 
-      // 이모지 추가
-      commitMessage = this.addEmojiToCommitMessage(commitMessage, type);
-      
-      return commitMessage;
+    try {
+      return await generateCommitMessage(llm, conventions, diffContent, { ...options, reprompt: readRepromptSetting() });
     } catch (error) {
+      // 사용자가 취소한 경우 기본 메시지로 대체하지 않음
+      if (options.signal?.aborted) {
+        throw new vscode.CancellationError();
+      }
+
       console.error('Error generating commit message with AI:', error);
       
       // 더 자세한 오류 메시지 표시
       if (error instanceof Error) {
         if (error.message.includes('API key')) {
-          vscode.window.showErrorMessage('OpenAI API 키가 유효하지 않거나 만료되었습니다. 설정에서 API 키를 확인해주세요.');
+          vscode.window.showErrorMessage(vscode.l10n.t('The API key is invalid or expired. Please check the API key.'));
         } else if (error.message.includes('network')) {
-          vscode.window.showErrorMessage('네트워크 오류가 발생했습니다. 인터넷 연결을 확인해주세요.');
+          vscode.window.showErrorMessage(vscode.l10n.t('A network error occurred. Please check your internet connection.'));
         } else if (error.message.includes('timeout')) {
-          vscode.window.showErrorMessage('API 요청 시간이 초과되었습니다. 나중에 다시 시도해주세요.');
+          vscode.window.showErrorMessage(vscode.l10n.t('The API request timed out. Please try again later.'));
         } else {
-          vscode.window.showErrorMessage(`AI 커밋 메시지 생성 실패: ${error.message}`);
+          vscode.window.showErrorMessage(vscode.l10n.t('AI commit message generation failed: {0}', error.message));
         }
       } else {
-        vscode.window.showErrorMessage('AI 커밋 메시지 생성에 실패했습니다.');
+        vscode.window.showErrorMessage(vscode.l10n.t('AI commit message generation failed.'));
       }
       
       // 오류 발생 시 기본 커밋 메시지 반환
-      return '✨ feat: implement requested changes';
+      return { message: fallbackMessage(conventions), warnings: [], fallback: true, promptTokens: 0 };
+    }
+  }
+
+  /**
+   * Provider and model used for generation
+   * @returns e.g. `openai/gpt-4o-mini`
+   * @throws Error if the provider is not set up
+   */
+  async describeModel(): Promise<string> {
+    const llm = await this.getLlm();
+    return `${llm.id}/${llm.model}`;
+  }
+
+  /**
+   * Generate several candidate messages, one per variant in `CANDIDATE_VARIANTS`.
+   * The first candidate is generated alone so that a failing model (bad key, network) reports its error once;
+   * the others are then generated in parallel.
+   * @param diffContent Diff content to analyze
+   * @param count Number of candidates
+   * @param options Context and cancellation options (`variant` and `onToken` are ignored)
+   * @param onToken Receives text deltas with the index of the candidate they belong to
+   * @returns Candidates in variant order. Only one if the first one fell back to the default message.
+   * @throws vscode.CancellationError if the request was aborted through `options.signal`
+   */
+  async generateCandidates(
+    diffContent: string,
+    count: number,
+    options: GenerateOptions = {},
+    onToken?: (index: number, token: string) => void
+  ): Promise<GeneratedCommit[]> {
+    const variants = CANDIDATE_VARIANTS.slice(0, Math.max(count, 1));
+    const generate = (index: number) => this.generateCommitMessage(diffContent, {
+      ...options,
+      variant: variants[index],
+      onToken: onToken ? (token) => onToken(index, token) : undefined,
+    });
+
+    const first = await generate(0);
+    if (first.fallback) {
+      return [first];
     }
+
+    const rest = await Promise.all(variants.slice(1).map((_variant, i) => generate(i + 1)));
+    return [first, ...rest];
   }
 
   /**
-   * Add GitHub emoji to commit message if not already present
-   * @param commitMessage Original commit message
-   * @param type Commit type (feat, fix, etc.)
-   * @returns Commit message with emoji
+   * Ask the model to split the changes into atomic commits, each with its own message
+   * @param diffContent Diff content to analyze
+   * @param files Display paths of the changed files, as used in the diff
+   * @param options Context and cancellation options (`variant` and `onToken` are ignored)
+   * @returns Commit groups in order. Messages are cleaned and auto-fixed; files the model left out form a final
+   *   group with an empty message.
+   * @throws vscode.CancellationError if the request was aborted through `options.signal`
+   * @throws Error if the model fails or does not return a valid plan
    */
-  private addEmojiToCommitMessage(commitMessage: string, type: string): string {
-    // 이미 이모티콘이 있는지 확인
-    if (/^\p{Emoji}/u.test(commitMessage)) {
-      return commitMessage;
+  async planCommits(diffContent: string, files: string[], options: GenerateOptions = {}): Promise<PlannedCommit[]> {
+    const llm = await this.getLlm();
+    const conventions = this.getConventions(options.context?.repoRoot);
+
+    try {
+      return await planCommits(llm, conventions, diffContent, files, options.signal);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new vscode.CancellationError();
+      }
+      throw error;
     }
+  }
 
-    // 커밋 타입에 따른 이모티콘 매핑
-    const emojiMap: Record<string, string> = {
-      feat: '✨',
-      fix: '🐛',
-      docs: '📚',
-      style: '💄',
-      refactor: '♻️',
-      perf: '⚡',
-      test: '✅',
-      chore: '🔧',
-      build: '🏗️',
-      ci: '🔄',
-    };
+  /**
+   * Ask the model to review the changes before they are committed. The diffs are fitted into the configured
+   * token budget here, not with `prepareDiff`, so that the model sees real line numbers.
+   * @param files File diffs from `getFileDiffs`
+   * @param options Context and cancellation options (`variant` and `onToken` are ignored)
+   * @returns Summary and findings, written in the message language of the repository
+   * @throws vscode.CancellationError if the request was aborted through `options.signal`
+   * @throws Error if the model fails or does not return a valid review
+   */
+  async reviewChanges(files: FileDiff[], options: GenerateOptions = {}): Promise<ReviewResult> {
+    const llm = await this.getLlm();
+    const language = this.getConventions(options.context?.repoRoot).language;
+    const budget = readDiffBudgetSettings(vscode.workspace.getConfiguration('commitWithAi'));
+
+    try {
+      return await reviewChanges(llm, files, budget, language, options.signal);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new vscode.CancellationError();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Collect the commits and changed files of the checked-out branch for a pull request
+   * @param repoRoot Repository root
+   * @returns Changes since the merge base with the target branch (`commitWithAi.pullRequestTargetBranch`,
+   *   overridden by `pullRequestTargetBranch` in `.commitwithai.json`)
+   * @throws Error if the git extension is not initialized, or the target branch does not exist or has no common
+   *   commit with HEAD
+   */
+  async getBranchChanges(repoRoot: string): Promise<BranchChanges> {
+    if (!this.gitExtension) {
+      throw new Error('Git extension not initialized');
+    }
+    const targetBranch = this.readRepositoryConfig(repoRoot).pullRequestTargetBranch
+      || vscode.workspace.getConfiguration('commitWithAi').get<string>('pullRequestTargetBranch')
+      || 'main';
+    return collectBranchChanges(this.gitExtension.git.path, repoRoot, targetBranch);
+  }
+
+  /**
+   * Generate the title and description of a pull request from the commits and cumulative diff of a branch.
+   * The diff goes through the same redaction and token budget as commit messages, and the prompt is
+   * `commitWithAi.pullRequestTemplate` (overridden by `pullRequestTemplate` in `.commitwithai.json`) or the default.
+   * @param repoRoot Repository root
+   * @param changes Changes from `getBranchChanges`
+   * @param branch Name of the checked-out branch, if any
+   * @param options Cancellation options (`context`, `variant` and `onToken` are ignored)
+   * @returns Title and markdown description
+   * @throws vscode.CancellationError if the request was aborted through `options.signal`
+   * @throws Error if the git extension is not initialized, or the model fails or returns no title
+   */
+  async generatePullRequest(repoRoot: string, changes: BranchChanges, branch: string | undefined, options: GenerateOptions = {}): Promise<PullRequest> {
+    if (!this.gitExtension) {
+      throw new Error('Git extension not initialized');
+    }
+    const llm = await this.getLlm();
+    const config = vscode.workspace.getConfiguration('commitWithAi');
+    const fileConfig = this.readRepositoryConfig(repoRoot);
+    const { redaction, detectors } = this.getDetectors();
+
+    const fileDiffs = await collectFileDiffs(
+      new GitDiffCollector(this.gitExtension.git.path, repoRoot, { base: changes.mergeBase, head: 'HEAD' }),
+      changes.files,
+      detectors,
+      resolveExcludedFiles(repoRoot, redaction),
+      { onError: (relativePath, error) => console.error(`Error getting the branch diff of ${relativePath}:`, error) }
+    );
+    const prepared = await this.prepareDiff(fileDiffs, options);
+    const template = fileConfig.pullRequestTemplate || config.get<string>('pullRequestTemplate') || DEFAULT_PULL_REQUEST_TEMPLATE;
+
+    // 티켓 패턴이 잘못되었으면 티켓 없이 생성
+    let tickets: string[] = [];
+    try {
+      tickets = branch ? extractTickets(branch, readContextSettings(config).ticketPattern) : [];
+    } catch (error) {
+      console.warn('Ignored the invalid ticket pattern:', error);
+    }
+
+    try {
+      return await generatePullRequest(llm, template, {
+        diff: prepared.content,
+        commits: changes.commits,
+        files: changes.files,
+        branch,
+        targetBranch: changes.target,
+        language: this.resolveConventions(fileConfig).language,
+        tickets,
+      }, options.signal);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new vscode.CancellationError();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List the tags of a repository, newest first
+   * @param repoRoot Repository root
+   * @throws Error if the git extension is not initialized
+   */
+  async getTags(repoRoot: string): Promise<string[]> {
+    if (!this.gitExtension) {
+      throw new Error('Git extension not initialized');
+    }
+    return readTags(this.gitExtension.git.path, repoRoot);
+  }
+
+  /**
+   * Read the commits between two revisions, without merge commits
+   * @param repoRoot Repository root
+   * @param from Revision the range starts after, or undefined for the whole history of `to`
+   * @param to Last revision of the range
+   * @returns Commits, oldest first
+   * @throws Error if the git extension is not initialized or a revision does not exist
+   */
+  async getCommits(repoRoot: string, from: string | undefined, to: string): Promise<LogCommit[]> {
+    if (!this.gitExtension) {
+      throw new Error('Git extension not initialized');
+    }
+    return readCommits(this.gitExtension.git.path, repoRoot, from ? `${from}..${to}` : to, { noMerges: true });
+  }
+
+  /**
+   * Generate release notes from commits grouped by changelog section, in the language of the repository's
+   * commit conventions
+   * @param repoRoot Repository root
+   * @param release Version and date of the release heading
+   * @param groups Entries from `groupCommits`
+   * @param options Cancellation options (`context`, `variant` and `onToken` are ignored)
+   * @returns Release section with its heading
+   * @throws vscode.CancellationError if the request was aborted through `options.signal`
+   * @throws Error if the model fails or returns nothing
+   */
+  async generateReleaseNotes(repoRoot: string, release: ReleaseInfo, groups: ChangelogGroups, options: GenerateOptions = {}): Promise<string> {
+    const llm = await this.getLlm();
+    try {
+      return await generateReleaseNotes(llm, release, { groups, language: this.getConventions(repoRoot).language }, options.signal);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new vscode.CancellationError();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List the newest commits of HEAD with whether they are pushed
+   * @param repoRoot Repository root
+   * @param count Number of commits
+   * @returns Commits, newest first
+   * @throws Error if the git extension is not initialized
+   */
+  async getRecentCommits(repoRoot: string, count: number): Promise<RewordableCommit[]> {
+    if (!this.gitExtension) {
+      throw new Error('Git extension not initialized');
+    }
+    return listRecentCommits(this.gitExtension.git.path, repoRoot, count);
+  }
+
+  /**
+   * Read the commits from `oldest` up to HEAD for rewording
+   * @param repoRoot Repository root
+   * @param oldest Oldest commit to reword
+   * @throws Error if the git extension is not initialized, `oldest` is not an ancestor of HEAD, or the range
+   *   contains a merge commit
+   */
+  async getRewordRange(repoRoot: string, oldest: string): Promise<RewordRange> {
+    if (!this.gitExtension) {
+      throw new Error('Git extension not initialized');
+    }
+    return readRewordRange(this.gitExtension.git.path, repoRoot, oldest);
+  }
+
+  /**
+   * Generate a new message for an existing commit from its diff, with the current message as a reference.
+   * The diff goes through the same redaction and token budget as new commits.
+   * @param repoRoot Repository root
+   * @param commit Commit to reword
+   * @param options Cancellation options (`context`, `variant` and `onToken` are ignored)
+   * @returns Generated message, or the fallback message if the model failed (the error is already shown)
+   * @throws vscode.CancellationError if the request was aborted through `options.signal`
+   * @throws Error if the git extension is not initialized
+   */
+  async generateReword(repoRoot: string, commit: LogCommit, options: GenerateOptions = {}): Promise<GeneratedCommit> {
+    if (!this.gitExtension) {
+      throw new Error('Git extension not initialized');
+    }
+    const gitPath: string = this.gitExtension.git.path;
+    const { redaction, detectors } = this.getDetectors();
+    const changes = await readCommitChanges(gitPath, repoRoot, commit.hash);
+
+    const fileDiffs = await collectFileDiffs(
+      new GitDiffCollector(gitPath, repoRoot, { base: changes.base, head: commit.hash }),
+      changes.files,
+      detectors,
+      resolveExcludedFiles(repoRoot, redaction),
+      { onError: (relativePath, error) => console.error(`Error getting the diff of ${relativePath} in ${commit.hash}:`, error) }
+    );
+    const prepared = await this.prepareDiff(fileDiffs, options);
+    const previousMessage = commit.body ? `${commit.subject}\n\n${commit.body}` : commit.subject;
+
+    return this.generateCommitMessage(prepared.content, {
+      context: { repoRoot, files: changes.files, previousMessage },
+      signal: options.signal,
+    });
+  }
 
-    const emoji = emojiMap[type] || '✨';
-    return `${emoji} ${commitMessage}`;
+  /**
+   * Rewrite the messages of a range of commits and move HEAD to the result
+   * @param repoRoot Repository root
+   * @param range Range from `getRewordRange`
+   * @param messages New messages by commit hash
+   * @returns New HEAD
+   * @throws Error if the git extension is not initialized or HEAD has moved since the range was read
+   */
+  async rewordCommits(repoRoot: string, range: RewordRange, messages: ReadonlyMap<string, string>): Promise<string> {
+    if (!this.gitExtension) {
+      throw new Error('Git extension not initialized');
+    }
+    return rewordCommits(this.gitExtension.git.path, repoRoot, range, messages);
   }
-}
\ No newline at end of file
+}
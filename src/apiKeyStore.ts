@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import { API_KEY_SOURCES, LlmProviderId } from './llm';
+
+const SECRET_KEY_PREFIX = 'commitWithAi.apiKey.';
+
+// 옛 설정 값이 있는 위치: 해당 범위의 설정, 저장 대상, 값
+type SettingScope = [config: vscode.WorkspaceConfiguration, target: vscode.ConfigurationTarget, value: string | undefined];
+
+/**
+ * API keys kept in VS Code's SecretStorage (OS keychain), one per provider.
+ * Unlike settings, secrets are not synced to settings.json.
+ */
+export class ApiKeyStore implements vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<LlmProviderId>();
+  private readonly disposables: vscode.Disposable[];
+
+  /** Fires with the provider whose key was set or cleared, also from other windows */
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(private readonly secrets: vscode.SecretStorage) {
+    this.disposables = [
+      this._onDidChange,
+      secrets.onDidChange(event => {
+        if (event.key.startsWith(SECRET_KEY_PREFIX)) {
+          this._onDidChange.fire(event.key.slice(SECRET_KEY_PREFIX.length) as LlmProviderId);
+        }
+      }),
+    ];
+  }
+
+  /**
+   * Get the stored API key of a provider
+   * @param provider Provider ID
+   * @returns The key, or undefined if none is stored
+   */
+  async get(provider: LlmProviderId): Promise<string | undefined> {
+    return (await this.secrets.get(SECRET_KEY_PREFIX + provider)) || undefined;
+  }
+
+  async set(provider: LlmProviderId, apiKey: string): Promise<void> {
+    await this.secrets.store(SECRET_KEY_PREFIX + provider, apiKey);
+  }
+
+  async delete(provider: LlmProviderId): Promise<void> {
+    await this.secrets.delete(SECRET_KEY_PREFIX + provider);
+  }
+
+  /**
+   * Move keys from the legacy plaintext settings into secret storage and clear the settings.
+   * A key already in secret storage is kept. `openaiApiKey` is copied to both OpenAI providers.
+   * @param config Workspace configuration for `commitWithAi`
+   * @param folderConfigs `commitWithAi` configuration scoped to each workspace folder
+   * @returns Providers whose key was migrated
+   */
+  async migrateFromSettings(
+    config: vscode.WorkspaceConfiguration,
+    folderConfigs: vscode.WorkspaceConfiguration[] = (vscode.workspace.workspaceFolders ?? [])
+      .map(folder => vscode.workspace.getConfiguration('commitWithAi', folder.uri))
+  ): Promise<LlmProviderId[]> {
+    const migrated: LlmProviderId[] = [];
+    const settings = [...new Set(Object.values(API_KEY_SOURCES).map(source => source.setting))];
+
+    for (const setting of settings) {
+      if (!setting) {
+        continue;
+      }
+      const inspected = config.inspect<string>(setting);
+      const scopes: SettingScope[] = [
+        ...folderConfigs.map((folderConfig): SettingScope =>
+          [folderConfig, vscode.ConfigurationTarget.WorkspaceFolder, folderConfig.inspect<string>(setting)?.workspaceFolderValue]),
+        [config, vscode.ConfigurationTarget.Workspace, inspected?.workspaceValue],
+        [config, vscode.ConfigurationTarget.Global, inspected?.globalValue],
+      ];
+      // 실제로 사용되던 키는 폴더 값, 워크스페이스 값, 전역 값 순으로 우선함
+      const value = scopes.map(([, , scopeValue]) => scopeValue).find(scopeValue => !!scopeValue);
+      if (!value) {
+        continue;
+      }
+
+      const providers = (Object.keys(API_KEY_SOURCES) as LlmProviderId[])
+        .filter(provider => API_KEY_SOURCES[provider].setting === setting);
+      for (const provider of providers) {
+        if (!(await this.get(provider))) {
+          await this.set(provider, value);
+          migrated.push(provider);
+        }
+      }
+
+      for (const [scopeConfig, target, scopeValue] of scopes) {
+        if (scopeValue !== undefined) {
+          await scopeConfig.update(setting, undefined, target);
+        }
+      }
+    }
+
+    return migrated;
+  }
+
+  dispose() {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
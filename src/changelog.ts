@@ -0,0 +1,255 @@
+import { LogCommit } from './commitLog';
+import { languageName, stripLeadingEmoji } from './conventions';
+
+/**
+ * Sections of a Keep a Changelog release, in the order they are written.
+ * `Breaking Changes` is not part of the format but is listed first so it is not missed.
+ */
+export type ChangelogSection = 'Breaking Changes' | 'Added' | 'Changed' | 'Deprecated' | 'Removed' | 'Fixed' | 'Security';
+
+export const CHANGELOG_SECTIONS: readonly ChangelogSection[] = [
+  'Breaking Changes', 'Added', 'Changed', 'Deprecated', 'Removed', 'Fixed', 'Security'
+];
+
+/**
+ * Commit with its Conventional Commits header taken apart
+ */
+export interface ParsedCommit extends LogCommit {
+  /** Type such as `feat`, or undefined if the subject does not follow Conventional Commits */
+  type?: string;
+  scope?: string;
+  /** Subject without the type, scope and emoji */
+  description: string;
+  /** Marked with `!` or a `BREAKING CHANGE:` footer */
+  breaking: boolean;
+  /** Text of the `BREAKING CHANGE:` footer */
+  breakingNote?: string;
+}
+
+/**
+ * Changelog entry of one commit
+ */
+export interface ChangelogEntry {
+  scope?: string;
+  description: string;
+  /** Abbreviated commit hash */
+  hash: string;
+}
+
+/**
+ * Entries of a release by section. Sections without entries are left out.
+ */
+export type ChangelogGroups = Partial<Record<ChangelogSection, ChangelogEntry[]>>;
+
+/**
+ * Heading of a release
+ */
+export interface ReleaseInfo {
+  /** Version such as `1.2.0`, or `Unreleased` */
+  version: string;
+  /** Release date as `YYYY-MM-DD`. Not written for `Unreleased`. */
+  date: string;
+}
+
+/**
+ * Values substituted into the release notes prompt
+ */
+export interface ReleaseNotesPromptVariables {
+  groups: ChangelogGroups;
+  version: string;
+  /** Code from `MESSAGE_LANGUAGES`, or a language name */
+  language: string;
+}
+
+// 타입별 섹션. 목록에 없는 타입과 Conventional Commits가 아닌 커밋은 Changed에 넣음
+const TYPE_SECTIONS: Record<string, ChangelogSection> = {
+  feat: 'Added',
+  fix: 'Fixed',
+  perf: 'Changed',
+  refactor: 'Changed',
+  revert: 'Removed',
+  deprecate: 'Deprecated',
+  security: 'Security',
+};
+
+// 사용자에게 보이지 않는 변경은 호환성이 깨질 때만 기록
+const HIDDEN_TYPES = ['docs', 'style', 'test', 'chore', 'build', 'ci'];
+
+const HEADER = /^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/;
+
+// 꼬리말은 빈 줄이나 메시지 끝까지
+const BREAKING_FOOTER = /(?:^|\n)BREAKING[ -]CHANGE:\s*([\s\S]*?)(?:\n\s*\n|$)/;
+
+const RELEASE_HEADING = /^## \[?([^\]\s]+)\]?/;
+
+const DEFAULT_HEADER = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/).
+`;
+
+/**
+ * Take apart the Conventional Commits header of a commit. A leading emoji is ignored.
+ * @param commit Commit from `readCommits`
+ */
+export function parseCommit(commit: LogCommit): ParsedCommit {
+  const subject = stripLeadingEmoji(commit.subject.trim());
+  const header = subject.match(HEADER);
+  const footer = commit.body.match(BREAKING_FOOTER);
+  const breakingNote = footer ? footer[1].replace(/\s*\n\s*/g, ' ').trim() : undefined;
+
+  if (!header) {
+    return { ...commit, description: subject, breaking: !!footer, breakingNote };
+  }
+  return {
+    ...commit,
+    type: header[1].toLowerCase(),
+    scope: header[2]?.trim() || undefined,
+    description: header[4].trim(),
+    breaking: !!header[3] || !!footer,
+    breakingNote,
+  };
+}
+
+/**
+ * Sort commits into changelog sections by type. Breaking changes are also listed under `Breaking Changes`,
+ * with the footer text when there is one. Merge commits and hidden types (docs, style, test, chore, build, ci)
+ * are left out unless they break compatibility.
+ * @param commits Commits, oldest first
+ * @returns Entries by section, each sorted by scope and newest first within a scope
+ */
+export function groupCommits(commits: LogCommit[]): ChangelogGroups {
+  const groups: ChangelogGroups = {};
+  const add = (section: ChangelogSection, entry: ChangelogEntry) => {
+    (groups[section] ??= []).push(entry);
+  };
+
+  for (const commit of [...commits].reverse().map(parseCommit)) {
+    if (/^Merge /.test(commit.description) && !commit.type) {
+      continue;
+    }
+    const entry: ChangelogEntry = { scope: commit.scope, description: commit.description, hash: commit.hash.slice(0, 7) };
+    if (commit.breaking) {
+      add('Breaking Changes', { ...entry, description: commit.breakingNote || commit.description });
+    }
+    if (commit.type && HIDDEN_TYPES.includes(commit.type)) {
+      continue;
+    }
+    add(commit.type ? TYPE_SECTIONS[commit.type] ?? 'Changed' : 'Changed', entry);
+  }
+
+  // 범위가 없는 항목을 먼저, 그다음 범위 이름순 (같은 범위 안에서는 최신순 유지)
+  for (const entries of Object.values(groups)) {
+    entries.sort((a, b) => (a.scope ?? '').localeCompare(b.scope ?? ''));
+  }
+  return groups;
+}
+
+/**
+ * Heading of a release section, e.g. `## [1.2.0] - 2024-05-01` or `## [Unreleased]`
+ * @param release Version and date
+ */
+export function formatReleaseHeading(release: ReleaseInfo): string {
+  return isUnreleased(release.version) ? '## [Unreleased]' : `## [${release.version}] - ${release.date}`;
+}
+
+/**
+ * Build a release section from the grouped commits without the model
+ * @param release Version and date
+ * @param groups Entries from `groupCommits`
+ */
+export function formatChangelog(release: ReleaseInfo, groups: ChangelogGroups): string {
+  const sections = CHANGELOG_SECTIONS
+    .filter(section => groups[section]?.length)
+    .map(section => `### ${section}\n\n${groups[section]!.map(formatEntry).join('\n')}`);
+  return [formatReleaseHeading(release), ...(sections.length > 0 ? sections : ['No notable changes.'])].join('\n\n');
+}
+
+/**
+ * Build the prompt asking the model for release notes
+ * @param variables Grouped commits, version and language
+ */
+export function buildReleaseNotesPrompt(variables: ReleaseNotesPromptVariables): string {
+  const commits = CHANGELOG_SECTIONS
+    .filter(section => variables.groups[section]?.length)
+    .map(section => `${section}:\n${variables.groups[section]!.map(formatEntry).join('\n')}`)
+    .join('\n\n');
+
+  return `
+Write the release notes of version ${variables.version} from the commits below, grouped by changelog section.
+Use only these sections, in this order, and leave out empty ones: ${CHANGELOG_SECTIONS.map(section => `### ${section}`).join(', ')}.
+Under each section write one markdown bullet per user-visible change in plain words that a user understands,
+not commit jargon. Merge commits that describe the same change, and drop purely internal ones.
+Keep a scope as a bold prefix (**scope:**) when it helps the reader. Always keep every breaking change.
+Do not write a version heading or anything before the first section. Write the notes in ${languageName(variables.language)}.
+
+Commits:
+${commits || '(none)'}
+`;
+}
+
+/**
+ * Turn the model's answer into a release section: the heading is added, and a wrapping code block or a heading
+ * written by the model is removed.
+ * @param release Version and date
+ * @param raw Raw model output
+ * @throws Error if the answer is empty
+ */
+export function parseReleaseNotes(release: ReleaseInfo, raw: string): string {
+  let text = raw.replace(/\r\n/g, '\n').trim();
+
+  const fenced = text.match(/^```[\w-]*\n([\s\S]*?)\n?```$/);
+  if (fenced) {
+    text = fenced[1].trim();
+  }
+
+  // 버전 제목은 직접 붙이므로 모델이 쓴 #, ## 제목은 버림
+  text = text.split('\n').filter(line => !/^#{1,2}\s/.test(line)).join('\n').trim();
+  if (!text) {
+    throw new Error('The model did not return release notes.');
+  }
+  return `${formatReleaseHeading(release)}\n\n${text}`;
+}
+
+/**
+ * Add a release section to a changelog. `Unreleased` stays at the top and the new release goes right below it;
+ * an existing section of the same version is replaced.
+ * @param changelog Current content of CHANGELOG.md, or an empty string to start a new file
+ * @param section Release section from `formatChangelog` or `parseReleaseNotes`
+ * @returns New content, ending with a newline
+ */
+export function prependRelease(changelog: string, section: string): string {
+  const content = changelog.replace(/\r\n/g, '\n').trim() || DEFAULT_HEADER.trim();
+  const version = section.match(RELEASE_HEADING)?.[1];
+  const lines = content.split('\n');
+
+  const headings = lines
+    .map((line, index) => ({ version: line.match(RELEASE_HEADING)?.[1], index }))
+    .filter((heading): heading is { version: string, index: number } => heading.version !== undefined);
+  const sectionEnd = (index: number) => headings.find(heading => heading.index > index)?.index ?? lines.length;
+
+  const existing = headings.find(heading => heading.version.toLowerCase() === version?.toLowerCase());
+  let start: number;
+  let end: number;
+  if (existing) {
+    start = existing.index;
+    end = sectionEnd(existing.index);
+  } else {
+    const first = headings[0];
+    start = first && isUnreleased(first.version) && !isUnreleased(version ?? '') ? sectionEnd(first.index) : first?.index ?? lines.length;
+    end = start;
+  }
+
+  const before = lines.slice(0, start).join('\n').trimEnd();
+  const after = lines.slice(end).join('\n').trim();
+  return [before, section.trim(), after].filter(part => part).join('\n\n') + '\n';
+}
+
+function isUnreleased(version: string): boolean {
+  return version.toLowerCase() === 'unreleased';
+}
+
+function formatEntry(entry: ChangelogEntry): string {
+  return `- ${entry.scope ? `**${entry.scope}:** ` : ''}${entry.description} (${entry.hash})`;
+}
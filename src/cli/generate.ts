@@ -0,0 +1,100 @@
+import {
+  collectFileDiffs,
+  generateCommitMessage,
+  GeneratedCommit,
+  prepareDiff,
+  readContextSettings,
+  readDiffBudgetSettings,
+  readRedactionSettings,
+  resolveExcludedFiles,
+  SettingsSource,
+} from '../commitGenerator';
+import { CommitConventions } from '../conventions';
+import { GitDiffCollector, runGit } from '../gitDiff';
+import { LlmProvider } from '../llm';
+import { compileDetectors } from '../redaction';
+import { collectRepositoryContext, readCurrentBranch } from '../repoContext';
+
+export interface StagedGenerateOptions {
+  /** Path of the git executable */
+  gitPath: string;
+  /** Resolved conventions of the repository */
+  conventions: CommitConventions;
+  /** Generation settings (budget, redaction, context, re-prompt) */
+  settings: SettingsSource;
+  /** Receives problems that do not stop the generation */
+  onWarning?: (message: string) => void;
+}
+
+/**
+ * Root of the repository containing a directory
+ * @param gitPath Path of the git executable
+ * @param cwd Directory inside the repository
+ * @throws Error if the directory is not inside a git work tree
+ */
+export async function findRepositoryRoot(gitPath: string, cwd: string): Promise<string> {
+  return (await runGit(gitPath, cwd, ['rev-parse', '--show-toplevel'])).trim();
+}
+
+/**
+ * Staged files of a repository. Both paths of a rename are listed; the diff collector merges them.
+ * @param gitPath Path of the git executable
+ * @param repoRoot Repository root path
+ * @returns Paths relative to the repository root
+ */
+export async function listStagedFiles(gitPath: string, repoRoot: string): Promise<string[]> {
+  const output = await runGit(gitPath, repoRoot, ['diff', '--cached', '--name-only', '--no-renames', '-z']);
+  return output.split('\0').filter(file => file);
+}
+
+/**
+ * Generate a commit message for the staged changes of a repository, the same way the extension does:
+ * scrubbed git diffs, the token budget, repository context and the repository's conventions.
+ * @param llm Model to call
+ * @param repoRoot Repository root path
+ * @param options Conventions, settings and warning output
+ * @returns Generated message, or undefined if nothing is staged
+ */
+export async function generateForStagedChanges(
+  llm: LlmProvider,
+  repoRoot: string,
+  options: StagedGenerateOptions
+): Promise<GeneratedCommit | undefined> {
+  const { gitPath, settings } = options;
+  const files = await listStagedFiles(gitPath, repoRoot);
+  if (files.length === 0) {
+    return undefined;
+  }
+
+  const redaction = readRedactionSettings(settings);
+  const { detectors, invalid } = compileDetectors(redaction);
+  if (invalid.length > 0) {
+    options.onWarning?.(`Ignored invalid regular expressions: ${invalid.join(', ')}`);
+  }
+
+  const fileDiffs = await collectFileDiffs(
+    new GitDiffCollector(gitPath, repoRoot, 'staged'),
+    files,
+    detectors,
+    resolveExcludedFiles(repoRoot, redaction),
+    { onError: (relativePath, error: any) => options.onWarning?.(`Failed to get the changes of ${relativePath}: ${error?.message}`) }
+  );
+  if (fileDiffs.length === 0) {
+    return undefined;
+  }
+
+  const prepared = await prepareDiff(fileDiffs, readDiffBudgetSettings(settings), async () => llm);
+  const context = await collectRepositoryContext(
+    gitPath,
+    repoRoot,
+    await readCurrentBranch(gitPath, repoRoot),
+    files,
+    readContextSettings(settings),
+    error => options.onWarning?.(`The ticket pattern is invalid: ${error.message}`)
+  );
+
+  return generateCommitMessage(llm, options.conventions, prepared.content, {
+    context: { ...context, repoRoot, files },
+    reprompt: settings.get<boolean>('repromptOnLintErrors') ?? false,
+  });
+}
@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { runGit } from '../gitDiff';
+
+/**
+ * Comment that marks a `prepare-commit-msg` hook installed by commit-with-ai
+ */
+export const HOOK_MARKER = '# commit-with-ai prepare-commit-msg hook';
+
+/**
+ * Build the `prepare-commit-msg` hook script
+ * @param nodePath Path of the Node.js executable
+ * @param cliPath Path of the CLI script
+ */
+export function buildHookScript(nodePath: string, cliPath: string): string {
+  return `#!/bin/sh\n${HOOK_MARKER}\nexec ${shellQuote(nodePath)} ${shellQuote(cliPath)} hook run "$@"\n`;
+}
+
+/**
+ * Write the `prepare-commit-msg` hook of a repository. `core.hooksPath` is respected.
+ * @param gitPath Path of the git executable
+ * @param repoRoot Repository root path
+ * @param script Hook script from `buildHookScript`
+ * @param force Replace a hook that was not installed by commit-with-ai
+ * @returns Path of the hook
+ * @throws Error if another hook exists and `force` is not set
+ */
+export async function installHook(gitPath: string, repoRoot: string, script: string, force = false): Promise<string> {
+  const hooksDir = path.resolve(repoRoot, (await runGit(gitPath, repoRoot, ['rev-parse', '--git-path', 'hooks'])).trim());
+  const hookPath = path.join(hooksDir, 'prepare-commit-msg');
+
+  if (!force && fs.existsSync(hookPath) && !fs.readFileSync(hookPath, 'utf8').includes(HOOK_MARKER)) {
+    throw new Error(`${hookPath} already exists. Use --force to replace it.`);
+  }
+
+  fs.mkdirSync(hooksDir, { recursive: true });
+  fs.writeFileSync(hookPath, script, { mode: 0o755 });
+  fs.chmodSync(hookPath, 0o755);
+  return hookPath;
+}
+
+// git commit -v가 diff 위에 쓰는 가위 줄. git은 이 줄부터 아래를 메시지에서 버림
+const SCISSORS = /^# -+ >8 -+$/;
+
+/**
+ * Whether the hook should generate a message. Git passes a source when the message already comes from
+ * `-m`/`-F`, a template, a merge, a squash or an existing commit (`--amend`, `-c`); those are left alone.
+ * @param source Second argument of `prepare-commit-msg`
+ * @param content Current content of the message file
+ */
+export function shouldGenerate(source: string | undefined, content: string): boolean {
+  if (source) {
+    return false;
+  }
+  // commit -v의 diff는 주석이 아니므로 가위 줄 위만 확인
+  const lines = content.split('\n');
+  const scissors = lines.findIndex(line => SCISSORS.test(line));
+  return lines.slice(0, scissors === -1 ? lines.length : scissors).every(line => line.startsWith('#') || !line.trim());
+}
+
+/**
+ * Put the generated message above the comments git wrote into the message file, so that the scissors line
+ * and diff of `git commit -v` stay below it
+ * @param content Current content of the message file
+ * @param message Generated message
+ */
+export function insertMessage(content: string, message: string): string {
+  return `${message}\n${content.startsWith('\n') ? '' : '\n'}${content}`;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GeneratedCommit, readLlmSettings, SettingsSource } from '../commitGenerator';
+import { readConfigFile, resolveConventions } from '../conventions';
+import { createLlmProvider, LlmProvider, requiresApiKey } from '../llm';
+import { findRepositoryRoot, generateForStagedChanges } from './generate';
+import { buildHookScript, insertMessage, installHook, shouldGenerate } from './hook';
+import { API_KEY_ENV, createCliSettings, localeFromEnv } from './settings';
+
+const GIT_PATH = 'git';
+
+const USAGE = `Usage:
+  commit-with-ai generate [--provider <id>] [--model <name>]
+      Print a commit message for the staged changes.
+  commit-with-ai hook install [--force]
+      Install a prepare-commit-msg hook in the current repository, so that git commit starts with a generated message.
+
+Conventions and prompt templates are read from the same .commitwithai.json as the extension.
+The provider is set with provider, model and baseUrl in .commitwithai.json or the COMMIT_WITH_AI_PROVIDER and COMMIT_WITH_AI_MODEL
+environment variables. Pass the API key in ${API_KEY_ENV} or the provider's own variable (OPENAI_API_KEY, ANTHROPIC_API_KEY, AZURE_OPENAI_API_KEY).`;
+
+// 값을 받는 옵션
+const VALUE_OPTIONS = ['provider', 'model'];
+
+interface ParsedArgs {
+  positionals: string[];
+  options: Record<string, string | undefined>;
+}
+
+function parseArgs(args: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const options: Record<string, string | undefined> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const match = args[i].match(/^--?([\w-]+)(?:=(.*))?$/);
+    if (!match) {
+      positionals.push(args[i]);
+    } else if (VALUE_OPTIONS.includes(match[1])) {
+      options[match[1]] = match[2] ?? args[++i];
+    } else {
+      options[match[1]] = match[2] ?? 'true';
+    }
+  }
+
+  return { positionals, options };
+}
+
+function warn(message: string) {
+  console.error(`commit-with-ai: ${message}`);
+}
+
+function createLlm(settings: SettingsSource): LlmProvider {
+  const llmSettings = readLlmSettings(settings, process.env[API_KEY_ENV]);
+  if (requiresApiKey(llmSettings.provider) && !llmSettings.apiKey) {
+    throw new Error(`The ${llmSettings.provider} API key is not set. Set the ${API_KEY_ENV} environment variable.`);
+  }
+  return createLlmProvider(llmSettings);
+}
+
+// 현재 디렉터리의 저장소에서 스테이징된 변경으로 메시지를 생성
+async function generate(options: Record<string, string | undefined>): Promise<GeneratedCommit | undefined> {
+  const repoRoot = await findRepositoryRoot(GIT_PATH, process.cwd());
+  const fileConfig = readConfigFile(repoRoot);
+  const settings = createCliSettings(fileConfig, process.env, { provider: options.provider, model: options.model });
+  const conventions = resolveConventions({}, fileConfig);
+
+  const generated = await generateForStagedChanges(createLlm(settings), repoRoot, {
+    gitPath: GIT_PATH,
+    conventions: conventions.language === 'auto' ? { ...conventions, language: localeFromEnv() } : conventions,
+    settings,
+    onWarning: warn,
+  });
+  if (generated && generated.warnings.length > 0) {
+    warn(`Commit convention warnings: ${generated.warnings.map(warning => warning.message).join(', ')}`);
+  }
+  return generated;
+}
+
+async function runGenerate(options: Record<string, string | undefined>): Promise<number> {
+  const generated = await generate(options);
+  if (!generated) {
+    warn('There are no staged changes. Stage files and try again.');
+    return 1;
+  }
+  if (generated.fallback) {
+    warn('The model returned no message, using the default message.');
+  }
+  process.stdout.write(`${generated.message}\n`);
+  return 0;
+}
+
+async function runHookInstall(options: Record<string, string | undefined>): Promise<number> {
+  const repoRoot = await findRepositoryRoot(GIT_PATH, process.cwd());
+  const script = buildHookScript(process.execPath, path.resolve(process.argv[1]));
+  const hookPath = await installHook(GIT_PATH, repoRoot, script, options.force === 'true');
+  console.log(`Installed the prepare-commit-msg hook: ${hookPath}`);
+  return 0;
+}
+
+// prepare-commit-msg 훅: 실패해도 커밋을 막지 않음
+async function runHook([messageFile, source]: string[]): Promise<number> {
+  if (!messageFile) {
+    warn('The path of the commit message file is required.');
+    return 1;
+  }
+
+  const content = fs.readFileSync(messageFile, 'utf8');
+  if (!shouldGenerate(source, content)) {
+    return 0;
+  }
+
+  try {
+    const generated = await generate({});
+    if (generated && !generated.fallback) {
+      fs.writeFileSync(messageFile, insertMessage(content, generated.message));
+    }
+  } catch (error: any) {
+    warn(`Could not generate a commit message: ${error.message}`);
+  }
+  return 0;
+}
+
+async function main(args: string[]): Promise<number> {
+  const { positionals, options } = parseArgs(args);
+  const [command, subcommand] = positionals;
+
+  if (options.help || options.h || !command) {
+    console.log(USAGE);
+    return command || options.help || options.h ? 0 : 1;
+  }
+
+  try {
+    if (command === 'generate') {
+      return await runGenerate(options);
+    }
+    if (command === 'hook' && subcommand === 'install') {
+      return await runHookInstall(options);
+    }
+    if (command === 'hook' && subcommand === 'run') {
+      return await runHook(positionals.slice(2));
+    }
+  } catch (error: any) {
+    warn(error.message);
+    return 1;
+  }
+
+  warn(`Unknown command: ${positionals.join(' ')}\n\n${USAGE}`);
+  return 1;
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,55 @@
+import { SettingsSource } from '../commitGenerator';
+import { API_KEY_SOURCES } from '../llm';
+
+/**
+ * Environment variables that override provider settings of the config file
+ */
+export const ENV_SETTINGS: Record<string, string> = {
+  provider: 'COMMIT_WITH_AI_PROVIDER',
+  model: 'COMMIT_WITH_AI_MODEL',
+  baseUrl: 'COMMIT_WITH_AI_BASE_URL',
+  azureDeployment: 'COMMIT_WITH_AI_AZURE_DEPLOYMENT',
+  azureApiVersion: 'COMMIT_WITH_AI_AZURE_API_VERSION',
+};
+
+/**
+ * Environment variable with the API key, used before the provider's own variable (e.g. `OPENAI_API_KEY`)
+ */
+export const API_KEY_ENV = 'COMMIT_WITH_AI_API_KEY';
+
+/**
+ * Locale of the terminal, used for the `auto` message language
+ * @param env Environment variables
+ * @returns Locale code such as `ko-kr`, or `en` for the C/POSIX locale
+ */
+export function localeFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  const locale = (env.LC_ALL || env.LC_MESSAGES || env.LANG || '').split('.')[0];
+  return !locale || locale === 'C' || locale === 'POSIX' ? 'en' : locale.replace('_', '-').toLowerCase();
+}
+
+// 저장소에 커밋되는 파일이므로 API 키 설정은 읽지 않음
+const API_KEY_SETTINGS = new Set(Object.values(API_KEY_SOURCES).map(source => source.setting));
+
+/**
+ * Settings of the CLI. The keys are the same as the extension's settings without the `commitWithAi.` prefix
+ * (`provider`, `model`, `tokenBudget`, `redactSecrets`, ...) and are read, in order of priority, from
+ * command-line options, environment variables (`ENV_SETTINGS`) and the repository's `.commitwithai.json`.
+ * @param fileConfig Contents of `.commitwithai.json`
+ * @param env Environment variables
+ * @param options Values given on the command line
+ */
+export function createCliSettings(
+  fileConfig: Record<string, any>,
+  env: NodeJS.ProcessEnv = process.env,
+  options: Record<string, string | undefined> = {}
+): SettingsSource {
+  return {
+    get<T>(key: string): T | undefined {
+      if (API_KEY_SETTINGS.has(key)) {
+        return undefined;
+      }
+      const value = options[key] ?? (ENV_SETTINGS[key] ? env[ENV_SETTINGS[key]] : undefined) ?? fileConfig[key];
+      return value === '' || value === null ? undefined : value;
+    }
+  };
+}
@@ -0,0 +1,151 @@
+import { cleanModelOutput } from './commitLint';
+import { languageName } from './conventions';
+
+/**
+ * Kind of a review finding
+ * - bug: likely incorrect behavior
+ * - debug: leftover debug code such as console output, commented-out code or `debugger`
+ * - test: changed behavior without matching tests
+ * - risk: risky pattern such as unchecked input, swallowed errors or hard-coded credentials
+ */
+export type ReviewCategory = 'bug' | 'debug' | 'test' | 'risk';
+
+export const REVIEW_CATEGORIES: readonly ReviewCategory[] = ['bug', 'debug', 'test', 'risk'];
+
+export type ReviewSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * One issue the model found in the changes
+ */
+export interface ReviewFinding {
+  /** Path as given to the model (display path) */
+  file: string;
+  /** 1-based line in the new version of the file, if the finding points at one */
+  line?: number;
+  category: ReviewCategory;
+  severity: ReviewSeverity;
+  message: string;
+}
+
+export interface ReviewResult {
+  /** Overall assessment in a few sentences */
+  summary: string;
+  findings: ReviewFinding[];
+}
+
+/**
+ * Values used to build the review prompt
+ */
+export interface ReviewPromptVariables {
+  /** File diffs numbered with `numberDiffLines` */
+  diff: string;
+  /** Paths of the reviewed files */
+  files: string[];
+  /** Code from `MESSAGE_LANGUAGES`, or a language name */
+  language: string;
+}
+
+// 종류별 기본 심각도 (모델이 심각도를 빠뜨리거나 잘못 썼을 때)
+const DEFAULT_SEVERITY: Record<ReviewCategory, ReviewSeverity> = {
+  bug: 'error',
+  debug: 'warning',
+  test: 'info',
+  risk: 'warning',
+};
+
+/**
+ * Number the added and context lines of a diff with their line number in the new file, so that the model can
+ * point at lines. The number goes after the `+` or space marker (`+12| code`), so the result can still be
+ * trimmed and truncated like a diff. Headers and removed lines are left as they are.
+ * @param diff Unified diff of one or more files
+ */
+export function numberDiffLines(diff: string): string {
+  let line = 0;
+  let inHunk = false;
+  return diff.split('\n').map(text => {
+    const hunk = text.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      line = Number(hunk[1]);
+      inHunk = true;
+      return text;
+    }
+    if (text.startsWith('diff --git ')) {
+      inHunk = false;
+    }
+    // 빈 줄은 파일 사이의 구분이므로 번호를 붙이지 않음
+    if (!inHunk || !text || text.startsWith('-') || text.startsWith('\\')) {
+      return text;
+    }
+    return `${text[0]}${line++}| ${text.slice(1)}`;
+  }).join('\n');
+}
+
+/**
+ * Build the prompt asking the model to review the changes.
+ * The model answers with JSON: `{"summary": "...", "findings": [{"file", "line", "category", "severity", "message"}]}`.
+ * @param variables Numbered diff, files and language
+ */
+export function buildReviewPrompt(variables: ReviewPromptVariables): string {
+  return `
+You review code changes before they are committed. Look only at the changed lines and what they affect, and report:
+- bug: code that is likely wrong, such as off-by-one errors, null handling, wrong conditions or missing awaits
+- debug: leftover debug code, such as console output, debugger statements, commented-out code or temporary TODOs
+- test: changed or new behavior that has no matching test change
+- risk: risky patterns, such as unchecked input, swallowed errors, hard-coded credentials or unsafe concurrency
+Report only real, specific problems; an empty list is a good answer for clean changes. Do not comment on style or formatting.
+
+Lines in the new version of a file carry their line number after the diff marker ("+12| " or " 12| "). Use that number as "line",
+and leave "line" out when a finding is not about one line. "severity" is "error", "warning" or "info".
+Write the summary and messages in ${languageName(variables.language)}.
+
+Reviewed files:
+${variables.files.map(file => `- ${file}`).join('\n')}
+
+Here is the diff:
+\`\`\`
+${variables.diff}
+\`\`\`
+
+Answer only with JSON in this format, without any other text:
+{"summary": "<overall assessment in one to three sentences>", "findings": [{"file": "<path>", "line": <number>, "category": "bug|debug|test|risk", "severity": "error|warning|info", "message": "<what is wrong and how to fix it>"}]}
+`;
+}
+
+/**
+ * Parse the model's review. Findings on unknown files or without a message are dropped, an unknown category
+ * becomes `risk`, and a missing or unknown severity follows the category.
+ * @param raw Raw model output
+ * @param files Paths of the reviewed files
+ * @throws Error if the output contains no valid review
+ */
+export function parseReview(raw: string, files: string[]): ReviewResult {
+  const text = cleanModelOutput(raw);
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new Error('The model did not return a valid review.');
+  }
+  if (typeof parsed !== 'object' || parsed === null || (parsed.findings !== undefined && !Array.isArray(parsed.findings))) {
+    throw new Error('The model did not return a valid review.');
+  }
+
+  const known = new Set(files);
+  const findings: ReviewFinding[] = [];
+  for (const finding of parsed.findings ?? []) {
+    const file = typeof finding?.file === 'string' ? finding.file.replace(/^\.?\//, '') : '';
+    const message = typeof finding?.message === 'string' ? finding.message.trim() : '';
+    if (!known.has(file) || !message) {
+      continue;
+    }
+    const category: ReviewCategory = REVIEW_CATEGORIES.includes(finding.category) ? finding.category : 'risk';
+    const severity: ReviewSeverity = ['error', 'warning', 'info'].includes(finding.severity) ? finding.severity : DEFAULT_SEVERITY[category];
+    const line = Number.isInteger(finding.line) && finding.line > 0 ? finding.line : undefined;
+    findings.push({ file, line, category, severity, message });
+  }
+
+  return { summary: typeof parsed.summary === 'string' ? parsed.summary.trim() : '', findings };
+}
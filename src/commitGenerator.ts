@@ -0,0 +1,466 @@
+import { buildReleaseNotesPrompt, parseReleaseNotes, ReleaseInfo, ReleaseNotesPromptVariables } from './changelog';
+import { buildReviewPrompt, numberDiffLines, parseReview, ReviewResult } from './codeReview';
+import { buildPlanPrompt, CommitGroup, parsePlan } from './commitPlan';
+import { buildRepairPrompt, fixCommitMessage, LintViolation } from './commitLint';
+import { applyEmoji, buildPrompt, CommitConventions, fallbackMessage } from './conventions';
+import { DiffBudgetOptions, estimateTokens, FileDiff, formatFileDiffs, planDiff, PreparedFile } from './diffBudget';
+import { selectHunks } from './diffHunks';
+import { GitDiffCollector } from './gitDiff';
+import { API_KEY_SOURCES, ChatMessage, LlmProvider, LlmProviderId, LlmSettings } from './llm';
+import { buildPullRequestPrompt, parsePullRequest, PullRequest, PullRequestPromptVariables } from './pullRequest';
+import { DEFAULT_EXCLUDED_FILES, readIgnoreFile, RedactionOptions, ScrubbedFileDiff, scrubFileDiff, SecretDetector } from './redaction';
+import { ContextSettings, DEFAULT_TICKET_PATTERN, RepositoryContext } from './repoContext';
+
+/**
+ * Where generation settings are read from: the `commitWithAi` configuration section in VS Code,
+ * or the repository config file and environment variables in the CLI. Keys are the setting names
+ * without the `commitWithAi.` prefix.
+ */
+export interface SettingsSource {
+  get<T>(key: string): T | undefined;
+}
+
+export interface PreparedDiff {
+  /** Diff section of the prompt */
+  content: string;
+  /** How each file was reduced to fit the token budget */
+  files: PreparedFile[];
+}
+
+/**
+ * Repository information used to fill the prompt template
+ */
+export interface PromptContext extends RepositoryContext {
+  /** Root of the repository whose `.commitwithai.json` applies */
+  repoRoot?: string;
+  /** Display paths of the changed files */
+  files?: string[];
+  /** Current message of a commit being reworded */
+  previousMessage?: string;
+}
+
+export interface GeneratedCommit {
+  message: string;
+  /** Lint violations that could not be fixed automatically */
+  warnings: LintViolation[];
+  /** True when the model failed and the default message was returned */
+  fallback: boolean;
+  /** Estimated tokens of the prompt (0 if no request was sent) */
+  promptTokens: number;
+}
+
+/**
+ * Commit of a plan with the lint warnings of its message
+ */
+export interface PlannedCommit extends CommitGroup {
+  warnings: LintViolation[];
+}
+
+/**
+ * Prompt variation used to produce different candidate messages
+ */
+export interface CandidateVariant {
+  label: string;
+  temperature: number;
+  /** Extra instruction appended to the prompt */
+  instruction?: string;
+  maxTokens?: number;
+}
+
+/**
+ * Variants used for candidates, in order. The first one is the plain prompt.
+ * Labels are English and translated where they are shown.
+ */
+export const CANDIDATE_VARIANTS: CandidateVariant[] = [
+  { label: 'Default', temperature: 0.5 },
+  { label: 'Concise', temperature: 0.3, instruction: 'Write only the subject line, without a body.' },
+  {
+    label: 'Detailed',
+    temperature: 0.7,
+    instruction: 'Include a body that explains what changed and why, as short bullet points.',
+    maxTokens: 400,
+  },
+  { label: 'Alternative', temperature: 0.9, instruction: 'Use a different wording or scope than the most obvious one.' },
+  { label: 'Alternative 2', temperature: 1.0, instruction: 'Use a different wording or scope than the most obvious one.' },
+];
+
+export interface GenerateOptions {
+  /** Repository information for the prompt */
+  context?: PromptContext;
+  /** Prompt variation (temperature, extra instruction) */
+  variant?: CandidateVariant;
+  /** Aborts the in-flight model request */
+  signal?: AbortSignal;
+  /** Receives text deltas while the reply is streamed */
+  onToken?: (token: string) => void;
+  /** Ask the model once more when lint violations remain */
+  reprompt?: boolean;
+}
+
+export interface CollectOptions {
+  /** Path used in the prompt. Defaults to the repository-relative path. */
+  displayPath?: (relativePath: string) => string;
+  /** Receives the error of a file whose diff could not be read. The file is left out. */
+  onError?: (relativePath: string, error: unknown) => void;
+  /** Ids of the hunks to leave out of a file. A file with every hunk left out is skipped. */
+  excludedHunks?: (relativePath: string) => ReadonlySet<string> | undefined;
+}
+
+/**
+ * Read LLM provider settings
+ * @param settings Settings source
+ * @param storedApiKey API key from secret storage. The legacy setting and the environment variable are fallbacks.
+ * @returns Resolved provider settings
+ */
+export function readLlmSettings(settings: SettingsSource, storedApiKey?: string): LlmSettings {
+  const provider = settings.get<LlmProviderId>('provider') || 'openai';
+  const keySource = API_KEY_SOURCES[provider] ?? API_KEY_SOURCES.openai;
+  const apiKey = storedApiKey
+    || (keySource.setting && settings.get<string>(keySource.setting))
+    || (keySource.env && process.env[keySource.env])
+    || undefined;
+
+  return {
+    provider,
+    apiKey,
+    baseUrl: settings.get<string>('baseUrl') || undefined,
+    model: settings.get<string>('model') || undefined,
+    deployment: settings.get<string>('azureDeployment') || undefined,
+    apiVersion: settings.get<string>('azureApiVersion') || undefined,
+  };
+}
+
+/**
+ * Read the diff token budget settings (`tokenBudget`, `trimmedContextLines`, `collapsePatterns`, `mapReduce`)
+ */
+export function readDiffBudgetSettings(settings: SettingsSource): DiffBudgetOptions {
+  return {
+    tokenBudget: settings.get<number>('tokenBudget') ?? 6000,
+    contextLines: settings.get<number>('trimmedContextLines') ?? 1,
+    collapsePatterns: settings.get<string[]>('collapsePatterns') ?? [],
+    mapReduce: settings.get<boolean>('mapReduce') ?? true,
+  };
+}
+
+/**
+ * Read the secret redaction settings (`redactSecrets`, `redactionPatterns`, `excludedFiles`)
+ */
+export function readRedactionSettings(settings: SettingsSource): RedactionOptions {
+  return {
+    builtIn: settings.get<boolean>('redactSecrets') ?? true,
+    patterns: settings.get<string[]>('redactionPatterns') ?? [],
+    excludedFiles: settings.get<string[]>('excludedFiles') ?? [],
+  };
+}
+
+/**
+ * Read the repository context settings (`includeBranch`, `ticketPattern`, `recentCommitCount`, `includeScopes`)
+ */
+export function readContextSettings(settings: SettingsSource): ContextSettings {
+  return {
+    branch: settings.get<boolean>('includeBranch') ?? true,
+    ticketPattern: settings.get<string>('ticketPattern') || DEFAULT_TICKET_PATTERN,
+    recentCommits: settings.get<number>('recentCommitCount') ?? 10,
+    scopes: settings.get<boolean>('includeScopes') ?? true,
+  };
+}
+
+/**
+ * Files whose content is never sent to the model: the built-in patterns (when redaction is on),
+ * the configured patterns and the repository's `.commitwithaiignore`
+ * @param repoRoot Repository root path
+ * @param redaction Redaction settings
+ */
+export function resolveExcludedFiles(repoRoot: string, redaction: RedactionOptions): string[] {
+  const excludedFiles = [...(redaction.builtIn ? DEFAULT_EXCLUDED_FILES : []), ...redaction.excludedFiles];
+  try {
+    return [...excludedFiles, ...readIgnoreFile(repoRoot)];
+  } catch (error) {
+    console.error('Error reading .commitwithaiignore:', error);
+    return excludedFiles;
+  }
+}
+
+/**
+ * Get the scrubbed diffs of files in one repository, one entry per file that has changes.
+ * The old path of a rename is skipped when its new path is also given, since the rename is part of the new path's diff.
+ * @param collector Diff collector of the repository
+ * @param relativePaths Files relative to the repository root, using `/` separators
+ * @param detectors Secret detectors from `compileDetectors`
+ * @param excludedFiles Patterns of files whose content is dropped
+ * @param options Display paths and error reporting
+ */
+export async function collectFileDiffs(
+  collector: GitDiffCollector,
+  relativePaths: string[],
+  detectors: SecretDetector[],
+  excludedFiles: string[],
+  options: CollectOptions = {}
+): Promise<ScrubbedFileDiff[]> {
+  const selected = new Set(relativePaths);
+
+  // 병렬로 모든 파일의 diff를 가져옴
+  const results = await Promise.all(relativePaths.map(async relativePath => {
+    try {
+      // 이름이 바뀐 파일의 이전 경로는 새 경로의 diff에 포함되므로 건너뜀
+      const renamedTo = await collector.getRenamedTo(relativePath);
+      if (renamedTo && selected.has(renamedTo)) {
+        return null;
+      }
+
+      const excludedHunks = options.excludedHunks?.(relativePath);
+      const fullDiff = await collector.getDiff(relativePath);
+      const diff = excludedHunks ? selectHunks(fullDiff, excludedHunks) : fullDiff;
+      if (!diff) {
+        return null;
+      }
+      const displayPath = options.displayPath?.(relativePath) ?? relativePath;
+      return scrubFileDiff({ path: displayPath, diff }, relativePath, detectors, excludedFiles);
+    } catch (error) {
+      options.onError?.(relativePath, error);
+      return null;
+    }
+  }));
+
+  return results.filter((result): result is ScrubbedFileDiff => result !== null);
+}
+
+/**
+ * Fit file diffs into the token budget before they are put in the prompt.
+ * Lock, generated and binary files are collapsed, context lines are trimmed and, for very large
+ * changesets, chunks of files are summarized by the model first (map-reduce).
+ * @param files File diffs
+ * @param budget Token budget settings
+ * @param getLlm Returns the model; only called when chunks have to be summarized
+ * @param signal Aborts the summarization requests
+ * @returns Diff content for the prompt and how each file was treated
+ */
+export async function prepareDiff(
+  files: FileDiff[],
+  budget: DiffBudgetOptions,
+  getLlm: () => Promise<LlmProvider>,
+  signal?: AbortSignal
+): Promise<PreparedDiff> {
+  const plan = planDiff(files, budget);
+
+  if (!plan.chunks) {
+    return { content: formatFileDiffs(plan.files), files: plan.files };
+  }
+
+  const llm = await getLlm();
+
+  // 청크별로 요약한 뒤 요약본으로 최종 메시지를 생성 (맵 단계)
+  const summaries: string[] = [];
+  for (const chunk of plan.chunks) {
+    const summary = await llm.complete(
+      [
+        { role: 'system', content: 'You summarize git diffs for another assistant that will write the commit message.' },
+        {
+          role: 'user',
+          content: `Summarize what changed in each file of the following git diff as short bullet points.\n`
+            + `Mention the file path in each bullet. Do not write a commit message.\n\n`
+            + `\`\`\`\n${formatFileDiffs(chunk)}\n\`\`\``
+        }
+      ],
+      { maxTokens: 400, temperature: 0.2, signal }
+    );
+    summaries.push(summary.trim());
+  }
+
+  const collapsed = plan.files.filter(file => file.treatment === 'collapsed');
+  const content = 'The full diff is too large, so it was summarized per group of files:\n\n'
+    + summaries.join('\n\n')
+    + formatFileDiffs(collapsed);
+
+  return { content, files: plan.files };
+}
+
+/**
+ * Generate a commit message: build the prompt, call the model, then clean, auto-fix and decorate the reply
+ * @param llm Model to call
+ * @param conventions Resolved conventions of the repository
+ * @param diffContent Diff content to analyze
+ * @param options Context, variant, streaming, cancellation and re-prompt options
+ * @returns Generated message with the lint warnings that remain. Falls back to the default message when the
+ *   model returns nothing usable.
+ * @throws Error if the model request fails or is aborted
+ */
+export async function generateCommitMessage(
+  llm: LlmProvider,
+  conventions: CommitConventions,
+  diffContent: string,
+  options: GenerateOptions = {}
+): Promise<GeneratedCommit> {
+  const variant = options.variant;
+
+  // 커밋 메시지 생성을 위한 프롬프트
+  const prompt = buildPrompt(conventions, {
+    diff: diffContent,
+    branch: options.context?.branch,
+    files: options.context?.files,
+    tickets: options.context?.tickets,
+    recentCommits: options.context?.recentCommits,
+    scopes: options.context?.scopes,
+    previousMessage: options.context?.previousMessage,
+  });
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: 'You are a helpful assistant that generates git commit messages.' },
+    { role: 'user', content: variant?.instruction ? `${prompt}\n${variant.instruction}\n` : prompt }
+  ];
+  const promptTokens = estimateTokens(messages.map(chatMessage => chatMessage.content).join('\n'));
+  const response = await llm.complete(
+    messages,
+    {
+      maxTokens: variant?.maxTokens ?? 200,
+      temperature: variant?.temperature ?? 0.5,
+      signal: options.signal,
+      onToken: options.onToken,
+    }
+  );
+
+  // 응답에서 커밋 메시지 추출 (코드 블록/머리말 제거 후 안전한 규칙 위반 자동 수정)
+  let { message, violations } = fixCommitMessage(response, conventions);
+  if (!message) {
+    return { message: fallbackMessage(conventions), warnings: [], fallback: true, promptTokens };
+  }
+
+  // 남은 위반 사항을 알려주고 한 번 더 작성 요청
+  if (violations.length > 0 && options.reprompt) {
+    const repaired = await llm.complete(
+      [
+        ...messages,
+        { role: 'assistant', content: message },
+        { role: 'user', content: buildRepairPrompt(violations) }
+      ],
+      { maxTokens: 200, temperature: 0.2, signal: options.signal }
+    );
+    const result = fixCommitMessage(repaired, conventions);
+    if (result.message && result.violations.length < violations.length) {
+      ({ message, violations } = result);
+    }
+  }
+
+  // 이모지 설정에 맞게 이모지 추가/변환/제거
+  return { message: applyEmoji(message, conventions), warnings: violations, fallback: false, promptTokens };
+}
+
+/**
+ * Ask the model to split the changes into atomic commits, each with its own message
+ * @param llm Model to call
+ * @param conventions Resolved conventions of the repository
+ * @param diffContent Diff content to analyze
+ * @param files Display paths of the changed files, as used in the diff
+ * @param signal Aborts the model request
+ * @returns Commit groups in order. Messages are cleaned and auto-fixed; files the model left out form a final
+ *   group with an empty message.
+ * @throws Error if the model fails or does not return a valid plan
+ */
+export async function planCommits(
+  llm: LlmProvider,
+  conventions: CommitConventions,
+  diffContent: string,
+  files: string[],
+  signal?: AbortSignal
+): Promise<PlannedCommit[]> {
+  const response = await llm.complete(
+    [
+      { role: 'system', content: 'You are a helpful assistant that plans atomic git commits and answers in JSON.' },
+      { role: 'user', content: buildPlanPrompt(conventions, { diff: diffContent, files }) }
+    ],
+    { maxTokens: 1200, temperature: 0.3, signal }
+  );
+
+  return parsePlan(response, files).map(group => {
+    if (!group.message) {
+      return { ...group, warnings: [] };
+    }
+    const { message, violations } = fixCommitMessage(group.message, conventions);
+    return { ...group, message: applyEmoji(message, conventions), warnings: violations };
+  });
+}
+
+/**
+ * Ask the model to review the changes for likely bugs, leftover debug code, missing tests and risky patterns.
+ * Lines are numbered before the diffs are fitted into the token budget, so trimmed and truncated diffs keep
+ * their real line numbers. Large changesets are truncated instead of summarized, because summaries have no lines.
+ * @param llm Model to call
+ * @param files Diff of each changed file, keyed by display path
+ * @param budget Token budget options (`mapReduce` is ignored)
+ * @param language Language of the summary and findings
+ * @param signal Aborts the model request
+ * @returns Summary and findings on the given files
+ * @throws Error if the model fails or does not return a valid review
+ */
+export async function reviewChanges(
+  llm: LlmProvider,
+  files: FileDiff[],
+  budget: DiffBudgetOptions,
+  language: string,
+  signal?: AbortSignal
+): Promise<ReviewResult> {
+  const numbered = files.map(file => ({ path: file.path, diff: numberDiffLines(file.diff) }));
+  const plan = planDiff(numbered, { ...budget, mapReduce: false });
+  const paths = files.map(file => file.path);
+  const response = await llm.complete(
+    [
+      { role: 'system', content: 'You are a careful code reviewer that answers with JSON only.' },
+      { role: 'user', content: buildReviewPrompt({ diff: formatFileDiffs(plan.files), files: paths, language }) }
+    ],
+    { maxTokens: 1500, temperature: 0.2, signal }
+  );
+
+  return parseReview(response, paths);
+}
+
+/**
+ * Ask the model for the title and description of a pull request
+ * @param llm Model to call
+ * @param template Prompt template with `{placeholders}` (`DEFAULT_PULL_REQUEST_TEMPLATE` or the user's)
+ * @param variables Diff, commits and files of the branch
+ * @param signal Aborts the model request
+ * @returns Title and markdown description
+ * @throws Error if the model fails or returns no title
+ */
+export async function generatePullRequest(
+  llm: LlmProvider,
+  template: string,
+  variables: PullRequestPromptVariables,
+  signal?: AbortSignal
+): Promise<PullRequest> {
+  const response = await llm.complete(
+    [
+      { role: 'system', content: 'You are a helpful assistant that writes pull request titles and descriptions in markdown.' },
+      { role: 'user', content: buildPullRequestPrompt(template, variables) }
+    ],
+    { maxTokens: 1000, temperature: 0.4, signal }
+  );
+
+  return parsePullRequest(response);
+}
+
+/**
+ * Ask the model for release notes from commits grouped by changelog section
+ * @param llm Model to call
+ * @param release Version and date of the release heading
+ * @param variables Grouped commits and language
+ * @param signal Aborts the model request
+ * @returns Release section with its heading
+ * @throws Error if the model fails or returns nothing
+ */
+export async function generateReleaseNotes(
+  llm: LlmProvider,
+  release: ReleaseInfo,
+  variables: Omit<ReleaseNotesPromptVariables, 'version'>,
+  signal?: AbortSignal
+): Promise<string> {
+  const response = await llm.complete(
+    [
+      { role: 'system', content: 'You are a helpful assistant that writes release notes in the Keep a Changelog format.' },
+      { role: 'user', content: buildReleaseNotesPrompt({ ...variables, version: release.version }) }
+    ],
+    { maxTokens: 1500, temperature: 0.3, signal }
+  );
+
+  return parseReleaseNotes(release, response);
+}
@@ -0,0 +1,195 @@
+import { CommitConventions, stripLeadingEmoji } from './conventions';
+
+/**
+ * A rule violation found in a commit message, modeled on commitlint rule names
+ */
+export interface LintViolation {
+  rule: 'type-enum' | 'header-max-length' | 'subject-empty' | 'subject-full-stop' | 'body-leading-blank' | 'body-max-line-length';
+  message: string;
+}
+
+export interface LintResult {
+  message: string;
+  /** Violations that could not be fixed automatically */
+  violations: LintViolation[];
+}
+
+// 모델이 자주 만드는 타입 오타/별칭
+const TYPE_ALIASES: Record<string, string> = {
+  feature: 'feat',
+  features: 'feat',
+  bugfix: 'fix',
+  hotfix: 'fix',
+  doc: 'docs',
+  documentation: 'docs',
+  tests: 'test',
+  refactoring: 'refactor',
+  performance: 'perf',
+};
+
+// "Here is your commit message:" 류의 머리말
+const PREAMBLE = /^(?:sure[,!.]?\s*)?(?:here(?:'s| is)(?: (?:a|the|your))?(?: suggested| proposed)? commit message|commit message|suggested commit message)\s*[:：]?\s*$/i;
+
+const HEADER = /^(\w+)(\([^)]*\))?(!)?:\s*(.*)$/;
+
+/**
+ * Remove wrapping the model adds around the message: code fences, preambles and quotes
+ * @param raw Raw model output
+ */
+export function cleanModelOutput(raw: string): string {
+  let text = raw.replace(/\r\n/g, '\n').trim();
+
+  // 코드 블록이 있으면 블록 안의 내용만 사용
+  const fenced = text.match(/```[\w-]*\n([\s\S]*?)\n?```/);
+  if (fenced) {
+    text = fenced[1].trim();
+  }
+
+  const lines = text.split('\n');
+  while (lines.length > 1 && (PREAMBLE.test(lines[0].trim()) || lines[0].trim() === '')) {
+    lines.shift();
+  }
+  text = lines.join('\n').trim();
+
+  // 메시지 전체를 감싼 따옴표나 백틱 제거
+  const quoted = text.match(/^(["'`])([\s\S]*)\1$/);
+  if (quoted && !quoted[2].includes(quoted[1])) {
+    text = quoted[2].trim();
+  }
+
+  return text;
+}
+
+/**
+ * Check a commit message against the conventions
+ * @param message Commit message (a leading emoji is ignored)
+ * @param conventions Resolved conventions
+ */
+export function lintCommitMessage(message: string, conventions: CommitConventions): LintViolation[] {
+  const bodyMaxLineLength = conventions.bodyMaxLineLength;
+  const violations: LintViolation[] = [];
+  const lines = message.split('\n');
+  const header = stripLeadingEmoji(lines[0] ?? '');
+
+  if (header.length > conventions.subjectMaxLength) {
+    violations.push({
+      rule: 'header-max-length',
+      message: `Subject is ${header.length} characters (max ${conventions.subjectMaxLength})`,
+    });
+  }
+
+  let subject = header;
+  if (conventions.style === 'conventional') {
+    const match = header.match(HEADER);
+    if (!match) {
+      violations.push({ rule: 'type-enum', message: 'Subject does not start with "<type>[scope]: "' });
+    } else {
+      subject = match[4];
+      if (!Object.hasOwn(conventions.types, match[1])) {
+        violations.push({
+          rule: 'type-enum',
+          message: `Type "${match[1]}" is not one of ${Object.keys(conventions.types).join(', ')}`,
+        });
+      }
+    }
+  }
+
+  if (!subject.trim()) {
+    violations.push({ rule: 'subject-empty', message: 'Subject is empty' });
+  } else if (/[.。]$/.test(subject.trim())) {
+    violations.push({ rule: 'subject-full-stop', message: 'Subject ends with a period' });
+  }
+
+  if (lines.length > 1 && lines[1].trim() !== '') {
+    violations.push({ rule: 'body-leading-blank', message: 'Body must be separated from the subject by a blank line' });
+  }
+
+  const longLine = lines.slice(2).find(line => line.length > bodyMaxLineLength && !isUnwrappable(line));
+  if (longLine) {
+    violations.push({
+      rule: 'body-max-line-length',
+      message: `Body has lines longer than ${bodyMaxLineLength} characters`,
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Clean the model output and fix what can be fixed safely:
+ * type case and aliases, trailing period, missing blank line before the body and body wrapping.
+ * Over-long subjects and unknown types are left for the caller (re-prompt or warning).
+ * @param raw Raw model output
+ * @param conventions Resolved conventions
+ * @returns Fixed message and the remaining violations
+ */
+export function fixCommitMessage(raw: string, conventions: CommitConventions): LintResult {
+  const lines = cleanModelOutput(raw).split('\n');
+  let header = lines[0] ?? '';
+
+  if (conventions.style === 'conventional') {
+    const emoji = header.slice(0, header.length - stripLeadingEmoji(header).length);
+    const match = stripLeadingEmoji(header).match(HEADER);
+    if (match) {
+      const lowered = match[1].toLowerCase();
+      // constructor 같은 프로토타입 키는 타입이나 별칭으로 보지 않음
+      const type = Object.hasOwn(conventions.types, lowered) ? lowered : (Object.hasOwn(TYPE_ALIASES, lowered) ? TYPE_ALIASES[lowered] : match[1]);
+      const fixedType = Object.hasOwn(conventions.types, type) ? type : match[1];
+      header = `${emoji}${fixedType}${match[2] ?? ''}${match[3] ?? ''}: ${match[4]}`;
+    }
+  }
+  header = header.replace(/\s*[.。]+$/, '').trimEnd();
+
+  let body = lines.slice(1);
+  while (body.length > 0 && body[0].trim() === '') {
+    body.shift();
+  }
+  while (body.length > 0 && body[body.length - 1].trim() === '') {
+    body.pop();
+  }
+  body = body.flatMap(line => wrapLine(line, conventions.bodyMaxLineLength));
+
+  const message = body.length > 0 ? `${header}\n\n${body.join('\n')}` : header;
+  return { message, violations: lintCommitMessage(message, conventions) };
+}
+
+/**
+ * Follow-up prompt asking the model to fix the remaining violations
+ * @param violations Remaining violations
+ */
+export function buildRepairPrompt(violations: LintViolation[]): string {
+  return 'The commit message violates these rules:\n'
+    + violations.map(violation => `- ${violation.rule}: ${violation.message}`).join('\n')
+    + '\n\nRewrite the commit message so that it follows all rules. Output only the commit message.';
+}
+
+// URL이나 코드처럼 공백이 없는 긴 줄은 줄바꿈할 수 없으므로 허용
+function isUnwrappable(line: string): boolean {
+  return !line.trim().includes(' ');
+}
+
+// 단어 단위로 줄바꿈하고, 목록 항목의 이어지는 줄은 들여씀
+function wrapLine(line: string, width: number): string[] {
+  if (line.length <= width || isUnwrappable(line)) {
+    return [line];
+  }
+
+  const bullet = line.match(/^(\s*(?:[-*]|\d+\.)\s+)/);
+  const indent = bullet ? ' '.repeat(bullet[1].length) : (line.match(/^\s*/)?.[0] ?? '');
+  const words = line.trim().split(/\s+/);
+  const result: string[] = [];
+  let current = line.match(/^\s*/)?.[0] ?? '';
+
+  for (const word of words) {
+    const candidate = current.trim() ? `${current} ${word}` : `${current}${word}`;
+    if (candidate.length > width && current.trim()) {
+      result.push(current);
+      current = `${indent}${word}`;
+    } else {
+      current = candidate;
+    }
+  }
+  result.push(current);
+
+  return result;
+}
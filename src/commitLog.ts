@@ -0,0 +1,67 @@
+import { runGit } from './gitDiff';
+
+/**
+ * Commit read from `git log`
+ */
+export interface LogCommit {
+  hash: string;
+  subject: string;
+  /** Message without the subject line */
+  body: string;
+}
+
+// 커밋 목록 구분자 (필드는 NUL, 커밋은 RS)
+const LOG_FORMAT = '%H%x00%s%x00%b%x1e';
+
+/**
+ * Read the commits of a revision range
+ * @param gitPath Path of the git executable
+ * @param repoRoot Repository root path
+ * @param range Revision range, e.g. `v1.0.0..HEAD`, or a single revision for its whole history
+ * @param options Leave out merge commits, or read only the newest `maxCount` commits
+ * @returns Commits, oldest first
+ * @throws Error if a revision does not exist
+ */
+export async function readCommits(
+  gitPath: string,
+  repoRoot: string,
+  range: string,
+  options: { noMerges?: boolean, maxCount?: number } = {}
+): Promise<LogCommit[]> {
+  const output = await runGit(gitPath, repoRoot, [
+    'log',
+    '--reverse',
+    ...(options.noMerges ? ['--no-merges'] : []),
+    ...(options.maxCount ? [`--max-count=${options.maxCount}`] : []),
+    `--format=${LOG_FORMAT}`,
+    range,
+    '--'
+  ]);
+  return parseLog(output);
+}
+
+/**
+ * Parse `git log` output written with the format of `readCommits`
+ * @param output Raw output
+ */
+export function parseLog(output: string): LogCommit[] {
+  return output
+    .split('\x1e')
+    .map(record => record.replace(/^\n/, ''))
+    .filter(record => record)
+    .map(record => {
+      const [hash, subject, body] = record.split('\0');
+      return { hash, subject, body: (body ?? '').trim() };
+    });
+}
+
+/**
+ * List the tags of a repository
+ * @param gitPath Path of the git executable
+ * @param repoRoot Repository root path
+ * @returns Tag names, newest first
+ */
+export async function readTags(gitPath: string, repoRoot: string): Promise<string[]> {
+  const output = await runGit(gitPath, repoRoot, ['for-each-ref', '--sort=-creatordate', '--format=%(refname:short)', 'refs/tags']);
+  return output.split('\n').filter(tag => tag);
+}
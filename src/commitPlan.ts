@@ -0,0 +1,130 @@
+import { cleanModelOutput } from './commitLint';
+import { CommitConventions, languageName } from './conventions';
+
+/**
+ * One commit of a plan: its message and the files it contains
+ */
+export interface CommitGroup {
+  message: string;
+  /** Paths as given to the model (display paths) */
+  files: string[];
+}
+
+/**
+ * Values used to build the commit plan prompt
+ */
+export interface PlanPromptVariables {
+  diff: string;
+  /** Paths of all changed files; every one must be assigned to a commit */
+  files: string[];
+  /** Overrides the language of the conventions */
+  language?: string;
+}
+
+/**
+ * Build the prompt asking the model to split the changes into atomic commits.
+ * The model answers with JSON: `{"commits": [{"message": "...", "files": ["..."]}]}`.
+ * @param conventions Resolved conventions for the message format
+ * @param variables Diff and changed files
+ */
+export function buildPlanPrompt(conventions: CommitConventions, variables: PlanPromptVariables): string {
+  return `
+You split a set of code changes into small, atomic Git commits.
+Group the changed files into logical commits: unrelated work such as a bug fix, a dependency update and a documentation edit
+goes into separate commits, while files that only make sense together stay in one commit.
+Every file must belong to exactly one commit. Order the commits so that each one builds on the previous ones.
+
+${messageFormat(conventions)}
+Keep each subject line within ${conventions.subjectMaxLength} characters.
+Write the messages in ${languageName(variables.language || conventions.language)}${conventions.style === 'conventional' ? ', but keep the type keyword in English' : ''}.
+${conventions.rules.map(rule => `- ${rule}`).join('\n')}
+Changed files:
+${variables.files.map(file => `- ${file}`).join('\n')}
+
+Here is the diff:
+\`\`\`
+${variables.diff}
+\`\`\`
+
+Answer only with JSON in this format, without any other text:
+{"commits": [{"message": "<commit message>", "files": ["<path>", "..."]}]}
+`;
+}
+
+/**
+ * Parse the model's commit plan and make it consistent with the changed files.
+ * Unknown paths are dropped, a file listed twice stays in its first commit, and files the model left out
+ * are collected into a final commit with an empty message.
+ * @param raw Raw model output
+ * @param files Paths of all changed files
+ * @returns Non-empty commit groups in order
+ * @throws Error if the output contains no valid plan
+ */
+export function parsePlan(raw: string, files: string[]): CommitGroup[] {
+  const text = cleanModelOutput(raw);
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new Error('The model did not return a valid commit plan.');
+  }
+
+  const commits: any[] = Array.isArray(parsed) ? parsed : parsed?.commits;
+  if (!Array.isArray(commits)) {
+    throw new Error('The model did not return a valid commit plan.');
+  }
+
+  const known = new Set(files);
+  const assigned = new Set<string>();
+  const groups: CommitGroup[] = [];
+
+  for (const commit of commits) {
+    const groupFiles = (Array.isArray(commit?.files) ? commit.files : [])
+      .filter((file: unknown): file is string => typeof file === 'string' && known.has(file) && !assigned.has(file));
+    groupFiles.forEach((file: string) => assigned.add(file));
+    if (groupFiles.length > 0) {
+      groups.push({ message: typeof commit.message === 'string' ? commit.message.trim() : '', files: groupFiles });
+    }
+  }
+
+  const leftover = files.filter(file => !assigned.has(file));
+  if (leftover.length > 0) {
+    groups.push({ message: '', files: leftover });
+  }
+
+  return groups;
+}
+
+/**
+ * Move a file to another group. Groups left empty are removed.
+ * @param groups Current groups (not modified)
+ * @param file Path of the file to move
+ * @param target Index of the target group; `groups.length` creates a new group
+ * @returns New groups
+ */
+export function moveFileToGroup(groups: CommitGroup[], file: string, target: number): CommitGroup[] {
+  const result = groups.map(group => ({ ...group, files: group.files.filter(item => item !== file) }));
+  if (target >= result.length) {
+    result.push({ message: '', files: [file] });
+  } else {
+    result[target].files.push(file);
+  }
+  return result.filter(group => group.files.length > 0);
+}
+
+// 커밋 스타일에 맞는 메시지 형식 설명
+function messageFormat(conventions: CommitConventions): string {
+  switch (conventions.style) {
+    case 'gitmoji':
+      return 'Write each commit message in the gitmoji format: "<gitmoji> <description>", optionally followed by a blank line and a body.';
+    case 'plain':
+      return 'Write each commit message as an imperative subject line without a type prefix or emoji, optionally followed by a blank line and a body.';
+    default:
+      return 'Write each commit message in the Conventional Commits format: "<type>[optional scope]: <description>", '
+        + 'optionally followed by a blank line and a body. Do not add emojis. Use one of these types:\n'
+        + Object.entries(conventions.types).map(([type, description]) => `- ${type}: ${description}`).join('\n');
+  }
+}
@@ -0,0 +1,161 @@
+import { LogCommit, readCommits } from './commitLog';
+import { EMPTY_TREE, runGit } from './gitDiff';
+
+/**
+ * Commit that can be reworded
+ */
+export interface RewordableCommit extends LogCommit {
+  /** Whether a remote-tracking branch already contains the commit */
+  pushed: boolean;
+}
+
+/**
+ * Commits from a chosen commit up to HEAD, to be reworded together
+ */
+export interface RewordRange {
+  /** HEAD when the range was read. Rewriting fails if HEAD has moved since. */
+  head: string;
+  /** Commits, oldest first */
+  commits: RewordableCommit[];
+}
+
+/**
+ * What a commit changed, for generating its message
+ */
+export interface CommitChanges {
+  /** Parent of the commit, or the empty tree for a root commit */
+  base: string;
+  /** Changed files relative to the repository root, using `/` separators */
+  files: string[];
+}
+
+/**
+ * List the newest commits of HEAD with whether they are pushed
+ * @param gitPath Path of the git executable
+ * @param repoRoot Repository root path
+ * @param count Number of commits
+ * @returns Commits, newest first
+ */
+export async function listRecentCommits(gitPath: string, repoRoot: string, count: number): Promise<RewordableCommit[]> {
+  const [commits, unpushed] = await Promise.all([
+    readCommits(gitPath, repoRoot, 'HEAD', { maxCount: count }),
+    readUnpushed(gitPath, repoRoot),
+  ]);
+  return commits.reverse().map(commit => ({ ...commit, pushed: !unpushed.has(commit.hash) }));
+}
+
+/**
+ * Read the commits from `oldest` up to HEAD
+ * @param gitPath Path of the git executable
+ * @param repoRoot Repository root path
+ * @param oldest Oldest commit to reword
+ * @throws Error if `oldest` is not an ancestor of HEAD, or the range contains a merge commit
+ */
+export async function readRewordRange(gitPath: string, repoRoot: string, oldest: string): Promise<RewordRange> {
+  const head = (await runGit(gitPath, repoRoot, ['rev-parse', '--verify', 'HEAD'])).trim();
+  const oldestHash = (await runGit(gitPath, repoRoot, ['rev-parse', '--verify', `${oldest}^{commit}`])).trim();
+  const mergeBase = (await runGit(gitPath, repoRoot, ['merge-base', oldestHash, head], [0, 1])).trim();
+  if (mergeBase !== oldestHash) {
+    throw new Error(`${oldest} is not an ancestor of HEAD.`);
+  }
+
+  // 부모를 하나씩 이어 다시 쓰므로 병합 커밋은 다루지 않음
+  const parents = await parentsOf(gitPath, repoRoot, oldestHash);
+  const merges = await runGit(gitPath, repoRoot, ['rev-list', '--min-parents=2', head, '--not', ...parents]);
+  if (merges.trim()) {
+    throw new Error('Merge commits cannot be reworded.');
+  }
+
+  const [first, rest, unpushed] = await Promise.all([
+    readCommits(gitPath, repoRoot, `${oldestHash}^!`),
+    readCommits(gitPath, repoRoot, `${oldestHash}..${head}`),
+    readUnpushed(gitPath, repoRoot),
+  ]);
+  const commits = [...first, ...rest];
+  return { head, commits: commits.map(commit => ({ ...commit, pushed: !unpushed.has(commit.hash) })) };
+}
+
+/**
+ * Read what a commit changed compared to its first parent
+ * @param gitPath Path of the git executable
+ * @param repoRoot Repository root path
+ * @param hash Commit
+ */
+export async function readCommitChanges(gitPath: string, repoRoot: string, hash: string): Promise<CommitChanges> {
+  const base = (await parentsOf(gitPath, repoRoot, hash))[0] ?? EMPTY_TREE;
+  const names = await runGit(gitPath, repoRoot, ['diff', '--name-only', '-z', '-M', base, hash]);
+  return { base, files: names.split('\0').filter(name => name) };
+}
+
+/**
+ * Rewrite the messages of a range of commits. Trees, authors and committers are kept; commits after the first
+ * reworded one get new parents. Only HEAD's branch (or a detached HEAD) is moved, so the index and working tree
+ * are left alone, and the old commits stay reachable through the reflog.
+ * @param gitPath Path of the git executable
+ * @param repoRoot Repository root path
+ * @param range Range from `readRewordRange`
+ * @param messages New messages by commit hash. Commits without one keep their message.
+ * @returns New HEAD
+ * @throws Error if HEAD has moved since the range was read
+ */
+export async function rewordCommits(gitPath: string, repoRoot: string, range: RewordRange, messages: ReadonlyMap<string, string>): Promise<string> {
+  let parent: string | undefined;
+  let rewritten = false;
+  for (const commit of range.commits) {
+    const message = messages.get(commit.hash);
+    if (!rewritten && message === undefined) {
+      continue;
+    }
+    rewritten = true;
+    const raw = await runGit(gitPath, repoRoot, ['cat-file', 'commit', commit.hash]);
+    const object = replaceCommitObject(raw, parent, message);
+    parent = (await runGit(gitPath, repoRoot, ['hash-object', '-t', 'commit', '-w', '--stdin'], [0], object)).trim();
+  }
+  if (!parent) {
+    return range.head;
+  }
+
+  // HEAD가 그 사이에 바뀌었으면 update-ref가 실패함
+  await runGit(gitPath, repoRoot, ['update-ref', '-m', 'commit-with-ai: reword', 'HEAD', parent, range.head]);
+  return parent;
+}
+
+/**
+ * Replace the parent and message of a raw commit object (`git cat-file commit`). Signatures are dropped because
+ * they no longer match.
+ * @param raw Commit object
+ * @param parent New parent, or undefined to keep the parents
+ * @param message New message, or undefined to keep the message
+ */
+export function replaceCommitObject(raw: string, parent: string | undefined, message: string | undefined): string {
+  const separator = raw.indexOf('\n\n');
+  const headerText = separator === -1 ? raw : raw.slice(0, separator);
+  const oldMessage = separator === -1 ? '' : raw.slice(separator + 2);
+
+  // 여러 줄 헤더(서명)는 공백으로 시작하는 줄이 이어짐
+  const headers: string[] = [];
+  for (const line of headerText.split('\n')) {
+    if (line.startsWith(' ') && headers.length > 0) {
+      headers[headers.length - 1] += `\n${line}`;
+    } else {
+      headers.push(line);
+    }
+  }
+
+  const kept = headers.filter(header => !/^gpgsig(?:-sha256)? /.test(header));
+  const result = parent === undefined
+    ? kept
+    : kept.filter(header => !header.startsWith('parent ')).flatMap(header => header.startsWith('tree ') ? [header, `parent ${parent}`] : [header]);
+  return `${result.join('\n')}\n\n${message === undefined ? oldMessage : `${message.trim()}\n`}`;
+}
+
+// 원격 추적 브랜치에 없는 HEAD의 커밋
+async function readUnpushed(gitPath: string, repoRoot: string): Promise<Set<string>> {
+  const output = await runGit(gitPath, repoRoot, ['rev-list', 'HEAD', '--not', '--remotes']);
+  return new Set(output.split('\n').filter(hash => hash));
+}
+
+async function parentsOf(gitPath: string, repoRoot: string, hash: string): Promise<string[]> {
+  const output = await runGit(gitPath, repoRoot, ['rev-list', '--parents', '-n', '1', hash]);
+  return output.trim().split(' ').slice(1);
+}
@@ -1,31 +1,233 @@
+import { randomBytes } from 'crypto';
+import * as path from 'path';
 import * as vscode from 'vscode';
-import { AiCommitProvider } from './aiCommitProvider';
+import { AiCommitProvider, readCandidateCount, readDiffSource } from './aiCommitProvider';
+import { ReviewCategory, ReviewFinding, ReviewSeverity } from './codeReview';
+import { CANDIDATE_VARIANTS, GeneratedCommit, PlannedCommit, PromptContext } from './commitGenerator';
+import { LintViolation } from './commitLint';
+import { Redaction } from './redaction';
+import { DiffTreatment, PreparedFile } from './diffBudget';
+import { ParsedFileDiff, parseFileDiff, stageHunks } from './diffHunks';
+import { GitDiffCollector } from './gitDiff';
+import { editRatio, GenerationHistory, HistoryEntry, summarizeEdits } from './generationHistory';
+import { moveFileToGroup } from './commitPlan';
+import { RewordableCommit, RewordRange } from './commitRewrite';
+import { CommitActionOptions, commitAndPush, commitGroups, describeGitError, stageExactly } from './gitOperations';
+import {
+  ChangeKind,
+  DiffSource,
+  getChangeKind,
+  getChangesForSource,
+  getGitApi,
+  getRepositoryByRoot,
+  getRepositoryForPath,
+  getRepositoryName,
+  groupByRepository,
+  resolveRepository
+} from './gitRepositories';
+import { PullRequest } from './pullRequest';
+import { html, renderDiffLines, SafeHtml } from './webviewHtml';
+import { ExtensionMessage, parseWebviewMessage, VIEW_SECTIONS, ViewSection } from './webviewProtocol';
+
+// 파일 상태 배지에 표시할 글자와 설명
+const CHANGE_KIND_LABELS: Record<ChangeKind, { letter: string, title: string }> = {
+  added: { letter: 'A', title: vscode.l10n.t('Added') },
+  modified: { letter: 'M', title: vscode.l10n.t('Modified') },
+  deleted: { letter: 'D', title: vscode.l10n.t('Deleted') },
+  renamed: { letter: 'R', title: vscode.l10n.t('Renamed') },
+  copied: { letter: 'C', title: vscode.l10n.t('Copied') },
+  untracked: { letter: 'U', title: vscode.l10n.t('Untracked') },
+  typeChanged: { letter: 'T', title: vscode.l10n.t('Type changed') },
+  conflict: { letter: '!', title: vscode.l10n.t('Conflict') },
+};
+
+// 토큰 예산 처리 방식별 설명
+const TREATMENT_LABELS: Record<DiffTreatment, string> = {
+  full: vscode.l10n.t('Full'),
+  trimmed: vscode.l10n.t('Context trimmed'),
+  truncated: vscode.l10n.t('Truncated'),
+  collapsed: vscode.l10n.t('One-line summary'),
+  summarized: vscode.l10n.t('AI summary'),
+};
+
+// AI 검토 지적의 종류별 이름
+const REVIEW_CATEGORY_LABELS: Record<ReviewCategory, string> = {
+  bug: vscode.l10n.t('Possible bug'),
+  debug: vscode.l10n.t('Debug code'),
+  test: vscode.l10n.t('Missing tests'),
+  risk: vscode.l10n.t('Risky pattern'),
+};
+
+const REVIEW_SEVERITIES: Record<ReviewSeverity, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  info: vscode.DiagnosticSeverity.Information,
+};
+
+// 기록 영역에 저장소별로 표시할 최대 항목 수
+const MAX_HISTORY_ITEMS = 20;
+
+// 메시지를 다시 쓸 범위를 고를 때 표시할 최근 커밋 수
+const MAX_REWORD_PICK_ITEMS = 50;
+
+// 펼친 파일 하나에 표시할 최대 diff 줄 수 (헝크 선택은 줄이 생략되어도 모두 표시)
+const MAX_DIFF_VIEWER_LINES = 500;
+
+interface Candidate {
+  label: string;
+  message: string;
+  warnings: LintViolation[];
+}
+
+// 한 번의 생성(또는 재생성) 결과. 세션 동안 이전 결과로 돌아갈 수 있도록 모두 보관함
+interface CandidateRound {
+  candidates: Candidate[];
+  /** Index of the selected candidate */
+  selected: number;
+  /** Absolute paths of the files the messages were generated from */
+  filePaths: string[];
+  /** Repositories the message is applied to */
+  targetRepoRoots: string[];
+  diffContent: string;
+  /** Files reduced to fit the token budget */
+  preparedFiles: PreparedFile[];
+  /** Secrets masked before the diff was sent */
+  redactions: Redaction[];
+  /** Display paths of files whose content was not sent */
+  excludedFiles: string[];
+  /** Repository context added to the prompt */
+  context?: PromptContext;
+  /** History entries recorded for the generation, one per repository */
+  history?: { repoRoot: string, id: string }[];
+}
+
+// 커밋 분할 계획의 한 커밋 (파일은 절대 경로)
+interface PlanGroup extends PlannedCommit {
+  committed?: boolean;
+}
+
+interface CommitPlan {
+  /** Root of the repository the plan is committed to */
+  repoRoot: string;
+  groups: PlanGroup[];
+  /** Diff source the hunks were listed from */
+  source: DiffSource;
+  /** Hunks left out when the plan was made, keyed by absolute file path */
+  excludedHunks: Map<string, ReadonlySet<string>>;
+}
+
+// 생성한 PR 제목과 설명 (웹뷰에서 고친 내용도 반영)
+interface PullRequestDraft extends PullRequest {
+  repoRoot: string;
+  branch?: string;
+  /** Target branch as found in the repository */
+  target: string;
+  commitCount: number;
+  fileCount: number;
+  /** Path the description was last saved to */
+  savedTo?: string;
+}
+
+// AI 검토 결과 (지적은 문제 패널에도 진단으로 표시)
+interface ReviewReport {
+  summary: string;
+  fileCount: number;
+  /** Findings with the absolute path of their file */
+  findings: (ReviewFinding & { path: string })[];
+}
+
+// 메시지를 다시 쓸 커밋 하나 (새 메시지는 웹뷰에서 고친 내용도 반영)
+interface RewordItem {
+  commit: RewordableCommit;
+  message: string;
+  warnings: LintViolation[];
+  /** Whether the new message is applied */
+  selected: boolean;
+}
+
+// HEAD까지의 커밋 메시지를 다시 쓴 초안 (적용하거나 취소할 때까지 유지)
+interface RewordDraft {
+  repoRoot: string;
+  range: RewordRange;
+  items: RewordItem[];
+}
+
+interface ChangedFile {
+  /** Absolute file path */
+  path: string;
+  /** Root path of the repository that owns the file */
+  repoRoot: string;
+  /** Absolute old path of a renamed file (the same as `path` otherwise) */
+  originalPath: string;
+  status: ChangeKind;
+  selected: boolean;
+  /** Whether the diff viewer of the file is open */
+  expanded: boolean;
+  /** Diff shown in the viewer, loaded when the file is first expanded */
+  diff?: ParsedFileDiff;
+  /** Ids of the hunks left out of generation and staging */
+  excludedHunks: Set<string>;
+}
 
 export class CommitViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'aiCommitView';
   private _view?: vscode.WebviewView;
   private _extensionUri: vscode.Uri;
-  private _commitMessage: string = '';
-  private _diffContent: string = '';
-  private _changedFiles: { path: string, selected: boolean }[] = [];
+  private _changedFiles: ChangedFile[] = [];
+  private _diffSource: DiffSource = readDiffSource();
+  // 생성 중일 때만 존재하며, 중지 버튼과 진행 알림의 취소가 이 컨트롤러로 요청을 중단함
+  private _abortController?: AbortController;
+  private _rounds: CandidateRound[] = [];
+  // 현재 표시 중인 생성 결과
+  private _roundIndex = -1;
+  // 마지막 커밋/푸시 결과 (웹뷰에 표시)
+  private _actionStatus?: { kind: 'success' | 'error', text: string };
+  private _committing = false;
+  // AI가 제안한 커밋 분할 계획 (계획대로 커밋하거나 취소할 때까지 유지)
+  private _plan?: CommitPlan;
+  // 웹뷰에 페이지를 한 번 그린 뒤에는 영역 단위로만 갱신함
+  private _rendered = false;
+  // 저장소 상태 변경이 몰려 올 때 목록을 한 번만 다시 읽도록 모음
+  private _reloadTimer?: ReturnType<typeof setTimeout>;
+  // 늦게 끝난 이전 목록 읽기가 새 결과를 덮어쓰지 않도록 구분
+  private _loadSequence = 0;
+  private _historyOpen = false;
+  // 현재 브랜치로 만든 PR 설명 (닫을 때까지 유지)
+  private _pullRequest?: PullRequestDraft;
+  // 기존 커밋 메시지를 다시 쓴 초안
+  private _reword?: RewordDraft;
+  // 선택한 파일의 AI 검토 결과 (지울 때까지 유지)
+  private _review?: ReviewReport;
   private provider?: AiCommitProvider;
 
-  constructor(extensionUri: vscode.Uri) {
+  /**
+   * @param extensionUri Root of the extension
+   * @param history Generation history shown in the History section
+   * @param reviewDiagnostics Collection the findings of AI reviews are shown in
+   */
+  constructor(
+    extensionUri: vscode.Uri,
+    private readonly _history: GenerationHistory,
+    private readonly _reviewDiagnostics: vscode.DiagnosticCollection
+  ) {
     this._extensionUri = extensionUri;
   }
 
   public registerProvider(provider: AiCommitProvider) {
     console.log('CommitViewProvider: registerProvider 호출됨');
     this.provider = provider;
+    // 설정이나 API 키가 바뀌면 설정 안내 화면을 갱신
+    provider.onDidChangeSetup(() => this._updateWebview());
     console.log('CommitViewProvider: provider 등록 완료', this.provider ? '성공' : '실패');
   }
 
   /**
    * 변경된 파일 목록을 새로고침합니다.
    * 이 메서드는 public으로, 외부에서 호출할 수 있습니다.
+   * @param rootUri 지정하면 해당 저장소의 파일만 선택된 상태로 표시합니다.
    */
-  public async refreshChangedFiles(): Promise<void> {
-    await this._loadChangedFiles();
+  public async refreshChangedFiles(rootUri?: vscode.Uri): Promise<void> {
+    await this._loadChangedFiles(rootUri);
   }
 
   public resolveWebviewView(
@@ -34,6 +236,7 @@ export class CommitViewProvider implements vscode.WebviewViewProvider {
     token: vscode.CancellationToken
   ) {
     this._view = webviewView;
+    this._rendered = false;
 
     webviewView.webview.options = {
       enableScripts: true,
@@ -45,13 +248,48 @@ export class CommitViewProvider implements vscode.WebviewViewProvider {
 
     this._updateWebview();
 
+    // 편집, 스테이징, 브랜치 전환과 저장소 열기/닫기에 맞춰 목록을 갱신
+    const watcher = this._watchRepositories();
+    webviewView.onDidDispose(() => {
+      watcher.dispose();
+      this._view = undefined;
+    });
+
+    // 숨겨진 동안에는 웹뷰 내용이 사라지고 보내는 메시지도 받지 못하므로 다시 보일 때 전체를 그림
+    webviewView.onDidChangeVisibility(() => {
+      if (webviewView.visible) {
+        this._rendered = false;
+        this._updateWebview();
+      }
+    });
+
     // Handle messages from the webview
     webviewView.webview.onDidReceiveMessage(
-      async (message) => {
+      async (data: unknown) => {
+        // 웹뷰 내용은 저장소와 AI가 만든 값으로 그려지므로 받은 메시지를 그대로 믿지 않음
+        const message = parseWebviewMessage(data);
+        if (!message) {
+          console.warn('Ignored an invalid message from the AI Commit view:', data);
+          return;
+        }
         switch (message.command) {
           case 'applyCommit':
             await this._applyCommitMessage(message.message);
             break;
+          case 'commitSelected':
+            await this._commitSelectedFiles(message.message, message.selectedFiles, {
+              amend: message.amend,
+              push: message.push
+            });
+            break;
+          case 'selectCandidate':
+            if (this._round) {
+              this._round.selected = message.index;
+            }
+            break;
+          case 'showRound':
+            this._showRound(message.index);
+            break;
           case 'regenerate':
             await this._regenerateCommitMessage();
             break;
@@ -61,6 +299,128 @@ export class CommitViewProvider implements vscode.WebviewViewProvider {
           case 'refreshFiles':
             await this._loadChangedFiles();
             break;
+          case 'editCandidate':
+            this._editCandidate(message.index, message.message);
+            break;
+          case 'planCommits':
+            await this._planCommits(message.selectedFiles);
+            break;
+          case 'movePlanFile':
+            this._movePlanFile(message.path, message.group);
+            break;
+          case 'editPlanMessage':
+            this._editPlanMessage(message.group, message.message);
+            break;
+          case 'commitPlan':
+            await this._commitPlan();
+            break;
+          case 'reviewChanges':
+            await this._reviewChanges(message.selectedFiles);
+            break;
+          case 'openReviewFinding':
+            await this._openReviewFinding(message.index);
+            break;
+          case 'discardReview':
+            this._review = undefined;
+            this._reviewDiagnostics.clear();
+            this._updateWebview(['review']);
+            break;
+          case 'discardPlan':
+            this._plan = undefined;
+            this._updateWebview();
+            break;
+          case 'stopGeneration':
+            this._stopGeneration();
+            break;
+          case 'setApiKey':
+            await vscode.commands.executeCommand('commit-with-ai.setApiKey', this.provider?.setupIssue?.provider);
+            break;
+          case 'openSettings':
+            await vscode.commands.executeCommand('workbench.action.openSettings', 'commitWithAi');
+            break;
+          case 'toggleFile':
+            this._toggleFile(message.path, message.selected);
+            break;
+          case 'toggleFileDiff':
+            await this._toggleFileDiff(message.path);
+            break;
+          case 'toggleHunk':
+            this._toggleHunk(message.path, message.hunk, message.selected);
+            break;
+          case 'stageHunks':
+            await this._stageSelectedHunks(message.path);
+            break;
+          case 'openChange':
+            await this._openChange(message.path);
+            break;
+          case 'toggleHistory':
+            this._historyOpen = message.open;
+            break;
+          case 'reapplyHistory':
+            await this._reapplyHistory(message.repoRoot, message.id);
+            break;
+          case 'copyHistory':
+            await this._copyHistory(message.repoRoot, message.id);
+            break;
+          case 'clearHistory':
+            await this._clearHistory(message.repoRoot);
+            break;
+          case 'editPullRequest':
+            this._editPullRequest(message.title, message.body);
+            break;
+          case 'copyPullRequestTitle':
+            this._editPullRequest(message.title, this._pullRequest?.body);
+            await this._copyPullRequest(message.title, vscode.l10n.t('Copied the PR title.'));
+            break;
+          case 'copyPullRequestBody':
+            this._editPullRequest(this._pullRequest?.title, message.body);
+            await this._copyPullRequest(message.body, vscode.l10n.t('Copied the PR description.'));
+            break;
+          case 'savePullRequestBody':
+            this._editPullRequest(this._pullRequest?.title, message.body);
+            await this._savePullRequestBody();
+            break;
+          case 'regeneratePullRequest':
+            if (this._pullRequest) {
+              await this._generatePullRequest(this._pullRequest.repoRoot);
+            }
+            break;
+          case 'discardPullRequest':
+            this._pullRequest = undefined;
+            this._updateWebview(['pullRequest']);
+            break;
+          case 'editRewordMessage':
+            if (this._reword?.items[message.index]) {
+              this._reword.items[message.index].message = message.message;
+            }
+            break;
+          case 'toggleRewordCommit':
+            if (this._reword?.items[message.index]) {
+              this._reword.items[message.index].selected = message.selected;
+              this._updateWebview(['reword']);
+            }
+            break;
+          case 'applyReword':
+            this._reword?.items.forEach((item, index) => {
+              item.message = message.messages[index] ?? item.message;
+            });
+            await this._applyReword();
+            break;
+          case 'regenerateReword':
+            if (this._reword) {
+              await this._generateReword(this._reword.repoRoot, this._reword.range.commits[0].hash);
+            }
+            break;
+          case 'discardReword':
+            this._reword = undefined;
+            this._updateWebview(['reword']);
+            break;
+          case 'setDiffSource':
+            this._diffSource = message.source;
+            // 헝크는 diff 기준마다 다르므로 빼 두었던 헝크는 잊음
+            this._changedFiles.forEach(file => file.excludedHunks.clear());
+            await this._loadChangedFiles();
+            break;
         }
       },
       undefined,
@@ -68,110 +428,810 @@ export class CommitViewProvider implements vscode.WebviewViewProvider {
     );
   }
 
-  public updateContent(commitMessage: string, diffContent: string) {
-    this._commitMessage = commitMessage;
-    this._diffContent = diffContent;
+  /**
+   * 생성된 커밋 메시지와 diff를 새 생성 결과로 표시합니다.
+   * @param filePaths 메시지를 생성한 파일 경로. 적용 시 이 파일들이 속한 저장소에 메시지를 씁니다.
+   * @param warnings 자동 수정 후에도 남은 커밋 규칙 위반 사항
+   */
+  public updateContent(commitMessage: string, diffContent: string, filePaths: string[] = [], warnings: LintViolation[] = []) {
+    this._rounds.push({
+      candidates: [{ label: vscode.l10n.t(CANDIDATE_VARIANTS[0].label), message: commitMessage, warnings }],
+      selected: 0,
+      filePaths,
+      targetRepoRoots: this._getRepoRoots(filePaths),
+      diffContent,
+      preparedFiles: [],
+      redactions: [],
+      excludedFiles: [],
+    });
+    this._roundIndex = this._rounds.length - 1;
     this._updateWebview();
   }
 
-  private async _loadChangedFiles() {
+  private get _round(): CandidateRound | undefined {
+    return this._rounds[this._roundIndex];
+  }
+
+  private _showRound(index: number) {
+    if (index >= 0 && index < this._rounds.length) {
+      this._roundIndex = index;
+      this._updateWebview();
+    }
+  }
+
+  private _getRepoRoots(filePaths: string[]): string[] {
+    try {
+      const git = getGitApi();
+      const roots = filePaths
+        .map(filePath => getRepositoryForPath(git, filePath)?.rootUri.fsPath)
+        .filter((root): root is string => !!root);
+      return [...new Set(roots)];
+    } catch (error) {
+      console.error('Error resolving repositories:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Reload the file list when a repository's state changes or a repository is opened or closed
+   * @returns Disposable that stops watching
+   */
+  private _watchRepositories(): vscode.Disposable {
+    const repoListeners = new Map<any, vscode.Disposable>();
+    const disposables: vscode.Disposable[] = [];
+    try {
+      const git = getGitApi();
+      const watch = (repo: any) => {
+        repoListeners.set(repo, repo.state.onDidChange(() => this._scheduleReload()));
+      };
+      git.repositories.forEach(watch);
+      disposables.push(
+        git.onDidOpenRepository((repo: any) => {
+          watch(repo);
+          this._scheduleReload();
+        }),
+        git.onDidCloseRepository((repo: any) => {
+          repoListeners.get(repo)?.dispose();
+          repoListeners.delete(repo);
+          this._scheduleReload();
+        })
+      );
+    } catch (error) {
+      console.error('Error watching repositories:', error);
+    }
+
+    return new vscode.Disposable(() => {
+      disposables.forEach(disposable => disposable.dispose());
+      repoListeners.forEach(listener => listener.dispose());
+      clearTimeout(this._reloadTimer);
+    });
+  }
+
+  // 파일을 저장할 때마다 상태 변경이 여러 번 오므로 잠시 모았다가 한 번만 읽음
+  private _scheduleReload() {
+    clearTimeout(this._reloadTimer);
+    this._reloadTimer = setTimeout(() => this._loadChangedFiles(undefined, true), 300);
+  }
+
+  /**
+   * Read the changed files of all repositories. The user's choices for files that are still changed
+   * (checkbox, open diff viewer, unchecked hunks) are kept.
+   * @param rootUri If given, only the files of this repository are selected
+   * @param quiet Do not show errors, for reloads that the user did not ask for
+   */
+  private async _loadChangedFiles(rootUri?: vscode.Uri, quiet = false) {
+    const sequence = ++this._loadSequence;
     try {
       console.log('CommitViewProvider: _loadChangedFiles 호출됨');
       if (!this.provider) {
         console.error('CommitViewProvider: provider가 등록되지 않았습니다.');
-        vscode.window.showErrorMessage('보기 데이터를 제공할 수 있는 등록된 데이터 공급자가 없습니다.');
+        vscode.window.showErrorMessage(vscode.l10n.t('There is no data provider registered that can provide view data.'));
         return;
       }
       console.log('CommitViewProvider: provider 확인됨');
 
-      // Git 확장 가져오기
-      const gitExtension = vscode.extensions.getExtension('vscode.git');
-      if (!gitExtension) {
-        throw new Error('Git extension not found');
-      }
+      const git = getGitApi();
       
-      const git = gitExtension.exports.getAPI(1);
-      const repo = git.repositories[0];
-      
-      if (!repo) {
+      if (git.repositories.length === 0) {
+        this._changedFiles = [];
+        this._updateWebview(['files']);
         throw new Error('No Git repository found');
       }
 
-      // 변경된 파일 목록 가져오기
-      const changes = repo.state.workingTreeChanges;
-      this._changedFiles = changes.map((change: { uri: vscode.Uri }) => ({
-        path: vscode.workspace.asRelativePath(change.uri.fsPath),
-        selected: true
-      }));
+      // 모든 저장소의 변경된 파일 목록 가져오기 (이전 목록에 있던 파일은 선택 상태를 이어받음)
+      const previous = new Map(this._changedFiles.map(file => [file.path, file]));
+      const changedFiles: ChangedFile[] = [];
+      for (const repo of git.repositories) {
+        const repoRoot: string = repo.rootUri.fsPath;
+        const changes = getChangesForSource(repo, this._diffSource);
+        changedFiles.push(...changes.map(change => {
+          const known = previous.get(change.uri.fsPath);
+          return {
+            path: change.uri.fsPath,
+            repoRoot,
+            originalPath: change.originalUri.fsPath,
+            status: getChangeKind(change.status),
+            selected: rootUri ? repoRoot === rootUri.fsPath : known?.selected ?? true,
+            expanded: known?.expanded ?? false,
+            excludedHunks: known?.excludedHunks ?? new Set<string>()
+          };
+        }));
+      }
 
-      this._updateWebview();
+      // 내용이 바뀌었을 수 있으므로 펼쳐 두었거나 헝크를 뺀 파일은 diff를 다시 읽음
+      await Promise.all(changedFiles
+        .filter(file => file.expanded || file.excludedHunks.size > 0)
+        .map(file => this._loadFileDiff(file).catch(error => {
+          file.expanded = false;
+          console.error(`Error getting diff for file ${file.path}:`, error);
+        })));
+      if (sequence !== this._loadSequence) {
+        return;
+      }
+
+      this._changedFiles = changedFiles;
+      this._updateWebview(['files']);
     } catch (error: any) {
-      vscode.window.showErrorMessage(`변경된 파일 목록을 가져오는 중 오류가 발생했습니다: ${error.message}`);
+      if (!quiet) {
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to get the changed files: {0}', error.message));
+      }
       console.error('Error loading changed files:', error);
     }
   }
 
-  private _updateWebview() {
+  /**
+   * Read the diff of a file for the viewer. Unchecked hunks that are no longer in the diff are forgotten.
+   * @param file Changed file
+   * @throws Error if git fails
+   */
+  private async _loadFileDiff(file: ChangedFile): Promise<void> {
+    const collector = new GitDiffCollector(getGitApi().git.path, file.repoRoot, this._diffSource);
+    file.diff = parseFileDiff(await collector.getDiff(this._relativePath(file)));
+    const hunkIds = new Set(file.diff.hunks.map(hunk => hunk.id));
+    file.excludedHunks = new Set([...file.excludedHunks].filter(id => hunkIds.has(id)));
+  }
+
+  // 저장소 기준 상대 경로 (git 명령에 넘기는 형식)
+  private _relativePath(file: ChangedFile): string {
+    return path.relative(file.repoRoot, file.path).split(path.sep).join('/');
+  }
+
+  // 일부 헝크를 뺀 파일만 담음 (절대 경로 → 뺀 헝크)
+  private _getExcludedHunks(): Map<string, ReadonlySet<string>> {
+    return new Map(this._changedFiles
+      .filter(file => file.excludedHunks.size > 0)
+      .map(file => [file.path, file.excludedHunks]));
+  }
+
+  private async _toggleFileDiff(filePath: string) {
+    const file = this._changedFiles.find(item => item.path === filePath);
+    if (!file) {
+      return;
+    }
+
+    file.expanded = !file.expanded;
+    this._updateWebview(['files']);
+    if (!file.expanded || file.diff) {
+      return;
+    }
+
+    try {
+      await this._loadFileDiff(file);
+    } catch (error) {
+      file.expanded = false;
+      console.error(`Error getting diff for file ${file.path}:`, error);
+      vscode.window.showWarningMessage(vscode.l10n.t('Failed to get the changes of {0}.', file.path));
+    }
+    this._updateWebview(['files']);
+  }
+
+  private _toggleFile(filePath: string, selected: boolean) {
+    const file = this._changedFiles.find(item => item.path === filePath);
+    if (file) {
+      file.selected = selected;
+    }
+  }
+
+  private _toggleHunk(filePath: string, hunk: string, selected: boolean) {
+    const file = this._changedFiles.find(item => item.path === filePath);
+    if (selected) {
+      file?.excludedHunks.delete(hunk);
+    } else {
+      file?.excludedHunks.add(hunk);
+    }
+  }
+
+  private _stageHunks(file: ChangedFile): Promise<void> {
+    return stageHunks(getGitApi().git.path, file.repoRoot, this._relativePath(file), this._diffSource, file.excludedHunks);
+  }
+
+  // 파일의 선택한 헝크만 인덱스에 남김
+  private async _stageSelectedHunks(filePath: string) {
+    const file = this._changedFiles.find(item => item.path === filePath);
+    if (!file || this._committing) {
+      return;
+    }
+
+    try {
+      await this._stageHunks(file);
+      // Git 확장의 상태는 파일 감시로 늦게 갱신되므로 직접 새로고침한 뒤 목록을 다시 읽음
+      await getRepositoryByRoot(getGitApi(), vscode.Uri.file(file.repoRoot))?.status();
+    } catch (error: any) {
+      console.error(`Error staging hunks of ${file.path}:`, error);
+      vscode.window.showErrorMessage(vscode.l10n.t('Failed to stage the selected hunks: {0}', error.message));
+    }
+    await this._loadChangedFiles();
+  }
+
+  // VS Code의 diff 편집기로 파일의 변경 내용을 엶
+  private async _openChange(filePath: string) {
+    const file = this._changedFiles.find(item => item.path === filePath);
+    if (!file) {
+      return;
+    }
+
+    try {
+      const git = getGitApi();
+      const uri = vscode.Uri.file(file.path);
+      // 왼쪽은 unstaged면 인덱스('~'), 아니면 HEAD이고 오른쪽은 staged면 인덱스(''), 아니면 작업 트리
+      const left = git.toGitUri(vscode.Uri.file(file.originalPath), this._diffSource === 'unstaged' ? '~' : 'HEAD');
+      const right = this._diffSource === 'staged' ? git.toGitUri(uri, '') : uri;
+
+      // 새 파일은 이전 내용이, 삭제된 파일은 이후 내용이 없으므로 한쪽만 엶
+      if (file.status === 'untracked' || file.status === 'added') {
+        await vscode.commands.executeCommand('vscode.open', right);
+      } else if (file.status === 'deleted') {
+        await vscode.commands.executeCommand('vscode.open', left);
+      } else {
+        const name = path.basename(file.path);
+        const title = this._diffSource === 'staged' ? vscode.l10n.t('{0} (Index)', name) : vscode.l10n.t('{0} (Working Tree)', name);
+        await vscode.commands.executeCommand('vscode.diff', left, right, title);
+      }
+    } catch (error: any) {
+      console.error(`Error opening changes of ${file.path}:`, error);
+      vscode.window.showErrorMessage(vscode.l10n.t('Failed to open the changes: {0}', error.message));
+    }
+  }
+
+  /**
+   * Show the current state in the webview. The page is built once; after that only the given sections
+   * are replaced over `postMessage`, so that what the user is typing elsewhere is kept.
+   * @param sections Sections to update. Defaults to all of them.
+   */
+  private _updateWebview(sections: readonly ViewSection[] = VIEW_SECTIONS) {
     if (!this._view) {
       return;
     }
 
-    this._view.webview.html = this._getHtmlForWebview();
+    if (!this._rendered) {
+      this._view.webview.html = this._getHtmlForWebview(this._view.webview);
+      this._rendered = true;
+      return;
+    }
+    const sectionsHtml = this._getSectionsHtml();
+    this._postMessage({
+      command: 'render',
+      sections: Object.fromEntries(sections.map(section => [section, sectionsHtml[section].toString()]))
+    });
+  }
+
+  private _postMessage(message: ExtensionMessage) {
+    this._view?.webview.postMessage(message);
+  }
+
+  // 이번 생성 결과를 저장소별 기록으로 남김 (팀이 AI 출력을 얼마나 고치는지 확인하는 용도)
+  private async _recordHistory(round: CandidateRound, generated: GeneratedCommit[]) {
+    try {
+      const model = await this.provider!.describeModel();
+      const promptTokens = Math.max(...generated.map(result => result.promptTokens));
+      round.history = await Promise.all([...groupByRepository(getGitApi(), round.filePaths)].map(async ([repo, files]) => {
+        const repoRoot: string = repo.rootUri.fsPath;
+        const entry = await this._history.add(repoRoot, {
+          timestamp: Date.now(),
+          model,
+          files: files.map(file => path.relative(repoRoot, file).split(path.sep).join('/')),
+          promptTokens,
+          generated: generated.map(result => result.message),
+        });
+        return { repoRoot, id: entry.id };
+      }));
+    } catch (error) {
+      console.error('Error recording generation history:', error);
+    }
+  }
+
+  // 적용하거나 커밋한 메시지를 현재 생성 결과의 기록에 남김
+  private async _recordFinalMessage(repoRoots: string[], message: string) {
+    const round = this._round;
+    try {
+      for (const { repoRoot, id } of round?.history ?? []) {
+        if (repoRoots.includes(repoRoot)) {
+          await this._history.setFinal(repoRoot, id, round!.selected, message);
+        }
+      }
+      this._updateWebview(['history']);
+    } catch (error) {
+      console.error('Error recording the final message:', error);
+    }
+  }
+
+  private _getHistoryRepoRoots(): string[] {
+    try {
+      return getGitApi().repositories.map((repo: any) => repo.rootUri.fsPath);
+    } catch (error) {
+      console.error('Error resolving repositories:', error);
+      return [];
+    }
+  }
+
+  // 기록 항목에서 다시 쓸 메시지 (적용한 메시지가 없으면 첫 후보)
+  private _getHistoryMessage(repoRoot: string, id: string): string | undefined {
+    const entry = this._history.list(repoRoot).find(item => item.id === id);
+    return entry ? entry.final ?? entry.generated[0] : undefined;
+  }
+
+  private async _reapplyHistory(repoRoot: string, id: string) {
+    const message = this._getHistoryMessage(repoRoot, id);
+    const repo = getRepositoryByRoot(getGitApi(), vscode.Uri.file(repoRoot));
+    if (message === undefined || !repo) {
+      return;
+    }
+    repo.inputBox.value = message;
+    vscode.window.showInformationMessage(vscode.l10n.t('Applied the commit message ({0}). Check it in the Source Control view.', getRepositoryName(repo)));
+  }
+
+  private async _copyHistory(repoRoot: string, id: string) {
+    const message = this._getHistoryMessage(repoRoot, id);
+    if (message !== undefined) {
+      await vscode.env.clipboard.writeText(message);
+      vscode.window.showInformationMessage(vscode.l10n.t('Copied the commit message.'));
+    }
+  }
+
+  private async _clearHistory(repoRoot: string) {
+    const clear = vscode.l10n.t('Clear');
+    const answer = await vscode.window.showWarningMessage(
+      vscode.l10n.t('Clear the generation history of {0}?', path.basename(repoRoot)),
+      { modal: true },
+      clear
+    );
+    if (answer !== clear) {
+      return;
+    }
+    await this._history.clear(repoRoot);
+    this._updateWebview(['history']);
+  }
+
+  private _getHistoryEntryHtml(repoRoot: string, entry: HistoryEntry): SafeHtml {
+    const message = entry.final ?? entry.generated[0] ?? '';
+    const ratio = entry.final === undefined ? undefined : editRatio(entry.generated[entry.finalCandidate ?? 0] ?? '', entry.final);
+    const status = ratio === undefined
+      ? vscode.l10n.t('Not applied')
+      : ratio === 0 ? vscode.l10n.t('Applied unchanged') : vscode.l10n.t('Edited {0}%', Math.max(Math.round(ratio * 100), 1));
+    return html`
+      <div class="history-entry">
+        <div class="history-meta">
+          <span>${new Date(entry.timestamp).toLocaleString(vscode.env.language)}</span>
+          <span>${entry.model}</span>
+          <span title="${entry.files.join('\n')}">${vscode.l10n.t('{0} files', entry.files.length)}</span>
+          <span class="token-count">${vscode.l10n.t('~{0} tokens', entry.promptTokens)}</span>
+          <span class="treatment">${status}</span>
+        </div>
+        <pre class="history-message">${message}</pre>
+        <div class="button-container">
+          <button class="reapply-history-button" data-repo="${repoRoot}" data-id="${entry.id}">${vscode.l10n.t('Re-apply')}</button>
+          <button class="copy-history-button" data-repo="${repoRoot}" data-id="${entry.id}">${vscode.l10n.t('Copy')}</button>
+        </div>
+      </div>
+    `;
+  }
+
+  // 펼친 파일의 헝크별 diff HTML 생성 (체크를 해제한 헝크는 생성과 스테이징에서 빠짐)
+  private _getFileDiffHtml(file: ChangedFile): SafeHtml {
+    const diff = file.diff;
+    if (!diff) {
+      return html`<div class="file-diff plan-hint">${vscode.l10n.t('Loading changes...')}</div>`;
+    }
+    // 바이너리, 이름만 바뀐 파일 등 헝크가 없는 diff는 머리말만 표시
+    if (diff.hunks.length === 0) {
+      return html`<div class="file-diff"><pre class="diff-lines">${diff.header.join('\n')}</pre></div>`;
+    }
+
+    let remainingLines = MAX_DIFF_VIEWER_LINES;
+    return html`
+      <div class="file-diff">
+        ${diff.hunks.map(hunk => {
+          const lines = hunk.lines.slice(0, Math.max(remainingLines, 0));
+          remainingLines -= hunk.lines.length;
+          const hidden = hunk.lines.length - lines.length;
+          return html`
+            <div class="hunk">
+              <label class="hunk-header">
+                <input type="checkbox" class="hunk-checkbox" data-path="${file.path}" data-hunk="${hunk.id}" ${file.excludedHunks.has(hunk.id) ? '' : 'checked'}>
+                <code>${hunk.header}</code>
+              </label>
+              ${renderDiffLines(lines)}
+              ${hidden > 0 && html`<div class="plan-hint">${vscode.l10n.t('{0} more lines', hidden)}</div>`}
+            </div>
+          `;
+        })}
+        <div class="button-container">
+          <button class="stage-hunks-button" data-path="${file.path}" ${this._committing ? 'disabled' : ''}
+            title="${vscode.l10n.t('Keep only the checked hunks of this file in the index')}">${vscode.l10n.t('Stage Selected Hunks')}</button>
+        </div>
+      </div>
+    `;
   }
 
-  private _getHtmlForWebview() {
-    // 변경된 파일 목록 HTML 생성
-    const changedFilesHtml = this._changedFiles.length > 0 
-      ? `
+  // 영역별 HTML 생성. 파일 경로, diff, 커밋 메시지처럼 저장소나 AI에서 온 값은 모두 html 태그가 이스케이프함
+  private _getSectionsHtml(): Record<ViewSection, SafeHtml> {
+    // AI 공급자를 사용할 수 없으면 처음 설정 안내만 표시
+    const setupIssue = this.provider?.setupIssue;
+    const setupHtml = setupIssue && html`
+      <div class="setup-state">
+        <h3>${vscode.l10n.t('AI Provider Setup')}</h3>
+        <p>${setupIssue.message}</p>
+        <p class="setup-hint">${setupIssue.reason === 'missingApiKey'
+          ? vscode.l10n.t('Set an API key to start generating commit messages. The key is kept in VS Code secure storage.')
+          : vscode.l10n.t('Please check the provider, model and endpoint in settings.')}</p>
+        <div class="button-container">
+          ${setupIssue.reason === 'missingApiKey' && html`<button id="set-api-key-button">${vscode.l10n.t('Set API Key')}</button>`}
+          <button id="open-settings-button">${vscode.l10n.t('Open Settings')}</button>
+        </div>
+      </div>
+    `;
+
+    // 스테이징 영역 선택 HTML 생성
+    const diffSourceOptions: { value: DiffSource, label: string }[] = [
+      { value: 'staged', label: vscode.l10n.t('Staged changes') },
+      { value: 'unstaged', label: vscode.l10n.t('Unstaged changes') },
+      { value: 'all', label: vscode.l10n.t('All changes') },
+    ];
+    const diffSourceHtml = html`
+      <div class="diff-source">
+        <label for="diff-source-select">${vscode.l10n.t('Source')}</label>
+        <select id="diff-source-select">
+          ${diffSourceOptions.map(option => html`
+            <option value="${option.value}" ${option.value === this._diffSource ? 'selected' : ''}>${option.label}</option>
+          `)}
+        </select>
+      </div>
+    `;
+
+    // 변경된 파일 목록 HTML 생성 (저장소별로 묶음)
+    const repoRoots = [...new Set(this._changedFiles.map(file => file.repoRoot))];
+    const changedFilesHtml = this._changedFiles.length > 0
+      ? html`
         <div class="files-container">
-          <h3>변경된 파일</h3>
+          <h3>${vscode.l10n.t('Changed Files')}</h3>
           <div class="file-list">
-            ${this._changedFiles.map((file, index) => `
-              <div class="file-item">
-                <input type="checkbox" id="file-${index}" data-path="${file.path}" ${file.selected ? 'checked' : ''}>
-                <label for="file-${index}">${file.path}</label>
+            ${repoRoots.map(repoRoot => html`
+              <div class="repo-group">
+                <div class="repo-name">${path.basename(repoRoot)}</div>
+                ${this._changedFiles.map((file, index) => file.repoRoot === repoRoot && html`
+                  <div class="file-item">
+                    <button class="file-toggle" data-path="${file.path}" title="${file.expanded ? vscode.l10n.t('Hide changes') : vscode.l10n.t('Show changes')}">${file.expanded ? '▾' : '▸'}</button>
+                    <input type="checkbox" class="file-checkbox" id="file-${index}" data-path="${file.path}" ${file.selected ? 'checked' : ''}>
+                    <span class="file-status status-${file.status}" title="${CHANGE_KIND_LABELS[file.status].title}">${CHANGE_KIND_LABELS[file.status].letter}</span>
+                    <a href="#" class="file-open" data-path="${file.path}" title="${vscode.l10n.t('Open changes')}">${path.relative(repoRoot, file.path)}</a>
+                  </div>
+                  ${file.expanded && this._getFileDiffHtml(file)}
+                `)}
               </div>
-            `).join('')}
+            `)}
           </div>
           <div class="button-container">
-            <button id="generate-button">AI가 커밋 작성</button>
-            <button id="refresh-button">새로고침</button>
+            <button id="generate-button">${vscode.l10n.t('Write Commit with AI')}</button>
+            <button id="plan-button" title="${vscode.l10n.t('Split unrelated changes into several commits')}">${vscode.l10n.t('Split Commits')}</button>
+            <button id="review-button" title="${vscode.l10n.t('Look for likely bugs, debug code, missing tests and risky patterns before committing')}">${vscode.l10n.t('Review Changes')}</button>
+            <button id="refresh-button">${vscode.l10n.t('Refresh')}</button>
           </div>
         </div>
-      ` 
-      : `
+      `
+      : html`
         <div class="empty-state">
-          <p>변경된 파일이 없습니다. 파일을 수정한 후 새로고침 버튼을 클릭하세요.</p>
-          <button id="refresh-button">새로고침</button>
+          <p>${this._diffSource === 'staged'
+            ? vscode.l10n.t('There are no staged changes. Stage files or change the source, then click Refresh.')
+            : vscode.l10n.t('There are no changed files. Modify files, then click Refresh.')}</p>
+          <button id="refresh-button">${vscode.l10n.t('Refresh')}</button>
         </div>
       `;
 
-    // 커밋 메시지 HTML 생성
-    const commitMessageHtml = this._commitMessage 
-      ? `
-        <h3>AI 생성 커밋 메시지</h3>
-        <div class="message-container">
-          <textarea id="commit-message">${this._commitMessage}</textarea>
+    // 토큰 예산 때문에 축약된 파일 목록 HTML 생성
+    const round = this._round;
+    const reducedFiles = round ? round.preparedFiles.filter(file => file.treatment !== 'full') : [];
+    // 가린 비밀 정보와 제외된 파일 안내 HTML 생성 (펼치면 가린 위치를 확인할 수 있음)
+    const redactionHtml = round && (round.redactions.length > 0 || round.excludedFiles.length > 0) && html`
+      <details class="redaction-notice">
+        <summary>
+          ${[
+            round.redactions.length > 0 ? vscode.l10n.t('Masked {0} secrets', round.redactions.length) : '',
+            round.excludedFiles.length > 0 ? vscode.l10n.t('Left out the content of {0} files', round.excludedFiles.length) : '',
+          ].filter(text => text).join(', ')}
+        </summary>
+        <ul>
+          ${round.redactions.map(redaction => html`
+            <li>
+              <span>${redaction.path}:${redaction.line}</span>
+              <span class="treatment">${redaction.detector}</span>
+              <code>${redaction.preview}</code>
+            </li>
+          `)}
+          ${round.excludedFiles.map(file => html`
+            <li>
+              <span>${file}</span>
+              <span class="treatment">${vscode.l10n.t('Excluded')}</span>
+            </li>
+          `)}
+        </ul>
+      </details>
+    `;
+
+    // 프롬프트에 포함한 저장소 컨텍스트 HTML 생성
+    const context = round?.context;
+    const contextItems = context
+      ? [
+        context.branch && html`<li>${vscode.l10n.t('Branch:')} <code>${context.branch}</code></li>`,
+        context.tickets?.length && html`<li>${vscode.l10n.t('Tickets:')} ${context.tickets.map((ticket, index) => html`${index > 0 ? ' ' : ''}<code>${ticket}</code>`)}</li>`,
+        context.scopes?.length && html`<li>${vscode.l10n.t('Scope hints:')} ${context.scopes.map((scope, index) => html`${index > 0 ? ' ' : ''}<code>${scope}</code>`)}</li>`,
+        context.recentCommits?.length && html`
+          <li>
+            <details>
+              <summary>${vscode.l10n.t('{0} recent commits (style examples)', context.recentCommits.length)}</summary>
+              <ul>${context.recentCommits.map(subject => html`<li>${subject}</li>`)}</ul>
+            </details>
+          </li>
+        `,
+      ].filter((item): item is SafeHtml => item instanceof SafeHtml)
+      : [];
+    const contextHtml = contextItems.length > 0 && html`
+      <h4>${vscode.l10n.t('Included Context')}</h4>
+      <ul class="prompt-context">${contextItems}</ul>
+    `;
+
+    const reducedFilesHtml = reducedFiles.length > 0 && html`
+      <h4>${vscode.l10n.t('Reduced Files')}</h4>
+      <div class="reduced-files">
+        ${reducedFiles.map(file => html`
+          <div class="reduced-file">
+            <span class="treatment treatment-${file.treatment}">${TREATMENT_LABELS[file.treatment]}</span>
+            <span>${file.path}</span>
+            <span class="token-count">${vscode.l10n.t('~{0} → ~{1} tokens', file.originalTokens, file.tokens)}</span>
+          </div>
+        `)}
+      </div>
+    `;
+
+    // 이전 생성 결과로 이동하는 버튼 HTML 생성
+    const roundNavHtml = this._rounds.length > 1 && html`
+      <div class="round-nav">
+        <button id="prev-round-button" data-round="${this._roundIndex - 1}" ${this._roundIndex <= 0 ? 'disabled' : ''}>◀ ${vscode.l10n.t('Previous')}</button>
+        <span>${vscode.l10n.t('Generation {0} / {1}', this._roundIndex + 1, this._rounds.length)}</span>
+        <button id="next-round-button" data-round="${this._roundIndex + 1}" ${this._roundIndex >= this._rounds.length - 1 ? 'disabled' : ''}>${vscode.l10n.t('Next')} ▶</button>
+      </div>
+    `;
+
+    // 커밋/푸시 결과 HTML 생성
+    const actionStatusHtml = this._actionStatus && html`<pre class="action-status ${this._actionStatus.kind}">${this._actionStatus.text}</pre>`;
+
+    // 커밋 분할 계획 HTML 생성 (파일을 끌어 다른 그룹으로 옮길 수 있음)
+    const plan = this._plan;
+    const pendingGroups = plan ? plan.groups.filter(group => !group.committed).length : 0;
+    const planHtml = plan && html`
+      <div class="commit-plan">
+        <h3>${vscode.l10n.t('Commit Split Plan')}</h3>
+        <p class="plan-hint">${vscode.l10n.t('Drag files between commits and edit the messages, then commit in order. Each commit stages its files in full.')}</p>
+        ${plan.groups.map((group, index) => html`
+          <div class="plan-group ${group.committed ? 'committed' : ''}" data-group="${index}">
+            <div class="plan-group-header">${vscode.l10n.t('Commit {0}', index + 1)}${group.committed && ` (${vscode.l10n.t('committed')})`}</div>
+            <textarea class="plan-message" data-group="${index}" placeholder="${vscode.l10n.t('Commit message')}" ${group.committed ? 'readonly' : ''}>${group.message}</textarea>
+            <ul class="lint-warnings" id="plan-warnings-${index}">
+              ${group.warnings.map(warning => html`<li>${warning.message} <span class="lint-rule">(${warning.rule})</span></li>`)}
+            </ul>
+            <ul class="plan-files">
+              ${group.files.map(file => html`
+                <li class="plan-file" draggable="${group.committed ? 'false' : 'true'}" data-path="${file}">${path.relative(plan.repoRoot, file)}</li>
+              `)}
+            </ul>
+          </div>
+        `)}
+        <div class="plan-group new-group" data-group="${plan.groups.length}">${vscode.l10n.t('Drop a file here to start a new commit')}</div>
+        <div class="button-container">
+          <button id="commit-plan-button" ${this._committing || pendingGroups === 0 ? 'disabled' : ''}>${vscode.l10n.t('Commit Plan ({0})', pendingGroups)}</button>
+          <button id="discard-plan-button" ${this._committing ? 'disabled' : ''}>${vscode.l10n.t('Discard Plan')}</button>
+        </div>
+        ${!round && actionStatusHtml}
+      </div>
+    `;
+
+    // AI 검토 요약과 지적 목록 HTML 생성 (위치를 누르면 해당 줄로 이동)
+    const review = this._review;
+    const reviewHtml = review && html`
+      <div class="review">
+        <h3>${vscode.l10n.t('AI Review')}</h3>
+        ${review.summary && html`<p>${review.summary}</p>`}
+        <p class="plan-hint">${review.findings.length > 0
+          ? vscode.l10n.t('{0} findings in {1} reviewed files. They are also listed in the Problems panel.', review.findings.length, review.fileCount)
+          : vscode.l10n.t('No issues found in {0} reviewed files.', review.fileCount)}</p>
+        <ul class="review-findings">
+          ${review.findings.map((finding, index) => html`
+            <li class="review-finding severity-${finding.severity}">
+              <a href="#" class="review-open" data-index="${index}">${finding.file}${finding.line !== undefined && `:${finding.line}`}</a>
+              <span class="lint-rule">(${REVIEW_CATEGORY_LABELS[finding.category]})</span>
+              <div>${finding.message}</div>
+            </li>
+          `)}
+        </ul>
+        <div class="button-container">
+          <button id="discard-review-button">${vscode.l10n.t('Clear Review')}</button>
+        </div>
+      </div>
+    `;
+
+    // 커밋 메시지 후보 HTML 생성
+    const generating = !!this._abortController;
+    const commitMessageHtml = round && html`
+      <h3>${vscode.l10n.t('AI Commit Messages')}</h3>
+      ${roundNavHtml}
+      <div class="candidates">
+        ${round.candidates.map((candidate, index) => html`
+          <div class="candidate ${index === round.selected ? 'selected' : ''}" data-index="${index}">
+            <label class="candidate-header">
+              <input type="radio" name="candidate" value="${index}" ${index === round.selected ? 'checked' : ''}>
+              ${candidate.label}
+            </label>
+            <textarea class="candidate-message" data-index="${index}" ${generating ? 'readonly' : ''}>${candidate.message}</textarea>
+            <ul class="lint-warnings" id="lint-warnings-${index}">
+              ${candidate.warnings.map(warning => html`<li>${warning.message} <span class="lint-rule">(${warning.rule})</span></li>`)}
+            </ul>
+          </div>
+        `)}
+      </div>
+      <div class="button-container">
+        ${generating
+          ? html`<button id="stop-button">${vscode.l10n.t('Stop')}</button>`
+          : html`
+            <button id="apply-button">${vscode.l10n.t('Apply Selected Message')}</button>
+            <button id="regenerate-button">${vscode.l10n.t('Regenerate')}</button>
+          `}
+      </div>
+      ${!generating && html`
+        <div class="commit-actions">
+          <label class="amend-option">
+            <input type="checkbox" id="amend-checkbox">
+            ${vscode.l10n.t('Amend last commit')}
+          </label>
+          <div class="button-container">
+            <button id="commit-button" ${this._committing ? 'disabled' : ''}>${vscode.l10n.t('Commit')}</button>
+            <button id="commit-push-button" ${this._committing ? 'disabled' : ''}>${vscode.l10n.t('Commit & Push')}</button>
+          </div>
+        </div>
+      `}
+      ${actionStatusHtml}
+      ${redactionHtml}
+      ${contextHtml}
+      ${reducedFilesHtml}
+    `;
+
+    // 생성 기록 HTML 생성 (저장소별 최근 항목과 메시지를 얼마나 고쳤는지 요약)
+    const historyGroups = this._getHistoryRepoRoots()
+      .map(repoRoot => ({ repoRoot, entries: this._history.list(repoRoot) }))
+      .filter(group => group.entries.length > 0);
+    const historyHtml = historyGroups.length > 0 && html`
+      <details class="history" ${this._historyOpen ? 'open' : ''}>
+        <summary>${vscode.l10n.t('History')}</summary>
+        ${historyGroups.map(({ repoRoot, entries }) => {
+          const summary = summarizeEdits(entries);
+          return html`
+            <div class="history-repo">
+              <div class="repo-name">${path.basename(repoRoot)}</div>
+              ${summary.applied > 0 && html`
+                <p class="plan-hint">${vscode.l10n.t('{0} of {1} applied messages were edited ({2}% changed on average).', summary.edited, summary.applied, Math.round(summary.averageEditRatio * 100))}</p>
+              `}
+              ${entries.slice(0, MAX_HISTORY_ITEMS).map(entry => this._getHistoryEntryHtml(repoRoot, entry))}
+              <button class="clear-history-button" data-repo="${repoRoot}">${vscode.l10n.t('Clear History')}</button>
+            </div>
+          `;
+        })}
+      </details>
+    `;
+
+    // PR 제목과 설명 HTML 생성 (고친 내용은 복사와 저장에 반영)
+    const pullRequest = this._pullRequest;
+    const pullRequestHtml = pullRequest && html`
+      <div class="pull-request">
+        <h3>${vscode.l10n.t('Pull Request')}</h3>
+        <p class="plan-hint">${vscode.l10n.t('{0} → {1}: {2} commits, {3} files', pullRequest.branch ?? 'HEAD', pullRequest.target, pullRequest.commitCount, pullRequest.fileCount)}</p>
+        <label class="pr-label" for="pr-title">${vscode.l10n.t('Title')}</label>
+        <input type="text" id="pr-title" value="${pullRequest.title}">
+        <label class="pr-label" for="pr-body">${vscode.l10n.t('Description')}</label>
+        <textarea id="pr-body" class="pr-body">${pullRequest.body}</textarea>
+        <div class="button-container">
+          <button id="copy-pr-title-button">${vscode.l10n.t('Copy Title')}</button>
+          <button id="copy-pr-body-button">${vscode.l10n.t('Copy Description')}</button>
+          <button id="save-pr-body-button" title="${vscode.l10n.t('Save the description for gh pr create --body-file')}">${vscode.l10n.t('Save to File')}</button>
         </div>
         <div class="button-container">
-          <button id="apply-button">적용</button>
-          <button id="regenerate-button">재생성</button>
+          <button id="regenerate-pr-button" ${this._abortController ? 'disabled' : ''}>${vscode.l10n.t('Regenerate')}</button>
+          <button id="discard-pr-button">${vscode.l10n.t('Close')}</button>
         </div>
-        <h4>변경 내용 (Diff)</h4>
-        <div class="diff-container">
-          <pre>${this._diffContent}</pre>
+        ${pullRequest.savedTo && html`
+          <p class="plan-hint">${vscode.l10n.t('Saved to {0}. Create the pull request with:', pullRequest.savedTo)}</p>
+          <pre class="pr-command">gh pr create --title "${pullRequest.title.replace(/["\\$`]/g, '\\$&')}" --body-file "${pullRequest.savedTo}"</pre>
+        `}
+      </div>
+    `;
+
+    // 기존 메시지와 새 메시지를 나란히 표시하고, 승인한 커밋만 다시 씀
+    const reword = this._reword;
+    const rewordCount = reword ? reword.items.filter(item => item.selected).length : 0;
+    const rewordPushed = reword ? reword.items.filter(item => item.commit.pushed).length : 0;
+    const rewordHtml = reword && html`
+      <div class="reword">
+        <h3>${vscode.l10n.t('Reword Commits')}</h3>
+        <p class="plan-hint">${vscode.l10n.t('Review the new messages. Nothing is rewritten until you apply them; the files and the working tree are not changed.')}</p>
+        ${rewordPushed > 0 && html`<p class="reword-warning">${vscode.l10n.t('{0} of these commits are already pushed. Rewording them needs a force push.', rewordPushed)}</p>`}
+        ${reword.items.map((item, index) => html`
+          <div class="plan-group reword-commit">
+            <label class="plan-group-header">
+              <input type="checkbox" class="reword-checkbox" data-index="${index}" ${item.selected ? 'checked' : ''}>
+              ${item.commit.hash.slice(0, 7)}${item.commit.pushed && ` (${vscode.l10n.t('pushed')})`}
+            </label>
+            <div class="reword-compare">
+              <div>
+                <span class="pr-label">${vscode.l10n.t('Current')}</span>
+                <pre class="reword-old">${item.commit.body ? `${item.commit.subject}\n\n${item.commit.body}` : item.commit.subject}</pre>
+              </div>
+              <div>
+                <span class="pr-label">${vscode.l10n.t('New')}</span>
+                <textarea class="reword-message" data-index="${index}" placeholder="${vscode.l10n.t('Commit message')}">${item.message}</textarea>
+                <ul class="lint-warnings">
+                  ${item.warnings.map(warning => html`<li>${warning.message} <span class="lint-rule">(${warning.rule})</span></li>`)}
+                </ul>
+              </div>
+            </div>
+          </div>
+        `)}
+        <div class="button-container">
+          <button id="apply-reword-button" ${this._committing || rewordCount === 0 ? 'disabled' : ''}>${vscode.l10n.t('Reword {0} Commits', rewordCount)}</button>
+          <button id="regenerate-reword-button" ${this._abortController || this._committing ? 'disabled' : ''}>${vscode.l10n.t('Regenerate')}</button>
+          <button id="discard-reword-button" ${this._committing ? 'disabled' : ''}>${vscode.l10n.t('Cancel')}</button>
         </div>
-      ` 
-      : '';
+      </div>
+    `;
+
+    const empty = html``;
+    if (setupHtml) {
+      return { setup: setupHtml, source: empty, files: empty, plan: empty, review: empty, messages: empty, reword: empty, pullRequest: empty, history: empty };
+    }
+    return {
+      setup: empty,
+      source: diffSourceHtml,
+      files: changedFilesHtml,
+      plan: planHtml || empty,
+      review: reviewHtml || empty,
+      messages: commitMessageHtml || empty,
+      reword: rewordHtml || empty,
+      pullRequest: pullRequestHtml || empty,
+      history: historyHtml || empty
+    };
+  }
+
+  private _getHtmlForWebview(webview: vscode.Webview): string {
+    const sections = this._getSectionsHtml();
+    // 이 페이지에서 넣은 스타일과 스크립트만 실행되도록 nonce를 붙임
+    const nonce = randomBytes(16).toString('base64');
+    const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'dist', 'webview.js')).toString();
 
     // Basic HTML template for the webview
-    return `<!DOCTYPE html>
-    <html lang="ko">
+    return html`<!DOCTYPE html>
+    <html lang="${vscode.env.language}">
     <head>
       <meta charset="UTF-8">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
       <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>AI 커밋 메시지</title>
-      <style>
+      <title>${vscode.l10n.t('AI Commit Message')}</title>
+      <style nonce="${nonce}">
         body {
           font-family: var(--vscode-font-family);
           padding: 10px;
@@ -215,7 +1275,7 @@ export class CommitViewProvider implements vscode.WebviewViewProvider {
           margin-bottom: 20px;
         }
         .file-list {
-          max-height: 200px;
+          max-height: 60vh;
           overflow-y: auto;
           border: 1px solid var(--vscode-input-border);
           padding: 8px;
@@ -230,128 +1290,1132 @@ export class CommitViewProvider implements vscode.WebviewViewProvider {
           margin-left: 5px;
           cursor: pointer;
         }
-      </style>
-    </head>
-    <body>
-      <div class="container">
-        ${changedFilesHtml}
-        ${commitMessageHtml}
-      </div>
-      <script>
-        const vscode = acquireVsCodeApi();
-        
-        document.addEventListener('DOMContentLoaded', () => {
-          const commitMessageElement = document.getElementById('commit-message');
-          const applyButton = document.getElementById('apply-button');
-          const regenerateButton = document.getElementById('regenerate-button');
-          const generateButton = document.getElementById('generate-button');
-          const refreshButton = document.getElementById('refresh-button');
-          
-          if (applyButton) {
-            applyButton.addEventListener('click', () => {
-              const message = commitMessageElement.value;
-              vscode.postMessage({
-                command: 'applyCommit',
-                message
-              });
-            });
-          }
-          
-          if (regenerateButton) {
-            regenerateButton.addEventListener('click', () => {
-              vscode.postMessage({
-                command: 'regenerate'
-              });
-            });
-          }
-
-          if (generateButton) {
-            generateButton.addEventListener('click', () => {
-              const checkboxes = document.querySelectorAll('input[type="checkbox"]');
-              const selectedFiles = Array.from(checkboxes)
-                .filter(checkbox => checkbox.checked)
-                .map(checkbox => checkbox.getAttribute('data-path'));
-              
-              vscode.postMessage({
-                command: 'generateCommit',
-                selectedFiles
-              });
-            });
-          }
-
-          if (refreshButton) {
-            refreshButton.addEventListener('click', () => {
-              vscode.postMessage({
-                command: 'refreshFiles'
-              });
-            });
-          }
-        });
-      </script>
+        .file-open {
+          margin-left: 5px;
+          color: var(--vscode-foreground);
+          text-decoration: none;
+        }
+        .file-open:hover {
+          text-decoration: underline;
+        }
+        .file-toggle {
+          padding: 0 4px;
+          background: none;
+          color: var(--vscode-foreground);
+        }
+        .file-diff {
+          margin: 2px 0 8px 22px;
+        }
+        .hunk {
+          margin-bottom: 6px;
+        }
+        .hunk-header {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          color: var(--vscode-descriptionForeground);
+          cursor: pointer;
+        }
+        .diff-lines {
+          margin: 2px 0;
+          overflow-x: auto;
+          font-family: var(--vscode-editor-font-family);
+          font-size: var(--vscode-editor-font-size);
+        }
+        .diff-lines span {
+          display: inline-block;
+          min-width: 100%;
+        }
+        .diff-added {
+          background-color: var(--vscode-diffEditor-insertedLineBackground, rgba(155, 185, 85, 0.2));
+          color: var(--vscode-gitDecoration-addedResourceForeground);
+        }
+        .diff-removed {
+          background-color: var(--vscode-diffEditor-removedLineBackground, rgba(255, 0, 0, 0.2));
+          color: var(--vscode-gitDecoration-deletedResourceForeground);
+        }
+        .diff-note {
+          color: var(--vscode-descriptionForeground);
+        }
+        .diff-source {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          margin-bottom: 10px;
+        }
+        select {
+          background-color: var(--vscode-dropdown-background);
+          color: var(--vscode-dropdown-foreground);
+          border: 1px solid var(--vscode-dropdown-border);
+          padding: 2px 4px;
+        }
+        .file-status {
+          margin-left: 5px;
+          width: 1em;
+          text-align: center;
+          font-family: var(--vscode-editor-font-family);
+          font-weight: bold;
+        }
+        .status-added, .status-untracked {
+          color: var(--vscode-gitDecoration-addedResourceForeground);
+        }
+        .status-modified, .status-typeChanged {
+          color: var(--vscode-gitDecoration-modifiedResourceForeground);
+        }
+        .status-deleted {
+          color: var(--vscode-gitDecoration-deletedResourceForeground);
+        }
+        .status-renamed, .status-copied {
+          color: var(--vscode-gitDecoration-renamedResourceForeground);
+        }
+        .status-conflict {
+          color: var(--vscode-gitDecoration-conflictingResourceForeground);
+        }
+        .candidate {
+          border: 1px solid var(--vscode-input-border);
+          padding: 6px;
+          margin-bottom: 8px;
+        }
+        .candidate.selected {
+          border-color: var(--vscode-focusBorder);
+        }
+        .candidate-header {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          margin-bottom: 4px;
+          font-weight: bold;
+          cursor: pointer;
+        }
+        .candidate textarea {
+          height: 80px;
+        }
+        .round-nav {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          margin-bottom: 8px;
+        }
+        button:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+        .commit-actions {
+          margin-bottom: 10px;
+        }
+        .amend-option {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+        }
+        .action-status {
+          white-space: pre-wrap;
+          padding: 6px;
+          margin: 0 0 10px;
+          border-left: 3px solid;
+        }
+        .action-status.success {
+          border-color: var(--vscode-testing-iconPassed);
+        }
+        .action-status.error {
+          border-color: var(--vscode-errorForeground);
+          color: var(--vscode-errorForeground);
+        }
+        .lint-warnings {
+          margin: 4px 0 0;
+          padding-left: 18px;
+          color: var(--vscode-editorWarning-foreground);
+        }
+        .lint-warnings:empty {
+          display: none;
+        }
+        .lint-rule {
+          color: var(--vscode-descriptionForeground);
+        }
+        .reduced-files {
+          margin-bottom: 10px;
+        }
+        .commit-plan {
+          margin-bottom: 20px;
+        }
+        .plan-hint {
+          color: var(--vscode-descriptionForeground);
+        }
+        .plan-group {
+          border: 1px solid var(--vscode-input-border);
+          padding: 6px;
+          margin-bottom: 8px;
+        }
+        .plan-group.committed {
+          opacity: 0.6;
+        }
+        .plan-group.drag-over {
+          border-color: var(--vscode-focusBorder);
+        }
+        .plan-group.new-group {
+          border-style: dashed;
+          text-align: center;
+          color: var(--vscode-descriptionForeground);
+        }
+        .plan-group-header {
+          font-weight: bold;
+          margin-bottom: 4px;
+        }
+        .plan-message {
+          height: 60px;
+        }
+        .plan-files {
+          margin: 4px 0 0;
+          padding-left: 18px;
+        }
+        .plan-file[draggable="true"] {
+          cursor: grab;
+        }
+        .prompt-context {
+          margin: 0 0 10px;
+          padding-left: 18px;
+        }
+        .redaction-notice {
+          margin: 10px 0;
+          padding: 6px 8px;
+          border-left: 3px solid var(--vscode-editorWarning-foreground);
+        }
+        .redaction-notice li {
+          display: flex;
+          gap: 6px;
+          align-items: center;
+        }
+        .reduced-file {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+          margin-bottom: 4px;
+        }
+        .treatment {
+          padding: 0 4px;
+          border-radius: 2px;
+          background-color: var(--vscode-badge-background);
+          color: var(--vscode-badge-foreground);
+        }
+        .token-count {
+          color: var(--vscode-descriptionForeground);
+        }
+        .repo-group {
+          margin-bottom: 8px;
+        }
+        .setup-state {
+          padding: 10px 0;
+        }
+        .setup-hint {
+          color: var(--vscode-descriptionForeground);
+        }
+        .repo-name {
+          font-weight: bold;
+          margin-bottom: 4px;
+        }
+        .history {
+          margin-top: 20px;
+        }
+        .history summary {
+          font-weight: bold;
+          cursor: pointer;
+          margin-bottom: 8px;
+        }
+        .history-repo {
+          margin-bottom: 12px;
+        }
+        .history-entry {
+          border: 1px solid var(--vscode-input-border);
+          padding: 6px;
+          margin-bottom: 8px;
+        }
+        .history-meta {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+          color: var(--vscode-descriptionForeground);
+        }
+        .history-message {
+          white-space: pre-wrap;
+          margin: 6px 0 0;
+        }
+        .review {
+          margin-bottom: 20px;
+        }
+        .review-findings {
+          padding-left: 0;
+          list-style: none;
+        }
+        .review-finding {
+          border-left: 3px solid;
+          padding: 4px 6px;
+          margin-bottom: 6px;
+        }
+        .review-finding.severity-error {
+          border-color: var(--vscode-errorForeground);
+        }
+        .review-finding.severity-warning {
+          border-color: var(--vscode-editorWarning-foreground);
+        }
+        .review-finding.severity-info {
+          border-color: var(--vscode-editorInfo-foreground);
+        }
+        .review-open {
+          color: var(--vscode-textLink-foreground);
+        }
+        .reword {
+          margin-bottom: 20px;
+        }
+        .reword-warning {
+          color: var(--vscode-editorWarning-foreground);
+        }
+        .reword-compare {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 8px;
+        }
+        .reword-old {
+          white-space: pre-wrap;
+          margin: 0;
+          padding: 8px;
+          border: 1px solid var(--vscode-input-border);
+          color: var(--vscode-descriptionForeground);
+        }
+        .reword-message {
+          box-sizing: border-box;
+          height: 100px;
+        }
+        .pull-request {
+          margin-bottom: 20px;
+        }
+        .pr-label {
+          display: block;
+          margin: 8px 0 4px;
+        }
+        #pr-title {
+          width: 100%;
+          box-sizing: border-box;
+          padding: 4px 8px;
+          background-color: var(--vscode-input-background);
+          color: var(--vscode-input-foreground);
+          border: 1px solid var(--vscode-input-border);
+        }
+        .pr-body {
+          height: 240px;
+        }
+        .pr-command {
+          white-space: pre-wrap;
+          word-break: break-all;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        ${VIEW_SECTIONS.map(section => html`<div id="section-${section}">${sections[section]}</div>`)}
+      </div>
+      <script nonce="${nonce}" src="${scriptUri}"></script>
     </body>
-    </html>`;
+    </html>`.toString();
   }
 
   private async _applyCommitMessage(message: string) {
     try {
-      // Get Git extension
-      const gitExtension = vscode.extensions.getExtension('vscode.git');
-      if (!gitExtension) {
-        throw new Error('Git extension not found');
-      }
+      const git = getGitApi();
       
-      const git = gitExtension.exports.getAPI(1);
-      const repo = git.repositories[0];
+      // 메시지를 생성한 파일이 속한 저장소를 대상으로 하고, 알 수 없으면 유일한 저장소를 사용
+      const targetRepoRoots = this._round?.targetRepoRoots ?? [];
+      const repos = targetRepoRoots.length > 0
+        ? targetRepoRoots
+          .map(root => getRepositoryByRoot(git, vscode.Uri.file(root)))
+          .filter((repo: any) => !!repo)
+        : git.repositories.slice(0, 1);
       
-      if (!repo) {
+      if (repos.length === 0) {
         throw new Error('No Git repository found');
       }
       
       // Set commit message in SCM input box
-      repo.inputBox.value = message;
+      for (const repo of repos) {
+        repo.inputBox.value = message;
+      }
+      await this._recordFinalMessage(repos.map((repo: any) => repo.rootUri.fsPath), message);
       
-      vscode.window.showInformationMessage('커밋 메시지가 적용되었습니다. Git 인터페이스에서 확인하세요.');
+      const names = repos.map(getRepositoryName).join(', ');
+      vscode.window.showInformationMessage(vscode.l10n.t('Applied the commit message ({0}). Check it in the Source Control view.', names));
     } catch (error: any) {
-      vscode.window.showErrorMessage(`커밋 메시지 적용 중 오류가 발생했습니다: ${error.message}`);
+      vscode.window.showErrorMessage(vscode.l10n.t('Failed to apply the commit message: {0}', error.message));
       console.error('Error applying commit message:', error);
     }
   }
 
+  private async _commitSelectedFiles(message: string, selectedFiles: string[], options: CommitActionOptions) {
+    if (this._committing) {
+      return;
+    }
+
+    if (!message.trim()) {
+      this._actionStatus = { kind: 'error', text: vscode.l10n.t('The commit message is empty.') };
+      this._updateWebview();
+      return;
+    }
+    // 파일이 없는 amend는 현재 결과의 저장소가 있어야 대상을 정할 수 있음
+    if (selectedFiles.length === 0 && !(options.amend && this._round?.targetRepoRoots.length)) {
+      this._actionStatus = { kind: 'error', text: vscode.l10n.t('Select the files to commit.') };
+      this._updateWebview();
+      return;
+    }
+
+    this._committing = true;
+    this._actionStatus = undefined;
+    this._updateWebview();
+
+    const results: string[] = [];
+    let failed = false;
+    try {
+      const git = getGitApi();
+      // 파일이 없는 amend는 메시지만 바꾸므로 현재 결과의 저장소를 대상으로 함
+      const groups = selectedFiles.length > 0
+        ? groupByRepository(git, selectedFiles)
+        : new Map((this._round?.targetRepoRoots ?? []).map(root => [getRepositoryByRoot(git, vscode.Uri.file(root)), [] as string[]]));
+
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.SourceControl, title: vscode.l10n.t('Committing...') },
+        async () => {
+          for (const [repo, files] of groups) {
+            if (!repo) {
+              continue;
+            }
+            const name = getRepositoryName(repo);
+            try {
+              // 일부 헝크를 뺀 파일은 선택한 헝크만 스테이징
+              const partialFiles = this._changedFiles.filter(file => files.includes(file.path) && file.excludedHunks.size > 0);
+              await stageExactly(repo, files, this._diffSource, partialFiles.map(file => file.path));
+              for (const file of partialFiles) {
+                await this._stageHunks(file);
+              }
+              await commitAndPush(repo, message, options);
+              await this._recordFinalMessage([repo.rootUri.fsPath], message);
+              results.push(`${name}: ${options.push ? vscode.l10n.t('Committed and pushed') : vscode.l10n.t('Committed')}`);
+            } catch (error: any) {
+              failed = true;
+              console.error(`Error committing in ${name}:`, error);
+              results.push(`${name}: ${describeGitError(error)}`);
+            }
+          }
+        }
+      );
+    } catch (error: any) {
+      failed = true;
+      results.push(error.message);
+      console.error('Error committing selected files:', error);
+    } finally {
+      this._committing = false;
+    }
+
+    this._actionStatus = { kind: failed ? 'error' : 'success', text: results.join('\n') };
+    if (failed) {
+      vscode.window.showErrorMessage(vscode.l10n.t('The commit failed. See the AI Commit view for details.'));
+    }
+    // 파일 목록 새로고침은 목록 영역만 바꾸므로 커밋 결과는 먼저 표시
+    this._updateWebview();
+    await this._loadChangedFiles();
+  }
+
   private async _regenerateCommitMessage() {
     try {
-      vscode.window.showInformationMessage('커밋 메시지를 재생성 중입니다...');
-      await vscode.commands.executeCommand('commit-with-ai.generateCommitMessage');
+      // 현재 결과와 같은 파일로 새 후보를 만들고, 이전 후보는 기록에 남김
+      const filePaths = this._round?.filePaths ?? [];
+      if (filePaths.length === 0) {
+        await vscode.commands.executeCommand('commit-with-ai.generateCommitMessage');
+        return;
+      }
+      await this._generateCommitWithSelectedFiles(filePaths);
     } catch (error: any) {
-      vscode.window.showErrorMessage(`커밋 메시지 재생성 중 오류가 발생했습니다: ${error.message}`);
+      vscode.window.showErrorMessage(vscode.l10n.t('Failed to regenerate the commit message: {0}', error.message));
       console.error('Error regenerating commit message:', error);
     }
   }
 
+  /**
+   * 선택된 파일로 커밋 메시지를 생성하고 웹뷰에 스트리밍합니다.
+   * @param selectedFiles 절대 파일 경로 목록
+   */
+  public async generateWithSelectedFiles(selectedFiles: string[]): Promise<void> {
+    await this._generateCommitWithSelectedFiles(selectedFiles);
+  }
+
   private async _generateCommitWithSelectedFiles(selectedFiles: string[]) {
+    if (this._abortController) {
+      vscode.window.showWarningMessage(vscode.l10n.t('A commit message is already being generated.'));
+      return;
+    }
+
     try {
       if (!this.provider) {
-        throw new Error('AiCommitProvider가 등록되지 않았습니다.');
+        throw new Error('AiCommitProvider is not registered.');
       }
 
       if (selectedFiles.length === 0) {
-        vscode.window.showWarningMessage('선택된 파일이 없습니다. 파일을 선택해주세요.');
+        vscode.window.showWarningMessage(vscode.l10n.t('No files are selected. Please select files.'));
+        return;
+      }
+
+      // 공급자를 사용할 수 없으면 오류 대신 설정 안내 화면을 표시
+      if (await this.provider.getSetupIssue()) {
+        this._updateWebview();
         return;
       }
 
-      vscode.window.showInformationMessage('선택한 파일로 커밋 메시지를 생성 중입니다...');
-      
       // 선택된 파일의 diff 내용 가져오기
-      const diffContent = await this.provider.getChangesDiff(selectedFiles);
+      const fileDiffs = await this.provider.getFileDiffs(selectedFiles, this._diffSource, this._getExcludedHunks());
       
-      // AI로 커밋 메시지 생성
-      const commitMessage = await this.provider.generateCommitMessage(diffContent);
-      
-      // 결과 업데이트
-      this.updateContent(commitMessage, diffContent);
+      if (fileDiffs.length === 0) {
+        vscode.window.showWarningMessage(vscode.l10n.t('The selected files have no changes.'));
+        return;
+      }
+
+      const provider = this.provider;
+      const abortController = new AbortController();
+      this._abortController = abortController;
       
+      // 빈 후보 카드를 먼저 보여주고 토큰이 도착할 때마다 채움
+      this._actionStatus = undefined;
+      const count = readCandidateCount();
+      const round: CandidateRound = {
+        candidates: CANDIDATE_VARIANTS.slice(0, count).map(variant => ({ label: vscode.l10n.t(variant.label), message: '', warnings: [] })),
+        selected: 0,
+        filePaths: selectedFiles,
+        targetRepoRoots: this._getRepoRoots(selectedFiles),
+        diffContent: '',
+        preparedFiles: [],
+        redactions: fileDiffs.flatMap(file => file.redactions),
+        excludedFiles: fileDiffs.filter(file => file.excluded).map(file => file.path),
+      };
+      this._rounds.push(round);
+      this._roundIndex = this._rounds.length - 1;
+      this._updateWebview();
+
+      try {
+        // AI로 커밋 메시지 후보 생성
+        const generated = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: vscode.l10n.t('Generating AI commit message...'),
+            cancellable: true
+          },
+          async (progress, token) => {
+            token.onCancellationRequested(() => abortController.abort());
+
+            // 토큰 예산에 맞게 diff 축약 (필요하면 파일 묶음별로 먼저 요약)
+            progress.report({ message: vscode.l10n.t('Preparing changes...') });
+            const prepared = await provider.prepareDiff(fileDiffs, { signal: abortController.signal });
+            round.diffContent = prepared.content;
+            round.preparedFiles = prepared.files;
+            round.context = await provider.getPromptContext(selectedFiles);
+            this._updateWebview();
+
+            progress.report({ message: vscode.l10n.t('Writing the message...') });
+            return provider.generateCandidates(
+              round.diffContent,
+              count,
+              {
+                context: round.context,
+                signal: abortController.signal
+              },
+              (index, text) => {
+                const candidate = round.candidates[index];
+                candidate.message += text;
+                this._postMessage({ command: 'streamToken', index, text: candidate.message });
+              }
+            );
+          }
+        );
+        
+        // 결과 업데이트
+        round.candidates = generated.map((result, index) => ({
+          label: round.candidates[index].label,
+          message: result.message,
+          warnings: result.warnings
+        }));
+        if (!generated[0].fallback) {
+          await this._recordHistory(round, generated);
+        }
+      } catch (error) {
+        if (!(error instanceof vscode.CancellationError)) {
+          this._discardEmptyRound(round);
+          throw error;
+        }
+        // 취소 시 지금까지 받은 내용은 편집할 수 있도록 남겨둠
+        round.candidates = round.candidates.filter(candidate => candidate.message.trim() !== '');
+        round.selected = 0;
+        this._discardEmptyRound(round);
+        vscode.window.showInformationMessage(vscode.l10n.t('Stopped generating the commit message.'));
+      }
     } catch (error: any) {
-      vscode.window.showErrorMessage(`커밋 메시지 생성 중 오류가 발생했습니다: ${error.message}`);
+      vscode.window.showErrorMessage(vscode.l10n.t('Failed to generate the commit message: {0}', error.message));
       console.error('Error generating commit message with selected files:', error);
+    } finally {
+      this._abortController = undefined;
+      this._updateWebview();
+    }
+  }
+
+  // 받은 내용이 하나도 없는 생성 결과는 기록에서 제거
+  private _discardEmptyRound(round: CandidateRound) {
+    if (round.candidates.some(candidate => candidate.message.trim() !== '')) {
+      return;
     }
+    this._rounds = this._rounds.filter(item => item !== round);
+    this._roundIndex = this._rounds.length - 1;
+  }
+
+  private _editCandidate(index: number, message: string) {
+    const candidate = this._round?.candidates[index];
+    if (!this.provider || !candidate) {
+      return;
+    }
+    candidate.message = message;
+    candidate.warnings = this.provider.lintMessage(message, this._round!.targetRepoRoots[0]);
+    this._postMessage({ command: 'lintResult', index, warnings: candidate.warnings });
+  }
+
+  private async _planCommits(selectedFiles: string[]) {
+    if (this._abortController) {
+      vscode.window.showWarningMessage(vscode.l10n.t('A commit message is already being generated.'));
+      return;
+    }
+
+    try {
+      if (!this.provider) {
+        throw new Error('AiCommitProvider is not registered.');
+      }
+      if (selectedFiles.length === 0) {
+        vscode.window.showWarningMessage(vscode.l10n.t('No files are selected. Please select files.'));
+        return;
+      }
+
+      // 계획은 순서대로 커밋되므로 한 저장소의 파일만 나눔
+      const repos = [...groupByRepository(getGitApi(), selectedFiles).keys()];
+      if (repos.length !== 1) {
+        vscode.window.showWarningMessage(vscode.l10n.t('Commit splitting only works with files from one repository.'));
+        return;
+      }
+
+      if (await this.provider.getSetupIssue()) {
+        this._updateWebview();
+        return;
+      }
+
+      // 커밋할 때도 같은 헝크만 스테이징하도록 계획을 만들 때의 선택을 남겨 둠
+      const source = this._diffSource;
+      const excludedHunks = new Map([...this._getExcludedHunks()]
+        .filter(([file]) => selectedFiles.includes(file))
+        .map(([file, hunks]) => [file, new Set(hunks)]));
+      const fileDiffs = await this.provider.getFileDiffs(selectedFiles, source, excludedHunks);
+      if (fileDiffs.length === 0) {
+        vscode.window.showWarningMessage(vscode.l10n.t('The selected files have no changes.'));
+        return;
+      }
+
+      const provider = this.provider;
+      const abortController = new AbortController();
+      this._abortController = abortController;
+
+      // 모델에는 diff와 같은 표시 경로를 보여주고 결과를 절대 경로로 되돌림 (헝크를 모두 뺀 파일은 나누지 않음)
+      const displayPaths = new Set(fileDiffs.map(fileDiff => fileDiff.path));
+      const absolutePaths = new Map(selectedFiles
+        .map(file => [vscode.workspace.asRelativePath(file), file] as const)
+        .filter(([displayPath]) => displayPaths.has(displayPath)));
+      const planned = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: vscode.l10n.t('Planning AI commit split...'),
+          cancellable: true
+        },
+        async (progress, token) => {
+          token.onCancellationRequested(() => abortController.abort());
+          progress.report({ message: vscode.l10n.t('Preparing changes...') });
+          const prepared = await provider.prepareDiff(fileDiffs, { signal: abortController.signal });
+          const context = await provider.getPromptContext(selectedFiles);
+          progress.report({ message: vscode.l10n.t('Splitting into commits...') });
+          return provider.planCommits(prepared.content, [...absolutePaths.keys()], { context, signal: abortController.signal });
+        }
+      );
+
+      this._actionStatus = undefined;
+      this._plan = {
+        repoRoot: repos[0].rootUri.fsPath,
+        groups: planned.map(group => ({ ...group, files: group.files.map(file => absolutePaths.get(file) ?? file) })),
+        source,
+        excludedHunks,
+      };
+    } catch (error: any) {
+      if (error instanceof vscode.CancellationError) {
+        vscode.window.showInformationMessage(vscode.l10n.t('Stopped planning the commit split.'));
+      } else {
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to plan the commit split: {0}', error.message));
+        console.error('Error planning commits:', error);
+      }
+    } finally {
+      this._abortController = undefined;
+      this._updateWebview();
+    }
+  }
+
+  private async _reviewChanges(selectedFiles: string[]) {
+    if (this._abortController) {
+      vscode.window.showWarningMessage(vscode.l10n.t('A commit message is already being generated.'));
+      return;
+    }
+
+    try {
+      if (!this.provider) {
+        throw new Error('AiCommitProvider is not registered.');
+      }
+      if (selectedFiles.length === 0) {
+        vscode.window.showWarningMessage(vscode.l10n.t('No files are selected. Please select files.'));
+        return;
+      }
+      if (await this.provider.getSetupIssue()) {
+        this._updateWebview();
+        return;
+      }
+
+      const fileDiffs = await this.provider.getFileDiffs(selectedFiles, this._diffSource, this._getExcludedHunks());
+      if (fileDiffs.length === 0) {
+        vscode.window.showWarningMessage(vscode.l10n.t('The selected files have no changes.'));
+        return;
+      }
+
+      const provider = this.provider;
+      const abortController = new AbortController();
+      this._abortController = abortController;
+
+      // 모델에는 diff와 같은 표시 경로를 보여주고 결과를 절대 경로로 되돌림
+      const absolutePaths = new Map(selectedFiles.map(file => [vscode.workspace.asRelativePath(file), file]));
+      const result = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: vscode.l10n.t('Reviewing changes with AI...'),
+          cancellable: true
+        },
+        async (progress, token) => {
+          token.onCancellationRequested(() => abortController.abort());
+          progress.report({ message: vscode.l10n.t('Preparing changes...') });
+          const context = await provider.getPromptContext(selectedFiles);
+          return provider.reviewChanges(fileDiffs, { context, signal: abortController.signal });
+        }
+      );
+
+      this._review = {
+        summary: result.summary,
+        fileCount: fileDiffs.length,
+        findings: result.findings.map(finding => ({ ...finding, path: absolutePaths.get(finding.file) ?? finding.file })),
+      };
+      this._showReviewDiagnostics(this._review);
+    } catch (error: any) {
+      if (error instanceof vscode.CancellationError) {
+        vscode.window.showInformationMessage(vscode.l10n.t('Stopped reviewing the changes.'));
+      } else {
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to review the changes: {0}', error.message));
+        console.error('Error reviewing changes:', error);
+      }
+    } finally {
+      this._abortController = undefined;
+      this._updateWebview();
+    }
+  }
+
+  // 이전 검토의 진단은 지우고 이번 지적만 파일별로 표시 (줄이 없는 지적은 첫 줄에)
+  private _showReviewDiagnostics(review: ReviewReport) {
+    this._reviewDiagnostics.clear();
+    const diagnostics = new Map<string, vscode.Diagnostic[]>();
+    for (const finding of review.findings) {
+      const line = (finding.line ?? 1) - 1;
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+        finding.message,
+        REVIEW_SEVERITIES[finding.severity]
+      );
+      diagnostic.source = vscode.l10n.t('AI Review');
+      diagnostic.code = REVIEW_CATEGORY_LABELS[finding.category];
+      diagnostics.set(finding.path, [...diagnostics.get(finding.path) ?? [], diagnostic]);
+    }
+    for (const [filePath, fileDiagnostics] of diagnostics) {
+      this._reviewDiagnostics.set(vscode.Uri.file(filePath), fileDiagnostics);
+    }
+  }
+
+  private async _openReviewFinding(index: number) {
+    const finding = this._review?.findings[index];
+    if (!finding) {
+      return;
+    }
+
+    try {
+      const position = new vscode.Position((finding.line ?? 1) - 1, 0);
+      await vscode.window.showTextDocument(vscode.Uri.file(finding.path), { selection: new vscode.Range(position, position) });
+    } catch (error: any) {
+      console.error(`Error opening ${finding.path}:`, error);
+      vscode.window.showErrorMessage(vscode.l10n.t('Failed to open the file: {0}', error.message));
+    }
+  }
+
+  private _movePlanFile(file: string, target: number) {
+    const plan = this._plan;
+    if (!plan || plan.groups[target]?.committed || plan.groups.some(group => group.committed && group.files.includes(file))) {
+      return;
+    }
+    plan.groups = moveFileToGroup(plan.groups, file, target)
+      .map(group => ({ warnings: [], ...group }));
+    this._updateWebview();
+  }
+
+  private _editPlanMessage(index: number, message: string) {
+    const group = this._plan?.groups[index];
+    if (!this.provider || !group || group.committed) {
+      return;
+    }
+    group.message = message;
+    group.warnings = this.provider.lintMessage(message, this._plan!.repoRoot);
+    this._postMessage({ command: 'planLintResult', index, warnings: group.warnings });
+  }
+
+  // 계획의 남은 커밋을 순서대로 실행하고, 실패하면 그 지점에서 멈춤
+  private async _commitPlan() {
+    const plan = this._plan;
+    if (!plan || this._committing) {
+      return;
+    }
+
+    const pending = plan.groups.filter(group => !group.committed);
+    if (pending.some(group => !group.message.trim())) {
+      this._actionStatus = { kind: 'error', text: vscode.l10n.t('Some commits have an empty message.') };
+      this._updateWebview();
+      return;
+    }
+
+    this._committing = true;
+    this._actionStatus = undefined;
+    this._updateWebview();
+
+    try {
+      const repo = getRepositoryByRoot(getGitApi(), vscode.Uri.file(plan.repoRoot));
+      if (!repo) {
+        throw new Error('No Git repository found');
+      }
+
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.SourceControl, title: vscode.l10n.t('Committing the plan...') },
+        () => commitGroups(repo, pending, index => {
+          pending[index].committed = true;
+        }, {
+          files: [...plan.excludedHunks.keys()],
+          stage: file => stageHunks(
+            getGitApi().git.path,
+            plan.repoRoot,
+            path.relative(plan.repoRoot, file).split(path.sep).join('/'),
+            plan.source,
+            plan.excludedHunks.get(file)!
+          ),
+        })
+      );
+
+      this._actionStatus = { kind: 'success', text: vscode.l10n.t('Created {0} commits.', pending.length) };
+      this._plan = undefined;
+    } catch (error: any) {
+      const done = pending.filter(group => group.committed).length;
+      console.error('Error committing plan:', error);
+      this._actionStatus = {
+        kind: 'error',
+        text: `${vscode.l10n.t('Failed after {0}/{1} commits.', done, pending.length)}\n${describeGitError(error)}`
+      };
+      vscode.window.showErrorMessage(vscode.l10n.t('The commit failed. See the AI Commit view for details.'));
+    } finally {
+      this._committing = false;
+    }
+
+    this._updateWebview();
+    await this._loadChangedFiles();
+  }
+
+  /**
+   * 현재 브랜치의 커밋과 누적 diff로 PR 제목과 설명을 생성해 웹뷰에 표시합니다.
+   * @param target 소스 제어 또는 리소스 URI. 없으면 활성 편집기의 저장소나 사용자가 고른 저장소를 사용합니다.
+   */
+  public async generatePullRequest(target?: vscode.SourceControl | vscode.Uri): Promise<void> {
+    const repo = await resolveRepository(target, vscode.l10n.t('Select the repository to describe a pull request for'));
+    if (repo) {
+      await this._generatePullRequest(repo.rootUri.fsPath);
+    }
+  }
+
+  private async _generatePullRequest(repoRoot: string) {
+    if (this._abortController) {
+      vscode.window.showWarningMessage(vscode.l10n.t('A commit message is already being generated.'));
+      return;
+    }
+
+    try {
+      if (!this.provider) {
+        throw new Error('AiCommitProvider is not registered.');
+      }
+      if (await this.provider.getSetupIssue()) {
+        this._updateWebview();
+        return;
+      }
+
+      const provider = this.provider;
+      const branch: string | undefined = getRepositoryByRoot(getGitApi(), vscode.Uri.file(repoRoot))?.state.HEAD?.name;
+      const changes = await provider.getBranchChanges(repoRoot);
+      if (changes.commits.length === 0) {
+        vscode.window.showWarningMessage(vscode.l10n.t('There are no commits on {0} that are not on {1}.', branch ?? 'HEAD', changes.target));
+        return;
+      }
+
+      const abortController = new AbortController();
+      this._abortController = abortController;
+      const pullRequest = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: vscode.l10n.t('Generating PR description ({0} commits)...', changes.commits.length),
+          cancellable: true
+        },
+        (_progress, token) => {
+          token.onCancellationRequested(() => abortController.abort());
+          return provider.generatePullRequest(repoRoot, changes, branch, { signal: abortController.signal });
+        }
+      );
+
+      this._pullRequest = {
+        ...pullRequest,
+        repoRoot,
+        branch,
+        target: changes.target,
+        commitCount: changes.commits.length,
+        fileCount: changes.files.length,
+      };
+
+      // 저장할 파일을 설정했으면 바로 써 둠 (gh pr create --body-file)
+      if (vscode.workspace.getConfiguration('commitWithAi').get<string>('pullRequestBodyFile')) {
+        await this._savePullRequestBody();
+      }
+    } catch (error: any) {
+      if (error instanceof vscode.CancellationError) {
+        vscode.window.showInformationMessage(vscode.l10n.t('Stopped generating the PR description.'));
+      } else {
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to generate the PR description: {0}', error.message));
+        console.error('Error generating pull request description:', error);
+      }
+    } finally {
+      this._abortController = undefined;
+      this._updateWebview();
+    }
+  }
+
+  private _editPullRequest(title: string | undefined, body: string | undefined) {
+    if (this._pullRequest && title !== undefined && body !== undefined) {
+      this._pullRequest.title = title;
+      this._pullRequest.body = body;
+    }
+  }
+
+  private async _copyPullRequest(text: string, notice: string) {
+    await vscode.env.clipboard.writeText(text);
+    vscode.window.showInformationMessage(notice);
+  }
+
+  // 설정한 파일이 없으면 저장 위치를 물어봄
+  private async _savePullRequestBody() {
+    const pullRequest = this._pullRequest;
+    if (!pullRequest) {
+      return;
+    }
+
+    const bodyFile = vscode.workspace.getConfiguration('commitWithAi').get<string>('pullRequestBodyFile');
+    const target = bodyFile
+      ? vscode.Uri.file(path.resolve(pullRequest.repoRoot, bodyFile))
+      : await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(pullRequest.savedTo ?? path.join(pullRequest.repoRoot, 'PULL_REQUEST.md')),
+        filters: { Markdown: ['md'] }
+      });
+    if (!target) {
+      return;
+    }
+
+    try {
+      await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(`${pullRequest.body}\n`));
+      pullRequest.savedTo = target.fsPath;
+      vscode.window.showInformationMessage(vscode.l10n.t('Saved the PR description to {0}.', target.fsPath));
+    } catch (error: any) {
+      vscode.window.showErrorMessage(vscode.l10n.t('Failed to save the PR description: {0}', error.message));
+      console.error('Error saving pull request description:', error);
+    }
+    this._updateWebview(['pullRequest']);
+  }
+
+  /**
+   * HEAD 커밋의 diff와 기존 메시지로 새 메시지를 생성해 웹뷰에서 승인받습니다.
+   * @param target 소스 제어 또는 리소스 URI. 없으면 활성 편집기의 저장소나 사용자가 고른 저장소를 사용합니다.
+   */
+  public async improveLastCommitMessage(target?: vscode.SourceControl | vscode.Uri): Promise<void> {
+    const repo = await resolveRepository(target, vscode.l10n.t('Select the repository whose last commit message to improve'));
+    if (repo) {
+      await this._generateReword(repo.rootUri.fsPath, 'HEAD');
+    }
+  }
+
+  /**
+   * 사용자가 고른 커밋부터 HEAD까지의 메시지를 새로 생성해 웹뷰에서 승인받습니다.
+   * @param target 소스 제어 또는 리소스 URI. 없으면 활성 편집기의 저장소나 사용자가 고른 저장소를 사용합니다.
+   */
+  public async rewordCommits(target?: vscode.SourceControl | vscode.Uri): Promise<void> {
+    const repo = await resolveRepository(target, vscode.l10n.t('Select the repository whose commits to reword'));
+    if (!repo || !this.provider) {
+      return;
+    }
+
+    const repoRoot: string = repo.rootUri.fsPath;
+    const commits = await this.provider.getRecentCommits(repoRoot, MAX_REWORD_PICK_ITEMS);
+    if (commits.length === 0) {
+      vscode.window.showWarningMessage(vscode.l10n.t('The repository has no commits.'));
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(commits.map(commit => ({
+      label: commit.subject,
+      description: commit.pushed ? `${commit.hash.slice(0, 7)} · ${vscode.l10n.t('pushed')}` : commit.hash.slice(0, 7),
+      hash: commit.hash,
+    })), { placeHolder: vscode.l10n.t('Select the oldest commit to reword. It and every commit after it are reworded.'), matchOnDescription: true });
+    if (picked) {
+      await this._generateReword(repoRoot, picked.hash);
+    }
+  }
+
+  private async _generateReword(repoRoot: string, oldest: string) {
+    if (this._abortController) {
+      vscode.window.showWarningMessage(vscode.l10n.t('A commit message is already being generated.'));
+      return;
+    }
+
+    try {
+      if (!this.provider) {
+        throw new Error('AiCommitProvider is not registered.');
+      }
+      if (await this.provider.getSetupIssue()) {
+        this._updateWebview();
+        return;
+      }
+
+      const provider = this.provider;
+      const range = await provider.getRewordRange(repoRoot, oldest);
+      if (!this._canRewritePushed(range)) {
+        return;
+      }
+
+      const abortController = new AbortController();
+      this._abortController = abortController;
+      const items = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: vscode.l10n.t('Rewording {0} commits...', range.commits.length),
+          cancellable: true
+        },
+        async (progress, token) => {
+          token.onCancellationRequested(() => abortController.abort());
+          const items: RewordItem[] = [];
+          for (const commit of range.commits) {
+            progress.report({ message: `${items.length + 1}/${range.commits.length} ${commit.subject}`, increment: 100 / range.commits.length });
+            const generated = await provider.generateReword(repoRoot, commit, { signal: abortController.signal });
+            // 모델이 실패하면(오류는 이미 표시됨) 남은 커밋은 기존 메시지로 둠
+            if (generated.fallback) {
+              break;
+            }
+            items.push({ commit, message: generated.message, warnings: generated.warnings, selected: true });
+          }
+          return [
+            ...items,
+            ...range.commits.slice(items.length).map(commit => ({
+              commit,
+              message: commit.body ? `${commit.subject}\n\n${commit.body}` : commit.subject,
+              warnings: [],
+              selected: false
+            })),
+          ];
+        }
+      );
+
+      this._reword = { repoRoot, range, items };
+    } catch (error: any) {
+      if (error instanceof vscode.CancellationError) {
+        vscode.window.showInformationMessage(vscode.l10n.t('Stopped rewording the commits.'));
+      } else {
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to reword the commits: {0}', error.message));
+        console.error('Error generating reworded commit messages:', error);
+      }
+    } finally {
+      this._abortController = undefined;
+      this._updateWebview();
+    }
+  }
+
+  // 이미 푸시한 커밋은 설정으로 허용했을 때만 다시 씀
+  private _canRewritePushed(range: RewordRange): boolean {
+    const pushed = range.commits.filter(commit => commit.pushed).length;
+    if (pushed > 0 && !vscode.workspace.getConfiguration('commitWithAi').get<boolean>('allowRewordingPushedCommits')) {
+      vscode.window.showErrorMessage(vscode.l10n.t('{0} of the commits are already pushed and will not be reworded. Enable the "commitWithAi.allowRewordingPushedCommits" setting to allow it.', pushed));
+      return false;
+    }
+    return true;
+  }
+
+  // 승인한 메시지로 커밋을 다시 쓰고 HEAD를 옮김 (푸시한 커밋이 있으면 한 번 더 확인)
+  private async _applyReword() {
+    const reword = this._reword;
+    if (!reword || !this.provider || this._committing) {
+      return;
+    }
+
+    const messages = new Map(reword.items
+      .filter(item => item.selected && item.message.trim())
+      .map(item => [item.commit.hash, item.message.trim()]));
+    if (messages.size === 0) {
+      vscode.window.showWarningMessage(vscode.l10n.t('Select at least one commit to reword.'));
+      return;
+    }
+    if (!this._canRewritePushed(reword.range)) {
+      return;
+    }
+    const pushed = reword.range.commits.filter(commit => commit.pushed).length;
+    if (pushed > 0) {
+      const rewrite = vscode.l10n.t('Reword');
+      const confirmed = await vscode.window.showWarningMessage(
+        vscode.l10n.t('{0} pushed commits will be rewritten. The branch will need a force push.', pushed),
+        { modal: true },
+        rewrite
+      );
+      if (confirmed !== rewrite) {
+        return;
+      }
+    }
+
+    this._committing = true;
+    this._updateWebview(['reword']);
+    try {
+      await this.provider.rewordCommits(reword.repoRoot, reword.range, messages);
+      this._reword = undefined;
+      vscode.window.showInformationMessage(vscode.l10n.t('Reworded {0} commits.', messages.size));
+      await getRepositoryByRoot(getGitApi(), vscode.Uri.file(reword.repoRoot))?.status();
+    } catch (error: any) {
+      console.error('Error rewording commits:', error);
+      vscode.window.showErrorMessage(vscode.l10n.t('Failed to reword the commits: {0}', describeGitError(error)));
+    } finally {
+      this._committing = false;
+    }
+    this._updateWebview(['reword']);
+  }
+
+  private _stopGeneration() {
+    this._abortController?.abort();
   }
 }
@@ -0,0 +1,413 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Commit message style preset
+ * - conventional: `<type>[scope]: <description>` (Conventional Commits)
+ * - gitmoji: `<gitmoji> <description>`
+ * - plain: imperative subject line without type or emoji
+ * - custom: only the user's prompt template
+ */
+export type CommitStyle = 'conventional' | 'gitmoji' | 'plain' | 'custom';
+
+/**
+ * How emojis are added to the subject
+ * - off: no emoji (existing ones are stripped)
+ * - unicode: GitHub-style unicode emoji
+ * - gitmoji: emoji from the gitmoji set
+ * - shortcode: gitmoji written as `:shortcode:`
+ */
+export type EmojiMode = 'off' | 'unicode' | 'gitmoji' | 'shortcode';
+
+export interface CommitConventions {
+  style: CommitStyle;
+  emoji: EmojiMode;
+  /** Prompt template with `{placeholders}`. Empty means the style preset's template. */
+  prompt: string;
+  subjectMaxLength: number;
+  /** Maximum length of body lines; longer lines are wrapped */
+  bodyMaxLineLength: number;
+  /** Allowed commit types and their descriptions */
+  types: Record<string, string>;
+  /** Additional instructions appended to the prompt */
+  rules: string[];
+  /** Language of the description and body: a code from `MESSAGE_LANGUAGES`, a language name, or `auto` */
+  language: string;
+}
+
+/**
+ * Values substituted into the prompt template
+ */
+export interface PromptVariables {
+  diff: string;
+  branch?: string;
+  files?: string[];
+  /** Overrides the language of the conventions */
+  language?: string;
+  /** Ticket IDs taken from the branch name */
+  tickets?: string[];
+  /** Subjects of recent commits, used as style examples */
+  recentCommits?: string[];
+  /** Package or workspace names touched by the change, used as scope hints */
+  scopes?: string[];
+  /** Current message of a commit being reworded */
+  previousMessage?: string;
+}
+
+/**
+ * Team configuration file in the repository root
+ */
+export const CONFIG_FILE_NAME = '.commitwithai.json';
+
+export const DEFAULT_TYPES: Record<string, string> = {
+  feat: 'A new feature',
+  fix: 'A bug fix',
+  docs: 'Documentation changes',
+  style: 'Code style changes (formatting, missing semi colons, etc)',
+  refactor: 'Code changes that neither fix bugs nor add features',
+  perf: 'Performance improvements',
+  test: 'Adding or updating tests',
+  chore: 'Changes to the build process, tooling, etc',
+  build: 'Changes to the build system or dependencies',
+  ci: 'Changes to CI configuration',
+};
+
+export const DEFAULT_CONVENTIONS: CommitConventions = {
+  style: 'conventional',
+  emoji: 'unicode',
+  prompt: '',
+  subjectMaxLength: 72,
+  bodyMaxLineLength: 100,
+  types: DEFAULT_TYPES,
+  rules: [],
+  language: 'auto',
+};
+
+/**
+ * Languages offered by the `messageLanguage` setting, by VS Code locale code
+ */
+export const MESSAGE_LANGUAGES: Record<string, string> = {
+  'en': 'English',
+  'ko': 'Korean',
+  'ja': 'Japanese',
+  'zh-cn': 'Simplified Chinese',
+  'zh-tw': 'Traditional Chinese',
+  'de': 'German',
+  'fr': 'French',
+  'es': 'Spanish',
+  'pt-br': 'Brazilian Portuguese',
+  'ru': 'Russian',
+  'vi': 'Vietnamese',
+};
+
+// 커밋 타입별 GitHub 이모지
+const UNICODE_EMOJI: Record<string, string> = {
+  feat: '✨',
+  fix: '🐛',
+  docs: '📚',
+  style: '💄',
+  refactor: '♻️',
+  perf: '⚡',
+  test: '✅',
+  chore: '🔧',
+  build: '🏗️',
+  ci: '🔄',
+};
+
+// 커밋 타입별 gitmoji와 단축 코드
+const GITMOJI: Record<string, { emoji: string, code: string }> = {
+  feat: { emoji: '✨', code: ':sparkles:' },
+  fix: { emoji: '🐛', code: ':bug:' },
+  docs: { emoji: '📝', code: ':memo:' },
+  style: { emoji: '🎨', code: ':art:' },
+  refactor: { emoji: '♻️', code: ':recycle:' },
+  perf: { emoji: '⚡️', code: ':zap:' },
+  test: { emoji: '✅', code: ':white_check_mark:' },
+  chore: { emoji: '🔧', code: ':wrench:' },
+  build: { emoji: '👷', code: ':construction_worker:' },
+  ci: { emoji: '💚', code: ':green_heart:' },
+};
+
+const LEADING_EMOJI = /^(?:\p{Extended_Pictographic}️?|:[a-z0-9_+-]+:)\s*/u;
+
+const CONVENTIONAL_TEMPLATE = `
+You are a helpful assistant that generates concise and informative Git commit messages based on code changes.
+Analyze the following git diff and create a commit message that follows the Conventional Commits format.
+
+The format should be:
+<type>[optional scope]: <description>
+
+[optional body]
+
+Where type is one of:
+{types}
+
+{emoji}
+Keep the subject line within {subjectMaxLength} characters.
+Write the description and body in {language}, but keep the type keyword in English.
+{rules}
+{context}Changed files:
+{files}
+
+Here is the diff:
+\`\`\`
+{diff}
+\`\`\`
+
+Generate a concise and informative commit message based on these changes.
+`;
+
+const GITMOJI_TEMPLATE = `
+You are a helpful assistant that generates concise and informative Git commit messages based on code changes.
+Analyze the following git diff and create a commit message in the gitmoji format.
+
+The format should be:
+<gitmoji> <description>
+
+[optional body]
+
+Where gitmoji is the one that best describes the change, for example:
+{gitmojis}
+
+Keep the subject line within {subjectMaxLength} characters.
+Write the description and body in {language}.
+{rules}
+{context}Changed files:
+{files}
+
+Here is the diff:
+\`\`\`
+{diff}
+\`\`\`
+
+Generate a concise and informative commit message based on these changes.
+`;
+
+const PLAIN_TEMPLATE = `
+You are a helpful assistant that generates concise and informative Git commit messages based on code changes.
+Analyze the following git diff and write a commit message.
+
+The format should be:
+<subject>
+
+[optional body]
+
+Write the subject in the imperative mood ("Add", "Fix", "Remove"), starting with a capital letter and without a trailing period.
+Do not add a type prefix or emoji.
+Keep the subject line within {subjectMaxLength} characters.
+Write the message in {language}.
+{rules}
+{context}Changed files:
+{files}
+
+Here is the diff:
+\`\`\`
+{diff}
+\`\`\`
+
+Generate a concise and informative commit message based on these changes.
+`;
+
+const PRESET_TEMPLATES: Record<Exclude<CommitStyle, 'custom'>, string> = {
+  conventional: CONVENTIONAL_TEMPLATE,
+  gitmoji: GITMOJI_TEMPLATE,
+  plain: PLAIN_TEMPLATE,
+};
+
+/**
+ * Read the team configuration file from a repository root
+ * @param repoRoot Repository root path
+ * @returns Parsed configuration, or an empty object if the file does not exist
+ * @throws Error if the file exists but is not valid JSON
+ */
+export function readConfigFile(repoRoot: string): Record<string, any> {
+  const filePath = path.join(repoRoot, CONFIG_FILE_NAME);
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+
+  try {
+    const config = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return config && typeof config === 'object' ? config : {};
+  } catch (error: any) {
+    throw new Error(`Invalid ${CONFIG_FILE_NAME}: ${error.message}`);
+  }
+}
+
+/**
+ * Merge conventions from defaults, user settings and the repository config file (highest priority)
+ * @param settings Conventions from user settings
+ * @param fileConfig Contents of `.commitwithai.json`
+ */
+export function resolveConventions(settings: Partial<CommitConventions>, fileConfig: Record<string, any> = {}): CommitConventions {
+  const pick = <K extends keyof CommitConventions>(key: K): CommitConventions[K] | undefined => {
+    const fromFile = fileConfig[key];
+    if (fromFile !== undefined && fromFile !== null && fromFile !== '') {
+      return fromFile;
+    }
+    const fromSettings = settings[key];
+    return fromSettings === '' ? undefined : fromSettings;
+  };
+
+  const types = pick('types');
+  return {
+    style: pick('style') ?? DEFAULT_CONVENTIONS.style,
+    emoji: pick('emoji') ?? (pick('style') === 'gitmoji' ? 'gitmoji' : DEFAULT_CONVENTIONS.emoji),
+    prompt: pick('prompt') ?? '',
+    subjectMaxLength: pick('subjectMaxLength') ?? DEFAULT_CONVENTIONS.subjectMaxLength,
+    bodyMaxLineLength: pick('bodyMaxLineLength') ?? DEFAULT_CONVENTIONS.bodyMaxLineLength,
+    types: types && Object.keys(types).length > 0 ? types : DEFAULT_TYPES,
+    rules: pick('rules') ?? [],
+    language: pick('language') ?? DEFAULT_CONVENTIONS.language,
+  };
+}
+
+/**
+ * Name of a message language for the prompt
+ * @param language Locale code (`ko`, `ko-KR`, `pt-br`), a language name, or `auto` (English when unresolved)
+ */
+export function languageName(language: string): string {
+  const code = language.toLowerCase().replace('_', '-');
+  if (!code || code === 'auto') {
+    return MESSAGE_LANGUAGES.en;
+  }
+  return MESSAGE_LANGUAGES[code] ?? MESSAGE_LANGUAGES[code.split('-')[0]] ?? language;
+}
+
+/**
+ * Build the prompt from the style preset or the custom template.
+ * Supported placeholders: {diff}, {branch}, {files}, {language}, {types}, {emoji}, {gitmojis},
+ * {subjectMaxLength}, {rules}, {tickets}, {scopes}, {recentCommits}, {previousMessage} and {context} (the
+ * repository context section of the presets). Unknown placeholders are left untouched.
+ * @param conventions Resolved conventions
+ * @param variables Values for the placeholders
+ * @throws Error if the custom style is selected without a prompt template
+ */
+export function buildPrompt(conventions: CommitConventions, variables: PromptVariables): string {
+  let template = conventions.prompt;
+  if (!template) {
+    if (conventions.style === 'custom') {
+      throw new Error('The custom commit style requires a prompt template.');
+    }
+    template = PRESET_TEMPLATES[conventions.style];
+  }
+
+  const values: Record<string, string> = {
+    diff: variables.diff,
+    branch: variables.branch || '(unknown)',
+    files: (variables.files ?? []).map(file => `- ${file}`).join('\n') || '(not available)',
+    language: languageName(variables.language || conventions.language),
+    types: Object.entries(conventions.types).map(([type, description]) => `- ${type}: ${description}`).join('\n'),
+    emoji: emojiInstructions(conventions),
+    gitmojis: Object.entries(GITMOJI).map(([type, { emoji, code }]) => `- ${emoji} (${code}) for ${type}`).join('\n'),
+    subjectMaxLength: String(conventions.subjectMaxLength),
+    rules: conventions.rules.map(rule => `- ${rule}`).join('\n'),
+    tickets: (variables.tickets ?? []).join(', '),
+    scopes: (variables.scopes ?? []).join(', '),
+    recentCommits: (variables.recentCommits ?? []).map(subject => `- ${subject}`).join('\n'),
+    previousMessage: variables.previousMessage ?? '',
+    context: formatRepositoryContext(variables),
+  };
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match);
+}
+
+/**
+ * Add, convert or strip the leading emoji according to the conventions
+ * @param message Commit message from the model
+ * @param conventions Resolved conventions
+ */
+export function applyEmoji(message: string, conventions: CommitConventions): string {
+  if (conventions.emoji === 'off') {
+    return message.replace(LEADING_EMOJI, '');
+  }
+
+  // gitmoji 스타일은 모델이 고른 이모지를 그대로 사용
+  if (conventions.style !== 'conventional') {
+    return message;
+  }
+
+  const body = message.replace(LEADING_EMOJI, '');
+  const typeMatch = body.match(/^(\w+)(\(.*?\))?!?:/);
+  const type = typeMatch ? typeMatch[1] : 'feat';
+
+  // 이미 이모지가 있고 변환이 필요 없는 경우
+  if (body !== message && conventions.emoji === 'unicode') {
+    return message;
+  }
+
+  return `${emojiFor(type, conventions.emoji)} ${body}`;
+}
+
+/**
+ * Message used when the model returns nothing or fails
+ * @param conventions Resolved conventions
+ */
+export function fallbackMessage(conventions: CommitConventions): string {
+  if (conventions.style === 'conventional') {
+    return applyEmoji('feat: implement requested changes', conventions);
+  }
+  if (conventions.style === 'gitmoji' && conventions.emoji !== 'off') {
+    return `${emojiFor('feat', conventions.emoji)} Implement requested changes`;
+  }
+  return 'Implement requested changes';
+}
+
+/**
+ * Remove a leading unicode emoji or `:shortcode:` from a subject
+ * @param subject Subject line
+ */
+export function stripLeadingEmoji(subject: string): string {
+  return subject.replace(LEADING_EMOJI, '');
+}
+
+function emojiFor(type: string, mode: EmojiMode): string {
+  switch (mode) {
+    case 'gitmoji':
+      return (GITMOJI[type] ?? GITMOJI.feat).emoji;
+    case 'shortcode':
+      return (GITMOJI[type] ?? GITMOJI.feat).code;
+    default:
+      return UNICODE_EMOJI[type] ?? UNICODE_EMOJI.feat;
+  }
+}
+
+// 프리셋 템플릿의 저장소 컨텍스트 부분 (있는 항목만 한 줄씩)
+function formatRepositoryContext(variables: PromptVariables): string {
+  const lines: string[] = [];
+  if (variables.branch) {
+    lines.push(`Current branch: ${variables.branch}`);
+  }
+  if (variables.tickets?.length) {
+    lines.push(`Ticket IDs from the branch name: ${variables.tickets.join(', ')}. `
+      + 'Reference them the way the recent commits do, or in a "Refs:" footer.');
+  }
+  if (variables.scopes?.length) {
+    lines.push(`Packages touched by the change, use them as the scope: ${variables.scopes.join(', ')}`);
+  }
+  if (variables.recentCommits?.length) {
+    lines.push('Recent commit subjects in this repository. Follow their style, scope naming and ticket references:');
+    lines.push(...variables.recentCommits.map(subject => `- ${subject}`));
+  }
+  // 기존 커밋의 메시지를 고칠 때는 원래 메시지도 참고하게 함
+  if (variables.previousMessage) {
+    lines.push('The commit currently has the message below. Keep what it gets right, such as ticket references and '
+      + 'the reason for the change, and rewrite the rest to describe the diff accurately:');
+    lines.push(...variables.previousMessage.split('\n').map(line => `> ${line}`));
+  }
+  return lines.map(line => `${line}\n`).join('');
+}
+
+function emojiInstructions(conventions: CommitConventions): string {
+  const types = Object.keys(conventions.types);
+  switch (conventions.emoji) {
+    case 'off':
+      return 'Do not use emojis.';
+    case 'shortcode':
+      return 'Start the message with the emoji shortcode matching the type:\n'
+        + types.map(type => `- ${emojiFor(type, 'shortcode')} for ${type}`).join('\n');
+    default:
+      return 'Add an appropriate emoji at the beginning of the commit message:\n'
+        + types.map(type => `- ${emojiFor(type, conventions.emoji)} for ${type}`).join('\n');
+  }
+}
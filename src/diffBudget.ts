@@ -0,0 +1,297 @@
+import { matchesAnyGlob } from './glob';
+
+/**
+ * Diff of a single file, keyed by its display path
+ */
+export interface FileDiff {
+  path: string;
+  diff: string;
+}
+
+/**
+ * How a file's diff was reduced before being sent to the model
+ * - full: sent as-is
+ * - trimmed: context lines removed
+ * - truncated: cut off after the per-file token limit
+ * - collapsed: replaced by a one-line summary (lock, generated or binary files)
+ * - summarized: summarized by the model in a separate pass (map-reduce)
+ */
+export type DiffTreatment = 'full' | 'trimmed' | 'truncated' | 'collapsed' | 'summarized';
+
+export interface PreparedFile extends FileDiff {
+  treatment: DiffTreatment;
+  /** Estimated tokens of the diff before preprocessing */
+  originalTokens: number;
+  /** Estimated tokens of `diff` after preprocessing */
+  tokens: number;
+}
+
+export interface DiffBudgetOptions {
+  /** Token budget for the diff part of the prompt */
+  tokenBudget: number;
+  /** Context lines kept around each change when the diff is over budget */
+  contextLines: number;
+  /** Extra glob patterns of files to collapse into one-line summaries */
+  collapsePatterns: string[];
+  /** Summarize chunks with the model instead of truncating when over budget */
+  mapReduce: boolean;
+}
+
+export interface DiffPlan {
+  files: PreparedFile[];
+  /**
+   * Groups of files to summarize separately before the final message pass.
+   * Only set when the changeset does not fit the budget and map-reduce is enabled.
+   */
+  chunks?: PreparedFile[][];
+}
+
+/**
+ * Lock files and generated artifacts that are never worth sending line by line
+ */
+export const DEFAULT_COLLAPSE_PATTERNS = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  'Cargo.lock',
+  'Gemfile.lock',
+  'composer.lock',
+  'poetry.lock',
+  'Pipfile.lock',
+  'go.sum',
+  '*.min.js',
+  '*.min.css',
+  '*.map',
+  '*.snap',
+  'dist/',
+  'out/',
+];
+
+// 맵-리듀스에서 요약할 최대 청크 수 (비용 상한)
+const MAX_SUMMARY_CHUNKS = 8;
+
+/**
+ * Rough token estimate (about 4 characters per token for code)
+ * @param text Text to estimate
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Whether the diff describes a binary file
+ * @param diff File diff
+ */
+export function isBinaryDiff(diff: string): boolean {
+  return /^Binary files .* differ$/m.test(diff) || /^GIT binary patch$/m.test(diff) || diff.includes('\u0000');
+}
+
+/**
+ * Count added and removed lines of a unified diff
+ * @param diff File diff
+ */
+export function countChangedLines(diff: string): { added: number, removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+') && !line.startsWith('+++')) {
+      added++;
+    } else if (line.startsWith('-') && !line.startsWith('---')) {
+      removed++;
+    }
+  }
+  return { added, removed };
+}
+
+/**
+ * Remove context lines that are farther than `contextLines` from any change.
+ * Omitted runs are replaced by a single ` ...` line, and headers are kept.
+ * @param diff File diff
+ * @param contextLines Context lines to keep before and after each change
+ */
+export function trimContext(diff: string, contextLines: number): string {
+  const lines = diff.split('\n');
+  const isContext = (line: string) => line.startsWith(' ') || line === '';
+  const keep = lines.map(line => !isContext(line));
+
+  lines.forEach((line, index) => {
+    if (line.startsWith('+') || line.startsWith('-')) {
+      for (let offset = 1; offset <= contextLines; offset++) {
+        if (index - offset >= 0) {
+          keep[index - offset] = true;
+        }
+        if (index + offset < lines.length) {
+          keep[index + offset] = true;
+        }
+      }
+    }
+  });
+
+  const result: string[] = [];
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      result.push(line);
+    } else if (result[result.length - 1] !== ' ...') {
+      result.push(' ...');
+    }
+  });
+
+  return result.join('\n');
+}
+
+/**
+ * Cut a diff after roughly `maxTokens` tokens, at a line boundary
+ * @param diff File diff
+ * @param maxTokens Token limit
+ */
+export function truncateDiff(diff: string, maxTokens: number): string {
+  const lines = diff.split('\n');
+  const kept: string[] = [];
+  let tokens = 0;
+
+  for (const line of lines) {
+    const lineTokens = estimateTokens(line + '\n');
+    if (tokens + lineTokens > maxTokens && kept.length > 0) {
+      break;
+    }
+    kept.push(line);
+    tokens += lineTokens;
+  }
+
+  const omitted = lines.length - kept.length;
+  return omitted > 0 ? `${kept.join('\n')}\n... (${omitted} more lines truncated)` : diff;
+}
+
+/**
+ * One-line summary used for collapsed files
+ * @param file File diff
+ */
+export function summarizeCollapsed(file: FileDiff): string {
+  if (isBinaryDiff(file.diff)) {
+    return 'binary file changed';
+  }
+  const { added, removed } = countChangedLines(file.diff);
+  return `generated or lock file updated (+${added} -${removed} lines)`;
+}
+
+/**
+ * Reduce file diffs to fit the token budget.
+ * 1. Lock, generated and binary files are collapsed into one-line summaries.
+ * 2. If still over budget, context lines are trimmed.
+ * 3. If still over budget, files are either grouped into chunks for map-reduce summarization
+ *    or, with map-reduce disabled, the largest files are truncated.
+ * @param files File diffs
+ * @param options Budget options
+ * @returns Prepared files and, when map-reduce is needed, the chunks to summarize
+ */
+export function planDiff(files: FileDiff[], options: DiffBudgetOptions): DiffPlan {
+  const collapsePatterns = [...DEFAULT_COLLAPSE_PATTERNS, ...options.collapsePatterns];
+
+  let prepared: PreparedFile[] = files.map(file => {
+    const originalTokens = estimateTokens(file.diff);
+    if (isBinaryDiff(file.diff) || matchesAnyGlob(file.path, collapsePatterns)) {
+      const diff = summarizeCollapsed(file);
+      return { path: file.path, diff, treatment: 'collapsed', originalTokens, tokens: estimateTokens(diff) };
+    }
+    return { ...file, treatment: 'full', originalTokens, tokens: originalTokens };
+  });
+
+  if (totalTokens(prepared) <= options.tokenBudget) {
+    return { files: prepared };
+  }
+
+  prepared = prepared.map(file => {
+    if (file.treatment !== 'full') {
+      return file;
+    }
+    const diff = trimContext(file.diff, options.contextLines);
+    return diff === file.diff ? file : { ...file, diff, treatment: 'trimmed', tokens: estimateTokens(diff) };
+  });
+
+  if (totalTokens(prepared) <= options.tokenBudget) {
+    return { files: prepared };
+  }
+
+  if (options.mapReduce) {
+    return planChunks(prepared, options.tokenBudget);
+  }
+
+  return { files: truncateToBudget(prepared, options.tokenBudget) };
+}
+
+/**
+ * Format file diffs as one prompt section per file
+ * @param files File diffs
+ */
+export function formatFileDiffs(files: FileDiff[]): string {
+  return files.map(file => `\n--- ${file.path} ---\n${file.diff}\n`).join('');
+}
+
+function totalTokens(files: PreparedFile[]): number {
+  return files.reduce((sum, file) => sum + file.tokens, 0);
+}
+
+// 큰 파일부터 잘라 전체가 예산에 들어가도록 함
+function truncateToBudget(files: PreparedFile[], budget: number): PreparedFile[] {
+  const result = [...files];
+  const order = result
+    .map((file, index) => ({ index, tokens: file.tokens }))
+    .sort((a, b) => b.tokens - a.tokens);
+
+  let remaining = totalTokens(result) - budget;
+  for (const { index } of order) {
+    if (remaining <= 0) {
+      break;
+    }
+    const file = result[index];
+    if (file.treatment === 'collapsed') {
+      continue;
+    }
+    const limit = Math.max(file.tokens - remaining, Math.floor(budget / files.length), 1);
+    const diff = truncateDiff(file.diff, limit);
+    const tokens = estimateTokens(diff);
+    remaining -= file.tokens - tokens;
+    result[index] = { ...file, diff, treatment: 'truncated', tokens };
+  }
+
+  return result;
+}
+
+// 파일을 예산 크기의 청크로 묶음. 단일 파일이 너무 크면 먼저 자름
+function planChunks(files: PreparedFile[], budget: number): DiffPlan {
+  const summarizable = files.filter(file => file.treatment !== 'collapsed');
+  const perFileLimit = Math.max(Math.min(budget, Math.floor(budget * MAX_SUMMARY_CHUNKS / Math.max(summarizable.length, 1))), 1);
+
+  const chunks: PreparedFile[][] = [];
+  let current: PreparedFile[] = [];
+  let currentTokens = 0;
+
+  const result = files.map(file => {
+    if (file.treatment === 'collapsed') {
+      return file;
+    }
+
+    let diff = file.diff;
+    if (file.tokens > perFileLimit) {
+      diff = truncateDiff(diff, perFileLimit);
+    }
+    const summarized: PreparedFile = { ...file, diff, treatment: 'summarized', tokens: estimateTokens(diff) };
+
+    if (currentTokens + summarized.tokens > budget && current.length > 0) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(summarized);
+    currentTokens += summarized.tokens;
+    return summarized;
+  });
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return { files: result, chunks };
+}
@@ -0,0 +1,117 @@
+import { DiffSource, GitDiffCollector, runGit } from './gitDiff';
+
+/**
+ * One hunk of a unified diff
+ */
+export interface DiffHunk {
+  /** Line ranges of the hunk (`@@ -1,3 +1,4 @@`), used to identify it while the file does not change */
+  id: string;
+  /** Hunk header line, including the function name git adds after the ranges */
+  header: string;
+  /** Context, removed and added lines */
+  lines: string[];
+}
+
+/**
+ * Unified diff of one file split into hunks
+ */
+export interface ParsedFileDiff {
+  /** Lines before the first hunk: `diff --git`, mode, rename and `---`/`+++` lines, or `Binary files ... differ` */
+  header: string[];
+  hunks: DiffHunk[];
+}
+
+const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+/**
+ * Split the diff of one file into its header and hunks
+ * @param diff Unified diff of one file (`GitDiffCollector.getDiff`)
+ */
+export function parseFileDiff(diff: string): ParsedFileDiff {
+  const lines = diff.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  const parsed: ParsedFileDiff = { header: [], hunks: [] };
+  for (const line of lines) {
+    const range = line.match(HUNK_HEADER);
+    if (range) {
+      parsed.hunks.push({ id: range[0], header: line, lines: [] });
+    } else if (parsed.hunks.length > 0) {
+      parsed.hunks[parsed.hunks.length - 1].lines.push(line);
+    } else {
+      parsed.header.push(line);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Join a parsed diff back into a unified diff that `git apply` accepts
+ * @param parsed Header and hunks
+ */
+export function formatFileDiff(parsed: ParsedFileDiff): string {
+  const lines = [...parsed.header, ...parsed.hunks.flatMap(hunk => [hunk.header, ...hunk.lines])];
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Diff of a file without some of its hunks
+ * @param diff Unified diff of one file
+ * @param excludedHunks Ids of the hunks to leave out
+ * @returns Diff with the remaining hunks, or an empty string if every hunk was left out.
+ *   Diffs without hunks (binary files, pure renames, mode changes) are returned unchanged.
+ */
+export function selectHunks(diff: string, excludedHunks: ReadonlySet<string>): string {
+  const parsed = parseFileDiff(diff);
+  const hunks = parsed.hunks.filter(hunk => !excludedHunks.has(hunk.id));
+  if (parsed.hunks.length === 0 || hunks.length === parsed.hunks.length) {
+    return diff;
+  }
+  return hunks.length > 0 ? formatFileDiff({ header: parsed.header, hunks }) : '';
+}
+
+/**
+ * Stage only the selected hunks of a file, so that the index holds the changes generation was given.
+ * - unstaged: the selected hunks of the working tree are added to the index
+ * - staged, all: the file is reset to HEAD in the index (removed from it if there are no commits yet) and the
+ *   selected hunks of the diff are applied again
+ * Files without hunks are left as they are.
+ * @param gitPath Path of the git executable
+ * @param repoRoot Repository root path
+ * @param relativePath Path relative to the repository root, using `/` separators
+ * @param source Diff source the hunks were listed from
+ * @param excludedHunks Ids of the hunks to leave out of the index
+ * @throws Error with git's message if the patch does not apply, e.g. when the file changed after it was listed
+ */
+export async function stageHunks(
+  gitPath: string,
+  repoRoot: string,
+  relativePath: string,
+  source: DiffSource,
+  excludedHunks: ReadonlySet<string>
+): Promise<void> {
+  const collector = new GitDiffCollector(gitPath, repoRoot, source);
+  const parsed = parseFileDiff(await collector.getDiff(relativePath));
+  const hunks = parsed.hunks.filter(hunk => !excludedHunks.has(hunk.id));
+  if (parsed.hunks.length === 0 || source === 'staged' && hunks.length === parsed.hunks.length) {
+    return;
+  }
+
+  // 인덱스에 이미 있는 변경까지 diff에 포함되므로 HEAD 상태로 되돌린 뒤 선택한 헝크만 다시 적용
+  if (source !== 'unstaged') {
+    const original = await collector.getOriginalPath(relativePath);
+    const paths = original?.renamed ? [original.path, relativePath] : [relativePath];
+    // 커밋이 아직 없으면 되돌릴 HEAD가 없으므로 인덱스에서 지움
+    const head = await runGit(gitPath, repoRoot, ['rev-parse', '--verify', '--quiet', 'HEAD'], [0, 1]);
+    await runGit(gitPath, repoRoot, head.trim()
+      ? ['reset', '--quiet', '--', ...paths]
+      : ['rm', '--cached', '--quiet', '--force', '--ignore-unmatch', '--', ...paths]);
+  }
+  if (hunks.length > 0) {
+    const patch = formatFileDiff({ header: parsed.header, hunks });
+    await runGit(gitPath, repoRoot, ['apply', '--cached', '--whitespace=nowarn', '-'], [0], patch);
+  }
+}
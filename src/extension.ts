@@ -2,7 +2,12 @@
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
 import { AiCommitProvider } from './aiCommitProvider';
+import { ApiKeyStore } from './apiKeyStore';
 import { CommitViewProvider } from './commitViewProvider';
+import { GenerationHistory } from './generationHistory';
+import { InputBoxGenerator } from './inputBoxGenerator';
+import { API_KEY_SOURCES, LLM_PROVIDER_IDS, LlmProviderId } from './llm';
+import { ReleaseNotesGenerator } from './releaseNotesGenerator';
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
@@ -12,6 +17,18 @@ export async function activate(context: vscode.ExtensionContext) {
 	// 변수를 try-catch 블록 외부에서 선언하여 전체 함수 범위에서 접근 가능하게 함
 	let aiCommitProvider: AiCommitProvider;
 	let commitViewProvider: CommitViewProvider;
+
+	// API 키는 SecretStorage에 보관하고, 평문 설정에 남아 있던 키는 옮긴 뒤 지움
+	const apiKeys = new ApiKeyStore(context.secrets);
+	context.subscriptions.push(apiKeys);
+	try {
+		const migrated = await apiKeys.migrateFromSettings(vscode.workspace.getConfiguration('commitWithAi'));
+		if (migrated.length > 0) {
+			vscode.window.showInformationMessage(vscode.l10n.t('Moved the API keys stored in settings to secure storage ({0}).', migrated.join(', ')));
+		}
+	} catch (error) {
+		console.error('Error migrating API keys to secret storage:', error);
+	}
 	
 	try {
 		// Check if Git extension is available
@@ -36,17 +53,20 @@ export async function activate(context: vscode.ExtensionContext) {
 		
 		if (repositories.length === 0) {
 			console.warn('현재 워크스페이스에 Git 저장소가 없습니다.');
-			vscode.window.showWarningMessage('현재 워크스페이스에 Git 저장소가 없습니다. Git 저장소를 열어주세요.');
+			vscode.window.showWarningMessage(vscode.l10n.t('There is no Git repository in the current workspace. Please open a Git repository.'));
 		}
 
 		// Initialize AI commit provider instance
 		console.log('AiCommitProvider 초기화 중...');
-		aiCommitProvider = new AiCommitProvider(context);
+		aiCommitProvider = new AiCommitProvider(context, apiKeys);
 		console.log('AiCommitProvider 초기화 완료');
 		
 		// Create webview provider
 		console.log('CommitViewProvider 초기화 중...');
-		commitViewProvider = new CommitViewProvider(context.extensionUri);
+		// AI 검토 결과는 전용 진단 모음으로 문제 패널에 표시
+		const reviewDiagnostics = vscode.languages.createDiagnosticCollection('commit-with-ai-review');
+		context.subscriptions.push(reviewDiagnostics);
+		commitViewProvider = new CommitViewProvider(context.extensionUri, new GenerationHistory(context.workspaceState), reviewDiagnostics);
 		console.log('CommitViewProvider 초기화 완료');
 
 		// Register webview
@@ -71,9 +91,9 @@ export async function activate(context: vscode.ExtensionContext) {
 	let refreshFilesCommand = vscode.commands.registerCommand('commit-with-ai.refreshFiles', async () => {
 		try {
 			await commitViewProvider.refreshChangedFiles();
-			vscode.window.showInformationMessage('변경된 파일 목록을 새로고침했습니다.');
+			vscode.window.showInformationMessage(vscode.l10n.t('Refreshed the list of changed files.'));
 		} catch (error: any) {
-			vscode.window.showErrorMessage(`파일 목록 새로고침 중 오류가 발생했습니다: ${error.message}`);
+			vscode.window.showErrorMessage(vscode.l10n.t('Failed to refresh the file list: {0}', error.message));
 			console.error('Error refreshing files:', error);
 		}
 	});
@@ -82,61 +102,192 @@ export async function activate(context: vscode.ExtensionContext) {
 	let generateWithSelectedCommand = vscode.commands.registerCommand('commit-with-ai.generateWithSelected', async (fileUris: vscode.Uri[]) => {
 		try {
 			if (!fileUris || fileUris.length === 0) {
-				vscode.window.showWarningMessage('선택된 파일이 없습니다. 파일을 선택한 후 다시 시도해주세요.');
+				vscode.window.showWarningMessage(vscode.l10n.t('No files are selected. Select files and try again.'));
 				return;
 			}
 
 			// 선택된 파일 경로 추출
 			const selectedFiles = fileUris.map(uri => uri.fsPath);
 			
-			// 선택된 파일의 diff 내용 가져오기
-			const diffContent = await aiCommitProvider.getChangesDiff(selectedFiles);
-			
-			if (!diffContent || diffContent.trim() === '') {
-				vscode.window.showWarningMessage('선택된 파일에 변경 사항이 없습니다.');
-				return;
-			}
-			
-			// AI로 커밋 메시지 생성
-			const commitMessage = await aiCommitProvider.generateCommitMessage(diffContent);
-			
-			// 결과 업데이트
-			commitViewProvider.updateContent(commitMessage, diffContent);
-			
-			// 웹뷰 포커스
+			// 웹뷰 포커스 후 생성 결과를 웹뷰로 스트리밍
 			await vscode.commands.executeCommand('workbench.view.extension.' + CommitViewProvider.viewType);
-			
-			vscode.window.showInformationMessage('선택한 파일로 AI 커밋 메시지가 생성되었습니다.');
+			await commitViewProvider.generateWithSelectedFiles(selectedFiles);
 		} catch (error: any) {
-			vscode.window.showErrorMessage(`커밋 메시지 생성 중 오류가 발생했습니다: ${error.message}`);
+			vscode.window.showErrorMessage(vscode.l10n.t('Failed to generate the commit message: {0}', error.message));
 			console.error('Error generating commit message with selected files:', error);
 		}
 	});
 
 	// 기존 명령어 수정: 'commit-with-ai.generateCommitMessage'
-	let generateCommitCommand = vscode.commands.registerCommand('commit-with-ai.generateCommitMessage', async () => {
+	// scm/title 메뉴에서 호출되면 해당 저장소의 SourceControl이 인자로 전달됨
+	let generateCommitCommand = vscode.commands.registerCommand('commit-with-ai.generateCommitMessage', async (sourceControl?: vscode.SourceControl) => {
 		try {
 			// 웹뷰 포커스
 			await vscode.commands.executeCommand('workbench.view.extension.' + CommitViewProvider.viewType);
 			
-			// 변경된 파일 목록 새로고침
-			await commitViewProvider.refreshChangedFiles();
+			// 변경된 파일 목록 새로고침 (메뉴를 호출한 저장소의 파일만 선택)
+			await commitViewProvider.refreshChangedFiles(sourceControl?.rootUri);
 			
-			vscode.window.showInformationMessage('파일을 선택하고 "AI가 커밋 작성" 버튼을 클릭하세요.');
+			vscode.window.showInformationMessage(vscode.l10n.t('Select files and click "Write Commit with AI".'));
 			return;
 
 			// 이 기능은 웹뷰에서 직접 처리하도록 변경되었습니다.
 			// 사용자는 웹뷰에서 파일을 선택하고 "AI가 커밋 작성" 버튼을 클릭하여 커밋 메시지를 생성할 수 있습니다.
 		} catch (error: any) {
-			vscode.window.showErrorMessage(`커밋 메시지 생성 중 오류가 발생했습니다: ${error.message}`);
+			vscode.window.showErrorMessage(vscode.l10n.t('Failed to generate the commit message: {0}', error.message));
 			console.error('Error generating commit message:', error);
 		}
 	});
 
+	// 현재 브랜치의 PR 제목과 설명 생성 명령어 등록
+	// scm/title 메뉴에서 호출되면 해당 저장소의 SourceControl이 인자로 전달됨
+	let generatePullRequestCommand = vscode.commands.registerCommand('commit-with-ai.generatePullRequest', async (target?: vscode.SourceControl | vscode.Uri) => {
+		try {
+			// 결과는 웹뷰에 표시
+			await vscode.commands.executeCommand('workbench.view.extension.' + CommitViewProvider.viewType);
+			await commitViewProvider.generatePullRequest(target);
+		} catch (error: any) {
+			vscode.window.showErrorMessage(vscode.l10n.t('Failed to generate the PR description: {0}', error.message));
+			console.error('Error generating pull request description:', error);
+		}
+	});
+
+	// 평문 설정을 다시 쓰면 보안 저장소로 옮김
+	context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(async event => {
+		if (Object.values(API_KEY_SOURCES).some(source => source.setting && event.affectsConfiguration(`commitWithAi.${source.setting}`))) {
+			try {
+				await apiKeys.migrateFromSettings(vscode.workspace.getConfiguration('commitWithAi'));
+			} catch (error) {
+				console.error('Error migrating API keys to secret storage:', error);
+			}
+		}
+	}));
+
+	// 소스 제어 입력란에 바로 생성하는 명령어 등록 (AI 커밋 보기를 열지 않음)
+	// scm/title, scm/inputBox 메뉴에서는 해당 저장소의 SourceControl이 인자로 전달됨
+	const inputBoxGenerator = new InputBoxGenerator(aiCommitProvider);
+	let generateInInputBoxCommand = vscode.commands.registerCommand('commit-with-ai.generateInInputBox', async (target?: vscode.SourceControl | vscode.Uri) => {
+		try {
+			await inputBoxGenerator.run(target);
+		} catch (error: any) {
+			vscode.window.showErrorMessage(vscode.l10n.t('Failed to generate the commit message: {0}', error.message));
+			console.error('Error generating commit message into the input box:', error);
+		}
+	});
+
+	// 기존 커밋 메시지를 새로 생성해 웹뷰에서 승인받은 뒤 다시 쓰는 명령어 등록 (HEAD만, 또는 고른 커밋부터 HEAD까지)
+	// scm/title 메뉴에서 호출되면 해당 저장소의 SourceControl이 인자로 전달됨
+	let improveLastCommitMessageCommand = vscode.commands.registerCommand('commit-with-ai.improveLastCommitMessage', async (target?: vscode.SourceControl | vscode.Uri) => {
+		try {
+			await vscode.commands.executeCommand('workbench.view.extension.' + CommitViewProvider.viewType);
+			await commitViewProvider.improveLastCommitMessage(target);
+		} catch (error: any) {
+			vscode.window.showErrorMessage(vscode.l10n.t('Failed to reword the commits: {0}', error.message));
+			console.error('Error improving the last commit message:', error);
+		}
+	});
+	let rewordCommitsCommand = vscode.commands.registerCommand('commit-with-ai.rewordCommits', async (target?: vscode.SourceControl | vscode.Uri) => {
+		try {
+			await vscode.commands.executeCommand('workbench.view.extension.' + CommitViewProvider.viewType);
+			await commitViewProvider.rewordCommits(target);
+		} catch (error: any) {
+			vscode.window.showErrorMessage(vscode.l10n.t('Failed to reword the commits: {0}', error.message));
+			console.error('Error rewording commits:', error);
+		}
+	});
+
+	// 두 리비전 사이의 커밋으로 CHANGELOG.md에 릴리스를 추가하는 명령어 등록
+	// scm/title 메뉴에서 호출되면 해당 저장소의 SourceControl이 인자로 전달됨
+	const releaseNotesGenerator = new ReleaseNotesGenerator(aiCommitProvider);
+	let generateChangelogCommand = vscode.commands.registerCommand('commit-with-ai.generateChangelog', async (target?: vscode.SourceControl | vscode.Uri) => {
+		try {
+			await releaseNotesGenerator.run(target);
+		} catch (error: any) {
+			vscode.window.showErrorMessage(vscode.l10n.t('Failed to generate the changelog: {0}', error.message));
+			console.error('Error generating changelog:', error);
+		}
+	});
+
+	// API 키 설정 명령어 등록 (인자로 공급자를 넘기면 공급자 선택을 건너뜀)
+	let setApiKeyCommand = vscode.commands.registerCommand('commit-with-ai.setApiKey', async (provider?: LlmProviderId) => {
+		try {
+			const current = vscode.workspace.getConfiguration('commitWithAi').get<LlmProviderId>('provider') || 'openai';
+			const target = provider ?? await pickProvider(
+				LLM_PROVIDER_IDS.filter(id => !!API_KEY_SOURCES[id].setting),
+				current,
+				vscode.l10n.t('Select the provider to set the API key for')
+			);
+			if (!target) {
+				return;
+			}
+
+			const apiKey = await vscode.window.showInputBox({
+				title: vscode.l10n.t('{0} API Key', target),
+				prompt: vscode.l10n.t('The API key is kept in VS Code secure storage and is not written to settings.json.'),
+				password: true,
+				ignoreFocusOut: true,
+				validateInput: value => value.trim() ? undefined : vscode.l10n.t('Enter an API key.')
+			});
+			if (!apiKey) {
+				return;
+			}
+
+			await apiKeys.set(target, apiKey.trim());
+			vscode.window.showInformationMessage(vscode.l10n.t('Saved the {0} API key.', target));
+		} catch (error: any) {
+			vscode.window.showErrorMessage(vscode.l10n.t('Failed to save the API key: {0}', error.message));
+			console.error('Error storing API key:', error);
+		}
+	});
+
+	// API 키 삭제 명령어 등록
+	let clearApiKeyCommand = vscode.commands.registerCommand('commit-with-ai.clearApiKey', async () => {
+		try {
+			const stored: LlmProviderId[] = [];
+			for (const provider of LLM_PROVIDER_IDS) {
+				if (await apiKeys.get(provider)) {
+					stored.push(provider);
+				}
+			}
+			if (stored.length === 0) {
+				vscode.window.showInformationMessage(vscode.l10n.t('No API keys are stored.'));
+				return;
+			}
+
+			const current = vscode.workspace.getConfiguration('commitWithAi').get<LlmProviderId>('provider') || 'openai';
+			const target = await pickProvider(stored, current, vscode.l10n.t('Select the provider whose API key to delete'));
+			if (!target) {
+				return;
+			}
+
+			await apiKeys.delete(target);
+			vscode.window.showInformationMessage(vscode.l10n.t('Deleted the {0} API key.', target));
+		} catch (error: any) {
+			vscode.window.showErrorMessage(vscode.l10n.t('Failed to delete the API key: {0}', error.message));
+			console.error('Error clearing API key:', error);
+		}
+	});
+
 	// 명령어 등록
 	context.subscriptions.push(generateCommitCommand);
 	context.subscriptions.push(refreshFilesCommand);
 	context.subscriptions.push(generateWithSelectedCommand);
+	context.subscriptions.push(generateInInputBoxCommand);
+	context.subscriptions.push(generatePullRequestCommand);
+	context.subscriptions.push(generateChangelogCommand);
+	context.subscriptions.push(improveLastCommitMessageCommand);
+	context.subscriptions.push(rewordCommitsCommand);
+	context.subscriptions.push(setApiKeyCommand);
+	context.subscriptions.push(clearApiKeyCommand);
+}
+
+// 공급자 선택 (현재 설정된 공급자를 맨 위에 표시)
+async function pickProvider(providers: readonly LlmProviderId[], current: LlmProviderId, placeHolder: string): Promise<LlmProviderId | undefined> {
+	const items = [...providers]
+		.sort((a, b) => Number(b === current) - Number(a === current))
+		.map(provider => ({ label: provider, description: provider === current ? vscode.l10n.t('Current provider') : undefined }));
+	const picked = await vscode.window.showQuickPick(items, { placeHolder });
+	return picked?.label;
 }
 
 // This method is called when your extension is deactivated
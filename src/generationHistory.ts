@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Key-value storage the history is kept in. `vscode.Memento` (e.g. `context.workspaceState`) satisfies it.
+ */
+export interface HistoryStorage {
+  get<T>(key: string): T | undefined;
+  update(key: string, value: unknown): PromiseLike<void>;
+}
+
+/**
+ * One generation run and what became of its message
+ */
+export interface HistoryEntry {
+  id: string;
+  /** Time of the generation in milliseconds since the epoch */
+  timestamp: number;
+  /** Provider and model, e.g. `openai/gpt-4o-mini` */
+  model: string;
+  /** Files the message was generated from, relative to the repository root */
+  files: string[];
+  /** Estimated tokens of the prompt */
+  promptTokens: number;
+  /** Candidate messages as the model wrote them */
+  generated: string[];
+  /** Message that was applied or committed, after the user's edits */
+  final?: string;
+  /** Index of the candidate the final message was picked from */
+  finalCandidate?: number;
+}
+
+/**
+ * How much the applied messages differ from what the model wrote
+ */
+export interface EditSummary {
+  /** Entries whose message was applied or committed */
+  applied: number;
+  /** Applied entries whose message was changed */
+  edited: number;
+  /** Mean `editRatio` over the applied entries */
+  averageEditRatio: number;
+}
+
+const HISTORY_KEY_PREFIX = 'commitWithAi.history.';
+
+/**
+ * Generation history of each repository, newest first, kept in workspace storage
+ */
+export class GenerationHistory {
+  /**
+   * @param storage Where the entries are stored
+   * @param limit Entries kept per repository; older ones are dropped
+   */
+  constructor(private readonly storage: HistoryStorage, private readonly limit = 50) {}
+
+  /**
+   * Entries of a repository, newest first
+   * @param repoRoot Repository root path
+   */
+  list(repoRoot: string): HistoryEntry[] {
+    return this.storage.get<HistoryEntry[]>(HISTORY_KEY_PREFIX + repoRoot) ?? [];
+  }
+
+  /**
+   * Record a generation run
+   * @param repoRoot Repository root path
+   * @param entry Run details without an id
+   * @returns The stored entry
+   */
+  async add(repoRoot: string, entry: Omit<HistoryEntry, 'id'>): Promise<HistoryEntry> {
+    const stored = { id: randomUUID(), ...entry };
+    await this.storage.update(HISTORY_KEY_PREFIX + repoRoot, [stored, ...this.list(repoRoot)].slice(0, this.limit));
+    return stored;
+  }
+
+  /**
+   * Record the message that was finally applied or committed for a run.
+   * Does nothing if the entry was cleared in the meantime.
+   * @param repoRoot Repository root path
+   * @param id Entry id
+   * @param candidate Index of the candidate the message was picked from
+   * @param message Applied message
+   */
+  async setFinal(repoRoot: string, id: string, candidate: number, message: string): Promise<void> {
+    const entries = this.list(repoRoot);
+    if (!entries.some(entry => entry.id === id)) {
+      return;
+    }
+    await this.storage.update(
+      HISTORY_KEY_PREFIX + repoRoot,
+      entries.map(entry => entry.id === id ? { ...entry, final: message, finalCandidate: candidate } : entry)
+    );
+  }
+
+  async clear(repoRoot: string): Promise<void> {
+    await this.storage.update(HISTORY_KEY_PREFIX + repoRoot, undefined);
+  }
+}
+
+/**
+ * Share of a message that was changed, as the edit distance divided by the longer length
+ * @param generated Message written by the model
+ * @param final Message that was applied
+ * @returns 0 for an unchanged message, up to 1 for a completely rewritten one
+ */
+export function editRatio(generated: string, final: string): number {
+  const a = generated.trim();
+  const b = final.trim();
+  const length = Math.max(a.length, b.length);
+  if (length === 0) {
+    return 0;
+  }
+
+  // 레벤슈타인 거리 (한 줄씩만 유지)
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length] / length;
+}
+
+/**
+ * Summarize how much the team edits generated messages
+ * @param entries History entries
+ */
+export function summarizeEdits(entries: HistoryEntry[]): EditSummary {
+  const ratios = entries
+    .filter(entry => entry.final !== undefined)
+    .map(entry => editRatio(entry.generated[entry.finalCandidate ?? 0] ?? '', entry.final!));
+  return {
+    applied: ratios.length,
+    edited: ratios.filter(ratio => ratio > 0).length,
+    averageEditRatio: ratios.length > 0 ? ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length : 0,
+  };
+}
@@ -0,0 +1,182 @@
+import * as childProcess from 'child_process';
+
+/**
+ * Which side of the staging area generation reads from
+ * - staged: index vs HEAD
+ * - unstaged: working tree vs index
+ * - all: working tree vs HEAD
+ */
+export type DiffSource = 'staged' | 'unstaged' | 'all';
+
+/**
+ * Committed changes between two revisions, e.g. from the merge base of a branch to HEAD
+ */
+export interface RevisionRange {
+  base: string;
+  head: string;
+}
+
+/**
+ * Hash of the empty tree, used as the base when the repository has no commits yet
+ */
+export const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/**
+ * Old path of a renamed or copied file
+ */
+export interface OriginalPath {
+  path: string;
+  /** True for a rename, false for a copy (the old file still exists) */
+  renamed: boolean;
+}
+
+// 모든 diff 명령에 공통으로 쓰는 옵션
+// -M/-C: 이름 변경/복사 감지, -D: 삭제된 파일 내용 생략, --submodule=log: 서브모듈은 커밋 목록으로 요약
+const DIFF_OPTIONS = ['--no-color', '--no-ext-diff', '-M', '-C', '-D', '--submodule=log'];
+
+/**
+ * Run git and return its standard output
+ * @param gitPath Path of the git executable
+ * @param cwd Working directory (repository root)
+ * @param args Arguments
+ * @param okExitCodes Exit codes that are not errors (`git diff --no-index` exits with 1 when files differ)
+ * @param input Written to git's standard input (e.g. a patch for `git apply -`)
+ * @throws Error with git's stderr if git exits with another code
+ */
+export function runGit(gitPath: string, cwd: string, args: string[], okExitCodes: number[] = [0], input?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = childProcess.execFile(
+      gitPath,
+      ['-c', 'core.quotepath=off', ...args],
+      { cwd, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        const exitCode = error ? (typeof error.code === 'number' ? error.code : -1) : 0;
+        if (okExitCodes.includes(exitCode)) {
+          resolve(stdout);
+        } else {
+          reject(new Error(`git ${args[0]} failed: ${stderr.trim() || error?.message}`));
+        }
+      }
+    );
+    if (input !== undefined) {
+      child.stdin?.end(input);
+    }
+  });
+}
+
+/**
+ * Collects unified diffs of files in one repository with the git CLI.
+ * Every change type gets a proper `diff --git` header: new and deleted files (deletions without their old
+ * content), renames and copies, mode changes, binary files (`Binary files ... differ`) and submodules
+ * (`Submodule ...` with the commit list).
+ */
+export class GitDiffCollector {
+  private baseRevision?: Promise<string | undefined>;
+  private renames?: Promise<Map<string, OriginalPath>>;
+
+  /**
+   * @param gitPath Path of the git executable
+   * @param repoRoot Repository root path
+   * @param source Which side of the staging area to diff, or a range of commits
+   */
+  constructor(
+    private readonly gitPath: string,
+    readonly repoRoot: string,
+    private readonly source: DiffSource | RevisionRange
+  ) {}
+
+  /**
+   * Get the diff of one file
+   * @param relativePath Path relative to the repository root, using `/` separators
+   * @returns Unified diff, or an empty string if the file has no changes on this side
+   */
+  async getDiff(relativePath: string): Promise<string> {
+    // 추적되지 않는 새 파일은 인덱스에 없으므로 빈 파일과 비교
+    if ((this.source === 'unstaged' || this.source === 'all') && await this.isUntracked(relativePath)) {
+      return runGit(this.gitPath, this.repoRoot, ['diff', '--no-index', ...DIFF_OPTIONS, '--', '/dev/null', relativePath], [0, 1]);
+    }
+
+    // 이름이 바뀐 파일은 이전 경로도 함께 넘겨야 git이 이름 변경으로 묶음
+    const originalPath = (await this.getRenames()).get(relativePath)?.path;
+    const paths = originalPath ? [originalPath, relativePath] : [relativePath];
+    return runGit(this.gitPath, this.repoRoot, ['diff', ...(await this.getRevisionArgs()), ...DIFF_OPTIONS, '--', ...paths]);
+  }
+
+  /**
+   * Old path of a renamed or copied file
+   * @param relativePath New path relative to the repository root
+   * @returns Old path, or undefined if the file was not renamed or copied
+   */
+  async getOriginalPath(relativePath: string): Promise<OriginalPath | undefined> {
+    return (await this.getRenames()).get(relativePath);
+  }
+
+  /**
+   * New path of a renamed file. The rename is part of the new path's diff.
+   * @param relativePath Old path relative to the repository root
+   * @returns New path, or undefined if the file was not renamed
+   */
+  async getRenamedTo(relativePath: string): Promise<string | undefined> {
+    for (const [newPath, original] of await this.getRenames()) {
+      if (original.renamed && original.path === relativePath) {
+        return newPath;
+      }
+    }
+    return undefined;
+  }
+
+  private async isUntracked(relativePath: string): Promise<boolean> {
+    const output = await runGit(this.gitPath, this.repoRoot, ['ls-files', '--others', '--exclude-standard', '--', relativePath]);
+    return output.trim() !== '';
+  }
+
+  // staged는 인덱스 vs HEAD, unstaged는 작업 트리 vs 인덱스, all은 작업 트리 vs HEAD
+  private async getRevisionArgs(): Promise<string[]> {
+    if (typeof this.source === 'object') {
+      return [this.source.base, this.source.head];
+    }
+    if (this.source === 'staged') {
+      return ['--cached'];
+    }
+    if (this.source === 'unstaged') {
+      return [];
+    }
+    return [(await this.getBaseRevision()) ?? EMPTY_TREE];
+  }
+
+  // 커밋이 아직 없는 저장소면 undefined
+  private getBaseRevision(): Promise<string | undefined> {
+    this.baseRevision ??= runGit(this.gitPath, this.repoRoot, ['rev-parse', '--verify', '--quiet', 'HEAD'], [0, 1])
+      .then(output => output.trim() ? 'HEAD' : undefined);
+    return this.baseRevision;
+  }
+
+  // 새 경로 → 이전 경로 (이름 변경과 복사)
+  private getRenames(): Promise<Map<string, OriginalPath>> {
+    this.renames ??= this.getRevisionArgs()
+      .then(revision => runGit(this.gitPath, this.repoRoot, ['diff', ...revision, '-M', '-C', '--name-status', '-z']))
+      .then(parseRenames);
+    return this.renames;
+  }
+}
+
+/**
+ * Parse `git diff --name-status -z` output into a map of new path to old path for renames and copies
+ * @param output Raw output
+ */
+export function parseRenames(output: string): Map<string, OriginalPath> {
+  const renames = new Map<string, OriginalPath>();
+  const fields = output.split('\0');
+
+  for (let i = 0; i < fields.length; i++) {
+    const status = fields[i];
+    if (/^[RC]\d*$/.test(status)) {
+      renames.set(fields[i + 2], { path: fields[i + 1], renamed: status.startsWith('R') });
+      i += 2;
+    } else if (status) {
+      i += 1;
+    }
+  }
+
+  return renames;
+}
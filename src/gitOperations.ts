@@ -0,0 +1,108 @@
+import { DiffSource } from './gitRepositories';
+
+export interface CommitActionOptions {
+  /** Amend the last commit instead of creating a new one */
+  amend?: boolean;
+  /** Push the branch after committing */
+  push?: boolean;
+}
+
+/**
+ * Make the index of a repository contain exactly the given files.
+ * Staged files that are not in the list are unstaged. In `staged` mode the listed files are
+ * committed as they are in the index (keeping partial staging); otherwise they are staged fully.
+ * @param repo Git repository
+ * @param filePaths Absolute paths of the files to commit (all inside `repo`)
+ * @param source Diff source the files were listed from
+ * @param partialFiles Files among `filePaths` whose selected hunks are staged separately (`stageHunks`);
+ *   they are kept in the index but not staged fully
+ */
+export async function stageExactly(repo: any, filePaths: string[], source: DiffSource, partialFiles: string[] = []): Promise<void> {
+  const selected = new Set(filePaths);
+  const unselectedStaged = (repo.state.indexChanges as { uri: { fsPath: string } }[])
+    .map(change => change.uri.fsPath)
+    .filter(fsPath => !selected.has(fsPath));
+
+  if (unselectedStaged.length > 0) {
+    await repo.revert(unselectedStaged);
+  }
+  const fullFiles = filePaths.filter(fsPath => !partialFiles.includes(fsPath));
+  if (source !== 'staged' && fullFiles.length > 0) {
+    await repo.add(fullFiles);
+  }
+}
+
+/**
+ * Commit the index and optionally push the current branch.
+ * A branch without upstream is pushed to the first remote and set as upstream.
+ * @param repo Git repository
+ * @param message Commit message
+ * @param options Amend and push options
+ * @throws Error (GitError) if the commit or push fails, e.g. a failing hook or an empty index
+ */
+export async function commitAndPush(repo: any, message: string, options: CommitActionOptions = {}): Promise<void> {
+  await repo.commit(message, { amend: !!options.amend });
+
+  if (!options.push) {
+    return;
+  }
+
+  const head = repo.state.HEAD;
+  if (head?.upstream) {
+    await repo.push();
+  } else if (head?.name && repo.state.remotes.length > 0) {
+    await repo.push(repo.state.remotes[0].name, head.name, true);
+  } else {
+    throw new Error('No remote to push to');
+  }
+}
+
+/**
+ * Files that are committed with only some of their hunks
+ */
+export interface PartialStaging {
+  /** Absolute paths of the files with hunks left out */
+  files: string[];
+  /** Stage the selected hunks of one of `files` (`stageHunks`) */
+  stage: (filePath: string) => Promise<void>;
+}
+
+/**
+ * Commit groups of files one after another. Each group's files are staged fully (partial staging is not
+ * kept) unless they are partial files, everything else is unstaged, and the group is committed with its message.
+ * Stops at the first failing commit.
+ * @param repo Git repository
+ * @param groups Messages and absolute file paths, in commit order
+ * @param onCommitted Called with the index of each group after it was committed
+ * @param partial Files whose selected hunks are staged instead of the whole file
+ * @throws Error (GitError) of the first failing stage or commit
+ */
+export async function commitGroups(
+  repo: any,
+  groups: { message: string, files: string[] }[],
+  onCommitted?: (index: number) => void,
+  partial?: PartialStaging
+): Promise<void> {
+  for (const [index, group] of groups.entries()) {
+    const partialFiles = group.files.filter(file => partial?.files.includes(file));
+    await stageExactly(repo, group.files, 'all', partialFiles);
+    for (const file of partialFiles) {
+      await partial!.stage(file);
+    }
+    await commitAndPush(repo, group.message);
+    onCommitted?.(index);
+  }
+}
+
+/**
+ * Human-readable message of a Git error. Git's own output (hook output, "nothing to commit")
+ * is more useful than the generic "Failed to execute git" message.
+ * @param error Error thrown by the Git extension
+ */
+export function describeGitError(error: any): string {
+  const output = [error?.stderr, error?.stdout]
+    .filter((text): text is string => typeof text === 'string' && text.trim() !== '')
+    .join('\n')
+    .trim();
+  return output || error?.message || String(error);
+}
@@ -0,0 +1,203 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DiffSource } from './gitDiff';
+
+export type { DiffSource };
+
+/**
+ * Get the Git extension API (version 1)
+ * @returns Git API
+ * @throws Error if the Git extension is not available
+ */
+export function getGitApi(): any {
+  const gitExtension = vscode.extensions.getExtension('vscode.git');
+  if (!gitExtension) {
+    throw new Error('Git extension not found');
+  }
+  return gitExtension.exports.getAPI(1);
+}
+
+/**
+ * Find the repository that contains the given file.
+ * Nested repositories (submodules) win over their parents.
+ * @param git Git API
+ * @param fsPath Absolute file path
+ * @returns Repository or undefined if the file is outside every repository
+ */
+export function getRepositoryForPath(git: any, fsPath: string): any | undefined {
+  let match: any;
+  let matchLength = -1;
+
+  for (const repo of git.repositories) {
+    const root: string = repo.rootUri.fsPath;
+    const relative = path.relative(root, fsPath);
+    const inside = relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+    if (inside && root.length > matchLength) {
+      match = repo;
+      matchLength = root.length;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Find the repository whose root matches the given URI
+ * @param git Git API
+ * @param rootUri Repository root URI (e.g. `SourceControl.rootUri`)
+ */
+export function getRepositoryByRoot(git: any, rootUri: vscode.Uri): any | undefined {
+  return git.repositories.find((repo: any) => repo.rootUri.fsPath === rootUri.fsPath);
+}
+
+/**
+ * Repository a command applies to
+ * @param target Source control (from `scm/title` or `scm/inputBox`) or a resource URI. Without it the
+ *   repository of the active editor, the only repository, or the one picked by the user is used.
+ * @param placeHolder Placeholder of the repository picker
+ * @returns Repository, or undefined if there is none or the user cancelled the picker
+ */
+export async function resolveRepository(target: vscode.SourceControl | vscode.Uri | undefined, placeHolder: string): Promise<any | undefined> {
+  const git = getGitApi();
+  if (git.repositories.length === 0) {
+    vscode.window.showWarningMessage(vscode.l10n.t('No Git repository found.'));
+    return undefined;
+  }
+
+  if (target instanceof vscode.Uri) {
+    return getRepositoryForPath(git, target.fsPath);
+  }
+  if (target?.rootUri) {
+    return getRepositoryByRoot(git, target.rootUri);
+  }
+
+  const activeFile = vscode.window.activeTextEditor?.document.uri;
+  const activeRepo = activeFile?.scheme === 'file' ? getRepositoryForPath(git, activeFile.fsPath) : undefined;
+  if (activeRepo) {
+    return activeRepo;
+  }
+  if (git.repositories.length === 1) {
+    return git.repositories[0];
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    git.repositories.map((repo: any) => ({ label: getRepositoryName(repo), description: repo.rootUri.fsPath, repo })),
+    { placeHolder }
+  ) as { repo: any } | undefined;
+  return picked?.repo;
+}
+
+/**
+ * Group file paths by the repository that contains them
+ * @param git Git API
+ * @param fsPaths Absolute file paths
+ * @returns Map of repository to its files. Files outside every repository are dropped.
+ */
+export function groupByRepository(git: any, fsPaths: string[]): Map<any, string[]> {
+  const groups = new Map<any, string[]>();
+
+  for (const fsPath of fsPaths) {
+    const repo = getRepositoryForPath(git, fsPath);
+    if (!repo) {
+      console.warn(`File ${fsPath} is not inside any Git repository`);
+      continue;
+    }
+    const files = groups.get(repo) ?? [];
+    files.push(fsPath);
+    groups.set(repo, files);
+  }
+
+  return groups;
+}
+
+/**
+ * Display name of a repository (its root folder name)
+ * @param repo Git repository
+ */
+export function getRepositoryName(repo: any): string {
+  return path.basename(repo.rootUri.fsPath);
+}
+
+/**
+ * Values of the Git extension's `Status` enum (git.d.ts)
+ */
+export const enum GitStatus {
+  INDEX_MODIFIED,
+  INDEX_ADDED,
+  INDEX_DELETED,
+  INDEX_RENAMED,
+  INDEX_COPIED,
+  MODIFIED,
+  DELETED,
+  UNTRACKED,
+  IGNORED,
+  INTENT_TO_ADD,
+  INTENT_TO_RENAME,
+  TYPE_CHANGED,
+  ADDED_BY_US,
+  ADDED_BY_THEM,
+  DELETED_BY_US,
+  DELETED_BY_THEM,
+  BOTH_ADDED,
+  BOTH_DELETED,
+  BOTH_MODIFIED,
+}
+
+export type ChangeKind = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'untracked' | 'typeChanged' | 'conflict';
+
+/**
+ * Map a Git extension status to a coarse change kind
+ * @param status `Change.status` value
+ */
+export function getChangeKind(status: number): ChangeKind {
+  switch (status) {
+    case GitStatus.INDEX_ADDED:
+    case GitStatus.INTENT_TO_ADD:
+      return 'added';
+    case GitStatus.INDEX_DELETED:
+    case GitStatus.DELETED:
+      return 'deleted';
+    case GitStatus.INDEX_RENAMED:
+    case GitStatus.INTENT_TO_RENAME:
+      return 'renamed';
+    case GitStatus.INDEX_COPIED:
+      return 'copied';
+    case GitStatus.UNTRACKED:
+      return 'untracked';
+    case GitStatus.TYPE_CHANGED:
+      return 'typeChanged';
+    case GitStatus.ADDED_BY_US:
+    case GitStatus.ADDED_BY_THEM:
+    case GitStatus.DELETED_BY_US:
+    case GitStatus.DELETED_BY_THEM:
+    case GitStatus.BOTH_ADDED:
+    case GitStatus.BOTH_DELETED:
+    case GitStatus.BOTH_MODIFIED:
+      return 'conflict';
+    default:
+      return 'modified';
+  }
+}
+
+/**
+ * Changes of a repository for the given diff source.
+ * In `all` mode a file changed in both the index and the working tree is listed once,
+ * with its index status (e.g. a staged new file that was edited again stays "added").
+ * @param repo Git repository
+ * @param source Diff source
+ * @returns Changes with `uri`, `originalUri` (the old path of a rename) and `status`
+ */
+export function getChangesForSource(repo: any, source: DiffSource): { uri: vscode.Uri, originalUri: vscode.Uri, status: number }[] {
+  const indexChanges: { uri: vscode.Uri, originalUri: vscode.Uri, status: number }[] = repo.state.indexChanges;
+  const workingTreeChanges: { uri: vscode.Uri, originalUri: vscode.Uri, status: number }[] = repo.state.workingTreeChanges;
+
+  if (source === 'staged') {
+    return indexChanges;
+  }
+  if (source === 'unstaged') {
+    return workingTreeChanges;
+  }
+
+  const seen = new Set(indexChanges.map(change => change.uri.fsPath));
+  return [...indexChanges, ...workingTreeChanges.filter(change => !seen.has(change.uri.fsPath))];
+}
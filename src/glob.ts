@@ -0,0 +1,62 @@
+/**
+ * Convert a gitignore-style glob to a regular expression.
+ * Supports `**`, `*`, `?` and `{a,b}`. Patterns without a slash match the file name in any directory,
+ * and a trailing slash matches everything below a directory.
+ * @param pattern Glob pattern
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let glob = pattern.trim().replace(/\\/g, '/');
+  // 슬래시가 끝에만 있으면 (예: "dist/") 어느 위치의 디렉터리와도 일치
+  const anchored = glob.replace(/\/$/, '').includes('/') && !glob.startsWith('**/');
+  if (glob.endsWith('/')) {
+    glob += '**';
+  }
+  glob = glob.replace(/^\//, '');
+
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" 는 0개 이상의 디렉터리, 끝의 "**" 는 모든 하위 경로
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      if (end > i) {
+        source += `(?:${glob.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+        i = end;
+      } else {
+        source += escapeRegExp(char);
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`${anchored ? '^' : '(?:^|/)'}${source}$`);
+}
+
+/**
+ * Whether a relative path matches any of the glob patterns
+ * @param relativePath Path relative to the repository root, using `/` separators
+ * @param patterns Glob patterns
+ */
+export function matchesAnyGlob(relativePath: string, patterns: string[]): boolean {
+  const normalized = relativePath.replace(/\\/g, '/');
+  return patterns.some(pattern => pattern.trim() && globToRegExp(pattern).test(normalized));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
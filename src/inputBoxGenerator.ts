@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { AiCommitProvider, showSetupIssue } from './aiCommitProvider';
+import { getChangesForSource, getRepositoryName, resolveRepository } from './gitRepositories';
+
+/**
+ * Generates a commit message from the staged changes and streams it straight into the repository's
+ * Source Control input box, without the AI Commit view.
+ */
+export class InputBoxGenerator {
+  // 저장소 루트별 진행 중인 생성. 같은 저장소에서 다시 실행하면 중단함
+  private readonly running = new Map<string, AbortController>();
+
+  constructor(private readonly provider: AiCommitProvider) {}
+
+  /**
+   * Generate into the input box of a repository, or stop the generation already running there.
+   * @param target Source control (from `scm/title` or `scm/inputBox`) or a resource URI. Without it the
+   *   repository of the active editor, the only repository, or the one picked by the user is used.
+   */
+  async run(target?: vscode.SourceControl | vscode.Uri): Promise<void> {
+    const repo = await resolveRepository(target, vscode.l10n.t('Select the repository to generate a commit message for'));
+    if (repo) {
+      await this.generate(repo);
+    }
+  }
+
+  /**
+   * Generate into the input box of a repository, or stop the generation already running there.
+   * @param repo Repository of the Git extension API
+   */
+  async generate(repo: any): Promise<void> {
+    const root: string = repo.rootUri.fsPath;
+    const running = this.running.get(root);
+    if (running) {
+      running.abort();
+      return;
+    }
+
+    // 인라인 모드는 항상 스테이징된 변경으로 생성
+    const filePaths = getChangesForSource(repo, 'staged').map(change => change.uri.fsPath);
+    if (filePaths.length === 0) {
+      vscode.window.showWarningMessage(vscode.l10n.t('{0}: There are no staged changes. Stage files and try again.', getRepositoryName(repo)));
+      return;
+    }
+
+    const setupIssue = await this.provider.getSetupIssue();
+    if (setupIssue) {
+      await showSetupIssue(setupIssue);
+      return;
+    }
+
+    const abortController = new AbortController();
+    this.running.set(root, abortController);
+    const original: string = repo.inputBox.value;
+
+    try {
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.SourceControl, title: vscode.l10n.t('Generating AI commit message...') },
+        async () => {
+          const fileDiffs = await this.provider.getFileDiffs(filePaths, 'staged');
+          if (fileDiffs.length === 0) {
+            vscode.window.showWarningMessage(vscode.l10n.t('The staged files have no changes.'));
+            return;
+          }
+
+          const prepared = await this.provider.prepareDiff(fileDiffs, { signal: abortController.signal });
+          const context = await this.provider.getPromptContext(filePaths);
+
+          // 토큰이 도착할 때마다 입력란을 갱신하고, 끝나면 정리된 메시지로 바꿈
+          let streamed = '';
+          repo.inputBox.value = '';
+          const generated = await this.provider.generateCommitMessage(prepared.content, {
+            context,
+            signal: abortController.signal,
+            onToken: token => {
+              streamed += token;
+              repo.inputBox.value = streamed;
+            }
+          });
+
+          // 모델이 실패하면 기본 메시지 대신 원래 입력을 되돌림
+          repo.inputBox.value = generated.fallback ? original : generated.message;
+          if (generated.warnings.length > 0) {
+            vscode.window.showWarningMessage(vscode.l10n.t('Commit convention warnings: {0}', generated.warnings.map(warning => warning.message).join(', ')));
+          }
+        }
+      );
+    } catch (error: any) {
+      repo.inputBox.value = original;
+      if (!(error instanceof vscode.CancellationError)) {
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to generate the commit message: {0}', error.message));
+        console.error('Error generating commit message into the input box:', error);
+      }
+    } finally {
+      this.running.delete(root);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import axios, { AxiosInstance } from 'axios';
+import { readLines } from './streamLines';
+import { ChatMessage, CompletionOptions, LlmProvider } from './types';
+
+export const DEFAULT_ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Provider for the Anthropic Messages API
+ */
+export class AnthropicProvider implements LlmProvider {
+  public readonly id = 'anthropic';
+  private http: AxiosInstance;
+
+  constructor(public readonly model: string, apiKey: string, baseUrl?: string) {
+    this.http = axios.create({
+      baseURL: (baseUrl || DEFAULT_ANTHROPIC_BASE_URL).replace(/\/+$/, ''),
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+    });
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    // Anthropic은 system 메시지를 별도 필드로 받음
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const conversation = messages.filter(m => m.role !== 'system');
+
+    const body = {
+      model: this.model,
+      system: system || undefined,
+      messages: conversation,
+      max_tokens: options.maxTokens ?? 1024,
+      temperature: options.temperature,
+      stream: !!options.onToken,
+    };
+
+    if (options.onToken) {
+      return this.stream(body, options.onToken, options.signal);
+    }
+
+    const response = await this.http.post('/v1/messages', body, { signal: options.signal });
+
+    const blocks: { type: string; text?: string }[] = response.data?.content ?? [];
+    return blocks
+      .filter(block => block.type === 'text')
+      .map(block => block.text ?? '')
+      .join('');
+  }
+
+  // 서버 전송 이벤트(SSE)에서 텍스트 델타만 모음
+  private async stream(body: object, onToken: (token: string) => void, signal?: AbortSignal): Promise<string> {
+    const response = await this.http.post('/v1/messages', body, { signal, responseType: 'stream' });
+    let content = '';
+    for await (const line of readLines(response.data)) {
+      if (!line.startsWith('data:')) {
+        continue;
+      }
+      const event = JSON.parse(line.slice(5));
+      if (event.type === 'error') {
+        throw new Error(`Anthropic error: ${event.error?.message ?? 'unknown error'}`);
+      }
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        content += event.delta.text;
+        onToken(event.delta.text);
+      }
+    }
+    return content;
+  }
+}
@@ -0,0 +1,30 @@
+import { AzureOpenAI } from 'openai';
+import { OpenAiProvider } from './openAiProvider';
+
+export const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+/**
+ * Create a provider for an Azure OpenAI deployment.
+ * Azure routes requests by deployment name, so the model name is only informational.
+ */
+export function createAzureOpenAiProvider(options: {
+  apiKey?: string;
+  endpoint?: string;
+  deployment?: string;
+  apiVersion?: string;
+}): OpenAiProvider {
+  if (!options.endpoint) {
+    throw new Error('Azure OpenAI requires a base URL (e.g. https://<resource>.openai.azure.com).');
+  }
+  if (!options.deployment) {
+    throw new Error('Azure OpenAI requires a deployment name.');
+  }
+
+  const client = new AzureOpenAI({
+    apiKey: options.apiKey,
+    endpoint: options.endpoint,
+    deployment: options.deployment,
+    apiVersion: options.apiVersion || DEFAULT_AZURE_API_VERSION,
+  });
+  return new OpenAiProvider('azure-openai', options.deployment, client);
+}
@@ -0,0 +1,79 @@
+import { AnthropicProvider } from './anthropicProvider';
+import { createAzureOpenAiProvider } from './azureOpenAiProvider';
+import { OllamaProvider } from './ollamaProvider';
+import { OpenAiProvider } from './openAiProvider';
+import { LlmProvider, LlmProviderId, LlmSettings } from './types';
+
+export * from './types';
+
+export const LLM_PROVIDER_IDS: LlmProviderId[] = ['openai', 'azure-openai', 'openai-compatible', 'ollama', 'anthropic'];
+
+/**
+ * Legacy plaintext setting and environment variable of each provider's API key
+ */
+export const API_KEY_SOURCES: Record<LlmProviderId, { setting?: string; env?: string }> = {
+  'openai': { setting: 'openaiApiKey', env: 'OPENAI_API_KEY' },
+  'openai-compatible': { setting: 'openaiApiKey', env: 'OPENAI_API_KEY' },
+  'azure-openai': { setting: 'azureOpenaiApiKey', env: 'AZURE_OPENAI_API_KEY' },
+  'ollama': {},
+  'anthropic': { setting: 'anthropicApiKey', env: 'ANTHROPIC_API_KEY' },
+};
+
+/**
+ * Model used when the `model` setting is left empty
+ */
+export const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+  'openai': 'gpt-4',
+  'azure-openai': '',
+  'openai-compatible': '',
+  'ollama': 'llama3.1',
+  'anthropic': 'claude-3-5-sonnet-latest',
+};
+
+/**
+ * Whether the provider refuses requests without an API key
+ * @param id Provider identifier
+ */
+export function requiresApiKey(id: LlmProviderId): boolean {
+  return id === 'openai' || id === 'azure-openai' || id === 'anthropic';
+}
+
+/**
+ * Create the LLM provider described by the given settings
+ * @param settings Resolved provider settings
+ * @returns Provider instance
+ * @throws Error if a required setting (API key, base URL, model) is missing
+ */
+export function createLlmProvider(settings: LlmSettings): LlmProvider {
+  const model = settings.model || DEFAULT_MODELS[settings.provider];
+
+  if (requiresApiKey(settings.provider) && !settings.apiKey) {
+    throw new Error(`API key for provider "${settings.provider}" is not set.`);
+  }
+
+  switch (settings.provider) {
+    case 'openai':
+      return OpenAiProvider.create({ id: 'openai', apiKey: settings.apiKey, baseUrl: settings.baseUrl, model });
+    case 'openai-compatible':
+      if (!settings.baseUrl) {
+        throw new Error('OpenAI-compatible provider requires a base URL.');
+      }
+      if (!model) {
+        throw new Error('OpenAI-compatible provider requires a model name.');
+      }
+      return OpenAiProvider.create({ id: 'openai-compatible', apiKey: settings.apiKey, baseUrl: settings.baseUrl, model });
+    case 'azure-openai':
+      return createAzureOpenAiProvider({
+        apiKey: settings.apiKey,
+        endpoint: settings.baseUrl,
+        deployment: settings.deployment,
+        apiVersion: settings.apiVersion,
+      });
+    case 'ollama':
+      return new OllamaProvider(model, settings.baseUrl);
+    case 'anthropic':
+      return new AnthropicProvider(model, settings.apiKey!, settings.baseUrl);
+    default:
+      throw new Error(`Unknown LLM provider: ${settings.provider}`);
+  }
+}
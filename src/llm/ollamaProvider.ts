@@ -0,0 +1,53 @@
+import axios, { AxiosInstance } from 'axios';
+import { readLines } from './streamLines';
+import { ChatMessage, CompletionOptions, LlmProvider } from './types';
+
+export const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+
+/**
+ * Provider for a local Ollama server using its native /api/chat endpoint
+ */
+export class OllamaProvider implements LlmProvider {
+  public readonly id = 'ollama';
+  private http: AxiosInstance;
+
+  constructor(public readonly model: string, baseUrl?: string) {
+    this.http = axios.create({ baseURL: (baseUrl || DEFAULT_OLLAMA_BASE_URL).replace(/\/+$/, '') });
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    const body = {
+      model: this.model,
+      messages,
+      stream: !!options.onToken,
+      options: {
+        num_predict: options.maxTokens,
+        temperature: options.temperature,
+      },
+    };
+
+    if (!options.onToken) {
+      const response = await this.http.post('/api/chat', body, { signal: options.signal });
+      return response.data?.message?.content ?? '';
+    }
+
+    // 스트리밍 응답은 줄 단위 JSON(NDJSON)
+    const response = await this.http.post('/api/chat', body, { signal: options.signal, responseType: 'stream' });
+    let content = '';
+    for await (const line of readLines(response.data)) {
+      if (!line.trim()) {
+        continue;
+      }
+      const event = JSON.parse(line);
+      if (event.error) {
+        throw new Error(`Ollama error: ${event.error}`);
+      }
+      const token: string | undefined = event.message?.content;
+      if (token) {
+        content += token;
+        options.onToken(token);
+      }
+    }
+    return content;
+  }
+}
@@ -0,0 +1,52 @@
+import { OpenAI } from 'openai';
+import { ChatMessage, CompletionOptions, LlmProvider, LlmProviderId } from './types';
+
+/**
+ * Provider for the OpenAI API and any server that speaks the same
+ * chat completions protocol (LiteLLM, vLLM, llama.cpp server, ...)
+ */
+export class OpenAiProvider implements LlmProvider {
+  private client: OpenAI;
+
+  constructor(
+    public readonly id: LlmProviderId,
+    public readonly model: string,
+    client: OpenAI
+  ) {
+    this.client = client;
+  }
+
+  static create(options: { id: LlmProviderId; apiKey?: string; baseUrl?: string; model: string }): OpenAiProvider {
+    const client = new OpenAI({
+      // OpenAI 호환 서버는 키가 없어도 되지만 SDK는 빈 값을 허용하지 않음
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseUrl || undefined,
+    });
+    return new OpenAiProvider(options.id, options.model, client);
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    const params = {
+      model: this.model,
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+    };
+
+    if (!options.onToken) {
+      const response = await this.client.chat.completions.create(params, { signal: options.signal });
+      return response.choices[0]?.message?.content ?? '';
+    }
+
+    const stream = await this.client.chat.completions.create({ ...params, stream: true }, { signal: options.signal });
+    let content = '';
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) {
+        content += token;
+        options.onToken(token);
+      }
+    }
+    return content;
+  }
+}
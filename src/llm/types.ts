@@ -0,0 +1,51 @@
+/**
+ * Identifiers of the supported LLM backends
+ */
+export type LlmProviderId = 'openai' | 'azure-openai' | 'openai-compatible' | 'ollama' | 'anthropic';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  maxTokens?: number;
+  temperature?: number;
+  /** Aborts the in-flight request */
+  signal?: AbortSignal;
+  /** When set, the reply is streamed and each text delta is passed here as it arrives */
+  onToken?: (token: string) => void;
+}
+
+/**
+ * Resolved settings used to construct an LLM provider
+ */
+export interface LlmSettings {
+  provider: LlmProviderId;
+  /** API key for the selected provider (optional for local servers) */
+  apiKey?: string;
+  /** Base URL of the API endpoint. Empty means the provider default. */
+  baseUrl?: string;
+  /** Model name. Empty means the provider default. */
+  model?: string;
+  /** Azure OpenAI deployment name */
+  deployment?: string;
+  /** Azure OpenAI API version */
+  apiVersion?: string;
+}
+
+/**
+ * Common interface implemented by every LLM backend
+ */
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly model: string;
+
+  /**
+   * Send a chat conversation to the model and return the full reply
+   * @param messages Conversation to send
+   * @param options Sampling, streaming and cancellation options
+   * @returns Text content of the model reply (also when streamed)
+   */
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+}
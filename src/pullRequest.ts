@@ -0,0 +1,171 @@
+import { LogCommit, readCommits } from './commitLog';
+import { languageName } from './conventions';
+import { runGit } from './gitDiff';
+
+/**
+ * Commits and changed files of the current branch since it left the target branch
+ */
+export interface BranchChanges {
+  /** Target branch as found in the repository, e.g. `main` or `origin/main` */
+  target: string;
+  /** Merge base of the target branch and HEAD */
+  mergeBase: string;
+  /** Commits since the merge base, oldest first */
+  commits: LogCommit[];
+  /** Changed files relative to the repository root, using `/` separators */
+  files: string[];
+}
+
+/**
+ * Generated pull request
+ */
+export interface PullRequest {
+  title: string;
+  /** Markdown description */
+  body: string;
+}
+
+/**
+ * Values substituted into the pull request template
+ */
+export interface PullRequestPromptVariables {
+  diff: string;
+  commits: LogCommit[];
+  files: string[];
+  branch?: string;
+  targetBranch: string;
+  /** Code from `MESSAGE_LANGUAGES`, or a language name */
+  language: string;
+  /** Ticket IDs taken from the branch name */
+  tickets?: string[];
+}
+
+/**
+ * Prompt used when no pull request template is configured
+ */
+export const DEFAULT_PULL_REQUEST_TEMPLATE = `
+You are a helpful assistant that writes pull request descriptions from the commits and changes of a branch.
+Write the title and description of a pull request that merges {branch} into {targetBranch}.
+
+Answer in this format:
+<title>
+
+## Summary
+<one or two sentences on what the pull request does and why>
+
+## Changes
+- <one bullet per notable change>
+
+## Testing
+- <how the changes were tested, or how a reviewer can check them>
+
+The first line is the title: at most 72 characters, without a label or a trailing period.
+Write the title and description in {language}. Do not wrap the answer in a code block.
+{context}Commits:
+{commits}
+
+Changed files:
+{files}
+
+Here is the diff:
+\`\`\`
+{diff}
+\`\`\`
+`;
+
+/**
+ * Collect the commits and changed files of HEAD since it left the target branch
+ * @param gitPath Path of the git executable
+ * @param repoRoot Repository root path
+ * @param targetBranch Branch the pull request merges into. `origin/<name>` is used when there is no local branch
+ *   of that name.
+ * @throws Error if the target branch does not exist or has no common commit with HEAD
+ */
+export async function collectBranchChanges(gitPath: string, repoRoot: string, targetBranch: string): Promise<BranchChanges> {
+  const target = await resolveTargetBranch(gitPath, repoRoot, targetBranch);
+  const mergeBase = (await runGit(gitPath, repoRoot, ['merge-base', target, 'HEAD'], [0, 1])).trim();
+  if (!mergeBase) {
+    throw new Error(`${target} and HEAD have no common commit.`);
+  }
+
+  const [commits, names] = await Promise.all([
+    readCommits(gitPath, repoRoot, `${mergeBase}..HEAD`),
+    runGit(gitPath, repoRoot, ['diff', '--name-only', '-z', '-M', mergeBase, 'HEAD']),
+  ]);
+
+  return {
+    target,
+    mergeBase,
+    commits,
+    files: names.split('\0').filter(name => name),
+  };
+}
+
+/**
+ * Build the prompt asking the model for a pull request title and description.
+ * Supported placeholders: {diff}, {commits}, {files}, {branch}, {targetBranch}, {language}, {tickets} and
+ * {context} (the ticket section of the default template). Unknown placeholders are left untouched.
+ * @param template Prompt template, e.g. `DEFAULT_PULL_REQUEST_TEMPLATE`
+ * @param variables Values for the placeholders
+ */
+export function buildPullRequestPrompt(template: string, variables: PullRequestPromptVariables): string {
+  const tickets = variables.tickets ?? [];
+  const values: Record<string, string> = {
+    diff: variables.diff,
+    commits: variables.commits.map(formatCommit).join('\n') || '(none)',
+    files: variables.files.map(file => `- ${file}`).join('\n') || '(none)',
+    branch: variables.branch || 'the current branch',
+    targetBranch: variables.targetBranch,
+    language: languageName(variables.language),
+    tickets: tickets.join(', '),
+    context: tickets.length > 0 ? `Ticket IDs from the branch name, mention them in the description: ${tickets.join(', ')}\n` : '',
+  };
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match);
+}
+
+/**
+ * Split the model's answer into the pull request title (first line) and description (the rest)
+ * @param raw Raw model output
+ * @throws Error if the answer has no title
+ */
+export function parsePullRequest(raw: string): PullRequest {
+  let text = raw.replace(/\r\n/g, '\n').trim();
+
+  // 답 전체를 감싼 코드 블록만 벗김 (본문 안의 코드 블록은 유지)
+  const fenced = text.match(/^```[\w-]*\n([\s\S]*?)\n?```$/);
+  if (fenced) {
+    text = fenced[1].trim();
+  }
+
+  const lines = text.split('\n');
+  const titleLine = lines.shift() ?? '';
+  const title = titleLine
+    .replace(/^#+\s*/, '')
+    .replace(/^\**(?:pr |pull request )?title\**\s*[:：]\s*\**/i, '')
+    .replace(/\*+$/, '')
+    .trim()
+    .replace(/^(["'`])(.*)\1$/, '$2');
+  if (!title) {
+    throw new Error('The model did not return a pull request title.');
+  }
+
+  return { title, body: lines.join('\n').trim() };
+}
+
+// 로컬 브랜치가 없으면 origin의 원격 브랜치를 사용
+async function resolveTargetBranch(gitPath: string, repoRoot: string, targetBranch: string): Promise<string> {
+  for (const candidate of [targetBranch, `origin/${targetBranch}`]) {
+    const output = await runGit(gitPath, repoRoot, ['rev-parse', '--verify', '--quiet', `${candidate}^{commit}`], [0, 1]);
+    if (output.trim()) {
+      return candidate;
+    }
+  }
+  throw new Error(`The target branch ${targetBranch} was not found.`);
+}
+
+// 제목은 목록 항목으로, 본문은 그 아래 들여쓴 줄로
+function formatCommit(commit: LogCommit): string {
+  const body = commit.body ? `\n${commit.body.split('\n').map(line => `  ${line}`).join('\n')}` : '';
+  return `- ${commit.subject}${body}`;
+}
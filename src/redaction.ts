@@ -0,0 +1,250 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileDiff } from './diffBudget';
+import { matchesAnyGlob } from './glob';
+
+/**
+ * Finds one kind of secret in diff text
+ */
+export interface SecretDetector {
+  id: string;
+  /** Global regular expression matching the secret */
+  pattern: RegExp;
+  /** Capture group holding the secret itself; the rest of the match is kept. Defaults to the whole match. */
+  group?: number;
+  /** Rejects matches that are not secrets (placeholders, hashes, identifiers) */
+  validate?: (value: string) => boolean;
+}
+
+/**
+ * A secret that was masked before the diff was sent to the model
+ */
+export interface Redaction {
+  /** Display path of the file */
+  path: string;
+  /** ID of the detector that found it */
+  detector: string;
+  /** 1-based line in the file's diff */
+  line: number;
+  /** First characters of the secret and its length, safe to display */
+  preview: string;
+}
+
+export interface ScrubbedFileDiff extends FileDiff {
+  redactions: Redaction[];
+  /** True when the content was dropped because the file matched an excluded pattern */
+  excluded: boolean;
+}
+
+export interface RedactionOptions {
+  /** Use the built-in detectors and excluded files */
+  builtIn: boolean;
+  /** User-defined regular expressions. If a pattern has a capture group, only the first group is masked. */
+  patterns: string[];
+  /** Glob patterns of files whose content is never sent */
+  excludedFiles: string[];
+}
+
+/**
+ * Per-repository file with gitignore-style patterns of files whose content is never sent
+ */
+export const IGNORE_FILE_NAME = '.commitwithaiignore';
+
+/**
+ * Files that usually hold credentials
+ */
+export const DEFAULT_EXCLUDED_FILES = [
+  '.env',
+  '.env.*',
+  '*.pem',
+  '*.key',
+  '*.p12',
+  '*.pfx',
+  '*.jks',
+  '*.keystore',
+  'id_rsa',
+  'id_dsa',
+  'id_ecdsa',
+  'id_ed25519',
+  '.npmrc',
+  '.netrc',
+  '.pgpass',
+];
+
+// 자리표시자, 환경 변수 참조, 함수 호출처럼 실제 값이 아닌 것
+function isLiteralValue(value: string): boolean {
+  return !/^[$<{%]/.test(value)
+    && !/[()]/.test(value)
+    && !/^(?:process|os|env|config|settings|self|this)\./i.test(value)
+    && !/^(.)\1+$/.test(value);
+}
+
+// 무작위 문자열처럼 보이는지 (문자와 숫자가 섞여 있고 엔트로피가 높음)
+function looksRandom(value: string): boolean {
+  return /\d/.test(value)
+    && /[a-z]/i.test(value)
+    && !/^[0-9a-f]+$/i.test(value)
+    && !/^sha\d+-/.test(value)
+    && shannonEntropy(value) >= 4;
+}
+
+/**
+ * Built-in detectors, applied in order
+ */
+export const BUILT_IN_DETECTORS: SecretDetector[] = [
+  {
+    id: 'private-key',
+    pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?(?:-----END [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----|$)/g,
+  },
+  {
+    id: 'aws-access-key',
+    pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    id: 'aws-secret-key',
+    pattern: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})/gi,
+    group: 1,
+  },
+  {
+    id: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    id: 'token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,}|glpat-[A-Za-z0-9_-]{20,}|xox[abposr]-[A-Za-z0-9-]{10,}|sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}|[sr]k_(?:live|test)_[A-Za-z0-9]{16,}|AIza[0-9A-Za-z_-]{35}|npm_[A-Za-z0-9]{36}|SG\.[A-Za-z0-9_-]{22}\.[A-Za-z0-9_-]{43})/g,
+  },
+  {
+    id: 'connection-string',
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@"']+:([^\s@"'/]+)@/gi,
+    group: 1,
+    validate: isLiteralValue,
+  },
+  {
+    id: 'credential-assignment',
+    pattern: /(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|client[_-]?secret|auth)[\w-]*["']?\s*[:=]\s*["']?([^\s"'`,;]{8,})/gi,
+    group: 1,
+    validate: value => isLiteralValue(value) && /\d/.test(value),
+  },
+  {
+    id: 'high-entropy-string',
+    pattern: /(["'`])([A-Za-z0-9+/=_-]{24,})\1/g,
+    group: 2,
+    validate: looksRandom,
+  },
+];
+
+/**
+ * Shannon entropy of a string in bits per character
+ * @param value Text to measure
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Read the patterns of a repository's `.commitwithaiignore`
+ * @param repoRoot Repository root path
+ * @returns Patterns, without comments and blank lines. Empty if the file does not exist.
+ */
+export function readIgnoreFile(repoRoot: string): string[] {
+  const filePath = path.join(repoRoot, IGNORE_FILE_NAME);
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  return fs.readFileSync(filePath, 'utf8')
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '' && !line.startsWith('#'));
+}
+
+/**
+ * Build the detectors for the options
+ * @param options Redaction options
+ * @returns Detectors, and the user patterns that are not valid regular expressions
+ */
+export function compileDetectors(options: RedactionOptions): { detectors: SecretDetector[], invalid: string[] } {
+  const detectors = options.builtIn ? [...BUILT_IN_DETECTORS] : [];
+  const invalid: string[] = [];
+
+  options.patterns.forEach((source, index) => {
+    try {
+      const pattern = new RegExp(source, 'g');
+      // 캡처 그룹이 있으면 첫 번째 그룹만 가림
+      const hasGroup = new RegExp(`${source}|`).exec('')!.length > 1;
+      detectors.push({ id: `custom-${index + 1}`, pattern, group: hasGroup ? 1 : 0 });
+    } catch {
+      invalid.push(source);
+    }
+  });
+
+  return { detectors, invalid };
+}
+
+/**
+ * Mask secrets in text
+ * @param text Text to scrub
+ * @param detectors Detectors to apply, in order
+ * @returns Scrubbed text and what was masked (without the file path)
+ */
+export function redactSecrets(text: string, detectors: SecretDetector[]): { text: string, redactions: Omit<Redaction, 'path'>[] } {
+  const redactions: Omit<Redaction, 'path'>[] = [];
+  let result = text;
+
+  for (const detector of detectors) {
+    const pattern = new RegExp(detector.pattern.source, detector.pattern.flags.includes('g') ? detector.pattern.flags : detector.pattern.flags + 'g');
+    result = result.replace(pattern, (...args) => {
+      const match: string = args[0];
+      const offset: number = args.find((arg, index) => index > 0 && typeof arg === 'number');
+      const value: string | undefined = detector.group ? args[detector.group] : match;
+      if (!value || match === '' || (detector.validate && !detector.validate(value))) {
+        return match;
+      }
+
+      redactions.push({
+        detector: detector.id,
+        line: result.slice(0, offset).split('\n').length,
+        preview: `${value.slice(0, 4)}… (${value.length} chars)`,
+      });
+      const mask = `[REDACTED:${detector.id}]`;
+      return detector.group ? match.replace(value, mask) : mask;
+    });
+  }
+
+  return { text: result, redactions };
+}
+
+/**
+ * Scrub a file diff before it is put in a prompt.
+ * Content of excluded files is dropped entirely; other diffs have their secrets masked.
+ * @param file File diff
+ * @param repoRelativePath Path relative to the repository root, matched against the excluded patterns
+ * @param detectors Detectors from `compileDetectors`
+ * @param excludedFiles Glob patterns of files whose content is never sent
+ */
+export function scrubFileDiff(
+  file: FileDiff,
+  repoRelativePath: string,
+  detectors: SecretDetector[],
+  excludedFiles: string[]
+): ScrubbedFileDiff {
+  if (matchesAnyGlob(repoRelativePath, excludedFiles)) {
+    return { path: file.path, diff: '(content excluded from AI context)', redactions: [], excluded: true };
+  }
+
+  const { text, redactions } = redactSecrets(file.diff, detectors);
+  return {
+    path: file.path,
+    diff: text,
+    redactions: redactions.map(redaction => ({ path: file.path, ...redaction })),
+    excluded: false,
+  };
+}
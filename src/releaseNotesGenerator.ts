@@ -0,0 +1,159 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AiCommitProvider, showSetupIssue } from './aiCommitProvider';
+import { formatChangelog, groupCommits, prependRelease, ReleaseInfo } from './changelog';
+import { resolveRepository } from './gitRepositories';
+
+/**
+ * Changelog file the release sections are added to, in the repository root
+ */
+export const CHANGELOG_FILE_NAME = 'CHANGELOG.md';
+
+interface RefItem extends vscode.QuickPickItem {
+  /** Revision, undefined for the start of the history */
+  ref?: string;
+  /** Asks for a revision instead */
+  custom?: boolean;
+}
+
+interface ModeItem extends vscode.QuickPickItem {
+  useModel: boolean;
+}
+
+/**
+ * Adds a release section built from the commits between two revisions to the repository's CHANGELOG.md,
+ * written by the model or grouped by commit type only.
+ */
+export class ReleaseNotesGenerator {
+  constructor(private readonly provider: AiCommitProvider) {}
+
+  /**
+   * Ask for the range, version and mode, then add the release to CHANGELOG.md in an editor for review.
+   * @param target Source control (from `scm/title`) or a resource URI. Without it the repository of the active
+   *   editor, the only repository, or the one picked by the user is used.
+   */
+  async run(target?: vscode.SourceControl | vscode.Uri): Promise<void> {
+    const repo = await resolveRepository(target, vscode.l10n.t('Select the repository to generate the changelog for'));
+    if (!repo) {
+      return;
+    }
+    const root: string = repo.rootUri.fsPath;
+    const tags = await this.provider.getTags(root);
+
+    // 시작은 가장 최근 태그, 끝은 HEAD가 기본값
+    const from = await pickRef([
+      ...tags.map(tag => ({ label: tag, ref: tag })),
+      { label: vscode.l10n.t('Beginning of history'), description: vscode.l10n.t('All commits') },
+    ], vscode.l10n.t('Select the tag or revision the release starts after'));
+    if (!from) {
+      return;
+    }
+    const newerTags = from.ref && tags.includes(from.ref) ? tags.slice(0, tags.indexOf(from.ref)) : tags;
+    const to = await pickRef([
+      { label: 'HEAD', ref: 'HEAD' },
+      ...newerTags.map(tag => ({ label: tag, ref: tag })),
+    ], vscode.l10n.t('Select the last tag or revision of the release'));
+    if (!to?.ref) {
+      return;
+    }
+
+    const version = await vscode.window.showInputBox({
+      title: vscode.l10n.t('Release Version'),
+      prompt: vscode.l10n.t('Version of the release heading, or "Unreleased"'),
+      value: to.ref === 'HEAD' ? 'Unreleased' : to.ref.replace(/^v(?=\d)/, ''),
+      ignoreFocusOut: true,
+      validateInput: value => /^[^\s\]]+$/.test(value.trim()) ? undefined : vscode.l10n.t('Enter a version without spaces.')
+    });
+    if (!version) {
+      return;
+    }
+
+    const mode = await vscode.window.showQuickPick<ModeItem>([
+      { label: vscode.l10n.t('Release notes written by AI'), detail: vscode.l10n.t('The model rewrites the grouped commits for users.'), useModel: true },
+      { label: vscode.l10n.t('Changelog from commit types'), detail: vscode.l10n.t('Lists the commit subjects by type without the model.'), useModel: false },
+    ], { placeHolder: vscode.l10n.t('How should the release be written?') });
+    if (!mode) {
+      return;
+    }
+
+    const setupIssue = mode.useModel ? await this.provider.getSetupIssue() : undefined;
+    if (setupIssue) {
+      await showSetupIssue(setupIssue);
+      return;
+    }
+
+    const commits = await this.provider.getCommits(root, from.ref, to.ref);
+    if (commits.length === 0) {
+      vscode.window.showWarningMessage(vscode.l10n.t('There are no commits between {0} and {1}.', from.ref ?? vscode.l10n.t('the beginning of history'), to.ref));
+      return;
+    }
+
+    const release: ReleaseInfo = { version: version.trim(), date: formatDate(new Date()) };
+    const groups = groupCommits(commits);
+    let section: string;
+    if (mode.useModel) {
+      try {
+        section = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: vscode.l10n.t('Writing release notes...'), cancellable: true },
+          (_progress, token) => {
+            const abortController = new AbortController();
+            token.onCancellationRequested(() => abortController.abort());
+            return this.provider.generateReleaseNotes(root, release, groups, { signal: abortController.signal });
+          }
+        );
+      } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+          return;
+        }
+        throw error;
+      }
+    } else {
+      section = formatChangelog(release, groups);
+    }
+
+    await this.addToChangelog(root, section);
+  }
+
+  // CHANGELOG.md를 편집기에서 고치고 저장은 사용자에게 맡김 (없으면 새 파일로 열기)
+  private async addToChangelog(root: string, section: string): Promise<void> {
+    const fileUri = vscode.Uri.file(path.join(root, CHANGELOG_FILE_NAME));
+    let exists = true;
+    try {
+      await vscode.workspace.fs.stat(fileUri);
+    } catch {
+      exists = false;
+    }
+
+    const document = await vscode.workspace.openTextDocument(exists ? fileUri : fileUri.with({ scheme: 'untitled' }));
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)), prependRelease(document.getText(), section));
+    await vscode.workspace.applyEdit(edit);
+    await vscode.window.showTextDocument(document);
+    vscode.window.showInformationMessage(vscode.l10n.t('Added the release to {0}. Review and save the file.', CHANGELOG_FILE_NAME));
+  }
+}
+
+// 목록에서 고르거나 직접 입력한 리비전
+async function pickRef(items: RefItem[], placeHolder: string): Promise<RefItem | undefined> {
+  const picked = await vscode.window.showQuickPick<RefItem>([
+    ...items,
+    { label: vscode.l10n.t('Enter a revision...'), custom: true },
+  ], { placeHolder });
+  if (!picked?.custom) {
+    return picked;
+  }
+
+  const ref = await vscode.window.showInputBox({
+    prompt: placeHolder,
+    placeHolder: vscode.l10n.t('Tag, branch or commit hash'),
+    ignoreFocusOut: true,
+    validateInput: value => value.trim() ? undefined : vscode.l10n.t('Enter a revision.')
+  });
+  return ref ? { label: ref.trim(), ref: ref.trim() } : undefined;
+}
+
+// 로컬 날짜를 YYYY-MM-DD로
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { runGit } from './gitDiff';
+
+/**
+ * Default pattern of ticket IDs in branch names (e.g. `PROJ-123`), matched case-insensitively
+ */
+export const DEFAULT_TICKET_PATTERN = '[A-Z][A-Z0-9]+-\\d+';
+
+/**
+ * Which repository context is added to the prompt
+ */
+export interface ContextSettings {
+  branch: boolean;
+  ticketPattern: string;
+  recentCommits: number;
+  scopes: boolean;
+}
+
+/**
+ * Repository context gathered for the prompt
+ */
+export interface RepositoryContext {
+  branch?: string;
+  /** Ticket IDs taken from the branch name */
+  tickets?: string[];
+  /** Subjects of recent commits, used as style examples */
+  recentCommits?: string[];
+  /** Package or workspace names touched by the changed files */
+  scopes?: string[];
+}
+
+// 디렉터리 이름만으로도 범위가 되는 모노레포 폴더
+const WORKSPACE_FOLDERS = ['packages', 'apps', 'libs', 'services', 'modules', 'plugins', 'crates'];
+
+/**
+ * Pull ticket IDs out of a branch name
+ * @param branch Branch name, e.g. `feature/proj-123-login`
+ * @param pattern Regular expression source of a ticket ID
+ * @returns Unique ticket IDs in upper case, in order of appearance
+ */
+export function extractTickets(branch: string, pattern: string = DEFAULT_TICKET_PATTERN): string[] {
+  const tickets = (branch.match(new RegExp(`(?<![A-Za-z0-9])${pattern}(?![A-Za-z0-9])`, 'gi')) ?? [])
+    .map(ticket => ticket.toUpperCase());
+  return [...new Set(tickets)];
+}
+
+/**
+ * Name of the checked-out branch
+ * @param gitPath Path of the git executable
+ * @param repoRoot Repository root path
+ * @returns Branch name, or undefined when HEAD is detached or cannot be read
+ */
+export async function readCurrentBranch(gitPath: string, repoRoot: string): Promise<string | undefined> {
+  try {
+    const output = await runGit(gitPath, repoRoot, ['symbolic-ref', '--quiet', '--short', 'HEAD'], [0, 1]);
+    return output.trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Gather the repository context enabled in the settings
+ * @param gitPath Path of the git executable
+ * @param repoRoot Repository root path
+ * @param branch Checked-out branch, if any
+ * @param relativePaths Changed files relative to the repository root
+ * @param settings Which parts to include
+ * @param onError Receives the error of an invalid ticket pattern. The tickets are left out.
+ */
+export async function collectRepositoryContext(
+  gitPath: string,
+  repoRoot: string,
+  branch: string | undefined,
+  relativePaths: string[],
+  settings: ContextSettings,
+  onError?: (error: Error) => void
+): Promise<RepositoryContext> {
+  const context: RepositoryContext = {};
+
+  if (settings.branch && branch) {
+    context.branch = branch;
+    try {
+      context.tickets = extractTickets(branch, settings.ticketPattern);
+    } catch (error: any) {
+      onError?.(error);
+    }
+  }
+
+  context.recentCommits = await readRecentCommitSubjects(gitPath, repoRoot, settings.recentCommits);
+
+  if (settings.scopes) {
+    context.scopes = findScopes(repoRoot, relativePaths);
+  }
+
+  return context;
+}
+
+/**
+ * Subjects of the most recent commits, used as style examples
+ * @param gitPath Path of the git executable
+ * @param repoRoot Repository root path
+ * @param count Number of commits
+ * @returns Subjects, newest first. Empty if the repository has no commits.
+ */
+export async function readRecentCommitSubjects(gitPath: string, repoRoot: string, count: number): Promise<string[]> {
+  if (count <= 0) {
+    return [];
+  }
+  try {
+    const output = await runGit(gitPath, repoRoot, ['log', `-n${count}`, '--no-merges', '--format=%s']);
+    return output.split('\n').map(line => line.trim()).filter(line => line);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Package or workspace names touched by the changed files, used as scope hints.
+ * The nearest manifest below the repository root (package.json, Cargo.toml, pyproject.toml) names the scope;
+ * without one, a folder directly under a common monorepo folder (`packages/`, `apps/`, ...) is used.
+ * @param repoRoot Repository root path
+ * @param relativePaths Changed files relative to the repository root
+ * @returns Unique scope names, without npm organization prefixes
+ */
+export function findScopes(repoRoot: string, relativePaths: string[]): string[] {
+  const scopes = new Set<string>();
+  const cache = new Map<string, string | undefined>();
+
+  for (const relativePath of relativePaths) {
+    const segments = relativePath.split(/[\\/]/);
+    let scope: string | undefined;
+
+    // 파일에서 가까운 디렉터리부터 저장소 루트 바로 아래까지 매니페스트를 찾음
+    for (let depth = segments.length - 1; depth > 0 && !scope; depth--) {
+      const dir = segments.slice(0, depth).join('/');
+      if (!cache.has(dir)) {
+        cache.set(dir, readManifestName(path.join(repoRoot, dir)));
+      }
+      scope = cache.get(dir);
+    }
+
+    if (!scope && segments.length > 2 && WORKSPACE_FOLDERS.includes(segments[0])) {
+      scope = segments[1];
+    }
+    if (scope) {
+      scopes.add(scope.replace(/^@[^/]+\//, ''));
+    }
+  }
+
+  return [...scopes];
+}
+
+// 디렉터리의 매니페스트에서 패키지 이름을 읽음
+function readManifestName(dir: string): string | undefined {
+  const packageJson = path.join(dir, 'package.json');
+  if (fs.existsSync(packageJson)) {
+    try {
+      const name = JSON.parse(fs.readFileSync(packageJson, 'utf8')).name;
+      if (typeof name === 'string' && name) {
+        return name;
+      }
+    } catch {
+      // 잘못된 package.json은 무시
+    }
+  }
+
+  for (const manifest of ['Cargo.toml', 'pyproject.toml']) {
+    const manifestPath = path.join(dir, manifest);
+    if (fs.existsSync(manifestPath)) {
+      const match = fs.readFileSync(manifestPath, 'utf8').match(/^name\s*=\s*["']([^"']+)["']/m);
+      if (match) {
+        return match[1];
+      }
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AiCommitProvider } from '../aiCommitProvider';
+import { GeneratedCommit, GenerateOptions } from '../commitGenerator';
+import { ApiKeyStore } from '../apiKeyStore';
+
+// 키가 없는 가짜 저장소로 공급자를 만들고, 메시지 생성은 정해진 결과로 바꿈
+function fakeProvider(generate: (options: GenerateOptions) => Promise<GeneratedCommit>) {
+	const keys = new vscode.EventEmitter<void>();
+	const apiKeys = { get: async () => undefined, onDidChange: keys.event } as unknown as ApiKeyStore;
+	const provider = new AiCommitProvider({ subscriptions: [] } as unknown as vscode.ExtensionContext, apiKeys);
+	provider.generateCommitMessage = (_diffContent, options = {}) => generate(options);
+	return provider;
+}
+
+suite('AI Commit Provider Test Suite', () => {
+	test('one candidate is generated per variant, with tokens tagged by candidate', async () => {
+		const provider = fakeProvider(async options => {
+			options.onToken?.(`${options.variant?.label}!`);
+			return { message: `feat: ${options.variant?.label}`, warnings: [], fallback: false, promptTokens: 1 };
+		});
+		const tokens: [number, string][] = [];
+
+		const candidates = await provider.generateCandidates('+x', 3, {}, (index, token) => tokens.push([index, token]));
+
+		assert.deepStrictEqual(candidates.map(candidate => candidate.message), ['feat: Default', 'feat: Concise', 'feat: Detailed']);
+		assert.deepStrictEqual(tokens.sort(), [[0, 'Default!'], [1, 'Concise!'], [2, 'Detailed!']]);
+	});
+
+	test('the other candidates are skipped when the first one falls back', async () => {
+		const labels: (string | undefined)[] = [];
+		const provider = fakeProvider(async options => {
+			labels.push(options.variant?.label);
+			return { message: 'feat: implement requested changes', warnings: [], fallback: true, promptTokens: 0 };
+		});
+
+		const candidates = await provider.generateCandidates('+x', 3);
+
+		assert.strictEqual(candidates.length, 1);
+		assert.deepStrictEqual(labels, ['Default']);
+	});
+});
@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ApiKeyStore } from '../apiKeyStore';
+
+// 메모리에 저장하는 가짜 SecretStorage
+function fakeSecrets() {
+	const values = new Map<string, string>();
+	const emitter = new vscode.EventEmitter<vscode.SecretStorageChangeEvent>();
+	return {
+		values,
+		get: async (key: string) => values.get(key),
+		store: async (key: string, value: string) => {
+			values.set(key, value);
+			emitter.fire({ key });
+		},
+		delete: async (key: string) => {
+			values.delete(key);
+			emitter.fire({ key });
+		},
+		onDidChange: emitter.event,
+	} as unknown as vscode.SecretStorage & { values: Map<string, string> };
+}
+
+// 전역/워크스페이스/폴더 값을 가진 가짜 설정
+function fakeConfig(globalValues: Record<string, string>, workspaceValues: Record<string, string> = {}, folderValues: Record<string, string> = {}) {
+	const updates: { key: string, target: vscode.ConfigurationTarget }[] = [];
+	return {
+		updates,
+		inspect: (key: string) => ({ key, globalValue: globalValues[key], workspaceValue: workspaceValues[key], workspaceFolderValue: folderValues[key] }),
+		update: async (key: string, _value: unknown, target: vscode.ConfigurationTarget) => {
+			updates.push({ key, target });
+		},
+	} as unknown as vscode.WorkspaceConfiguration & { updates: { key: string, target: vscode.ConfigurationTarget }[] };
+}
+
+suite('API Key Store Test Suite', () => {
+	test('keys are stored per provider', async () => {
+		const store = new ApiKeyStore(fakeSecrets());
+		await store.set('openai', 'sk-openai');
+		await store.set('anthropic', 'sk-ant');
+
+		assert.strictEqual(await store.get('openai'), 'sk-openai');
+		assert.strictEqual(await store.get('anthropic'), 'sk-ant');
+		assert.strictEqual(await store.get('azure-openai'), undefined);
+
+		await store.delete('openai');
+		assert.strictEqual(await store.get('openai'), undefined);
+		store.dispose();
+	});
+
+	test('change events carry the provider', async () => {
+		const store = new ApiKeyStore(fakeSecrets());
+		const changed: string[] = [];
+		store.onDidChange(provider => changed.push(provider));
+
+		await store.set('azure-openai', 'key');
+		await store.delete('azure-openai');
+
+		assert.deepStrictEqual(changed, ['azure-openai', 'azure-openai']);
+		store.dispose();
+	});
+
+	test('setting values are migrated and cleared', async () => {
+		const secrets = fakeSecrets();
+		const store = new ApiKeyStore(secrets);
+		const config = fakeConfig({ openaiApiKey: 'global-key', anthropicApiKey: 'sk-ant' }, { openaiApiKey: 'workspace-key' });
+
+		const migrated = await store.migrateFromSettings(config);
+
+		assert.deepStrictEqual(migrated.sort(), ['anthropic', 'openai', 'openai-compatible']);
+		// 워크스페이스 값이 실제로 사용되던 값
+		assert.strictEqual(await store.get('openai'), 'workspace-key');
+		assert.strictEqual(await store.get('openai-compatible'), 'workspace-key');
+		assert.strictEqual(await store.get('anthropic'), 'sk-ant');
+		assert.deepStrictEqual(config.updates, [
+			{ key: 'openaiApiKey', target: vscode.ConfigurationTarget.Workspace },
+			{ key: 'openaiApiKey', target: vscode.ConfigurationTarget.Global },
+			{ key: 'anthropicApiKey', target: vscode.ConfigurationTarget.Global },
+		]);
+		store.dispose();
+	});
+
+	test('workspace folder values are migrated and cleared', async () => {
+		const store = new ApiKeyStore(fakeSecrets());
+		const config = fakeConfig({ anthropicApiKey: 'global-key' });
+		const folders = [fakeConfig({}), fakeConfig({}, {}, { anthropicApiKey: 'folder-key' })];
+
+		const migrated = await store.migrateFromSettings(config, folders);
+
+		assert.deepStrictEqual(migrated, ['anthropic']);
+		// 폴더 값이 전역 값보다 우선함
+		assert.strictEqual(await store.get('anthropic'), 'folder-key');
+		assert.deepStrictEqual(folders.map(folder => folder.updates), [[], [{ key: 'anthropicApiKey', target: vscode.ConfigurationTarget.WorkspaceFolder }]]);
+		assert.deepStrictEqual(config.updates, [{ key: 'anthropicApiKey', target: vscode.ConfigurationTarget.Global }]);
+		store.dispose();
+	});
+
+	test('migration keeps a key already in secret storage', async () => {
+		const store = new ApiKeyStore(fakeSecrets());
+		await store.set('anthropic', 'stored');
+
+		const migrated = await store.migrateFromSettings(fakeConfig({ anthropicApiKey: 'old' }));
+
+		assert.deepStrictEqual(migrated, []);
+		assert.strictEqual(await store.get('anthropic'), 'stored');
+		store.dispose();
+	});
+});
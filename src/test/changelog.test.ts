@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildReleaseNotesPrompt, formatChangelog, groupCommits, parseCommit, parseReleaseNotes, prependRelease } from '../changelog';
+import { readCommits, readTags } from '../commitLog';
+import { git } from './gitFixture';
+
+function commit(hash: string, subject: string, body = '') {
+	return { hash, subject, body };
+}
+
+const CHANGELOG = `# Change Log
+
+All notable changes will be documented in this file.
+
+## [Unreleased]
+
+- Pending change
+
+## [1.0.0] - 2024-01-01
+
+### Added
+
+- First release
+`;
+
+suite('Changelog Test Suite', () => {
+	test('conventional headers are taken apart, with breaking markers and emoji', () => {
+		assert.deepStrictEqual(parseCommit(commit('a', '✨ feat(api)!: drop v1 routes', 'Body.\n\nBREAKING CHANGE: the v1 routes\nare gone.')), {
+			hash: 'a',
+			subject: '✨ feat(api)!: drop v1 routes',
+			body: 'Body.\n\nBREAKING CHANGE: the v1 routes\nare gone.',
+			type: 'feat',
+			scope: 'api',
+			description: 'drop v1 routes',
+			breaking: true,
+			breakingNote: 'the v1 routes are gone.',
+		});
+		const plain = parseCommit(commit('b', 'Update readme'));
+		assert.strictEqual(plain.type, undefined);
+		assert.strictEqual(plain.breaking, false);
+	});
+
+	test('commits are grouped into sections by type and sorted by scope', () => {
+		const groups = groupCommits([
+			commit('1111111aaa', 'feat(ui): add dark mode'),
+			commit('2222222bbb', 'fix: crash on start'),
+			commit('3333333ccc', 'chore: bump deps'),
+			commit('4444444ddd', 'feat(api)!: remove legacy endpoint'),
+			commit('5555555eee', 'Tweak wording'),
+		]);
+
+		assert.deepStrictEqual(Object.keys(groups).sort(), ['Added', 'Breaking Changes', 'Changed', 'Fixed']);
+		assert.deepStrictEqual(groups.Added!.map(entry => entry.scope), ['api', 'ui']);
+		assert.strictEqual(formatChangelog({ version: '1.1.0', date: '2024-02-01' }, groups), [
+			'## [1.1.0] - 2024-02-01',
+			'### Breaking Changes\n\n- **api:** remove legacy endpoint (4444444)',
+			'### Added\n\n- **api:** remove legacy endpoint (4444444)\n- **ui:** add dark mode (1111111)',
+			'### Changed\n\n- Tweak wording (5555555)',
+			'### Fixed\n\n- crash on start (2222222)',
+		].join('\n\n'));
+	});
+
+	test('a release goes below Unreleased and replaces the same version', () => {
+		const added = prependRelease(CHANGELOG, '## [1.1.0] - 2024-02-01\n\n### Fixed\n\n- A fix');
+		assert.match(added, /- Pending change\n\n## \[1\.1\.0\] - 2024-02-01\n\n### Fixed\n\n- A fix\n\n## \[1\.0\.0\]/);
+		assert.ok(added.startsWith('# Change Log\n'));
+
+		const replaced = prependRelease(added, '## [1.1.0] - 2024-02-02\n\n### Fixed\n\n- Another fix');
+		assert.strictEqual((replaced.match(/## \[1\.1\.0\]/g) ?? []).length, 1);
+		assert.match(replaced, /- Another fix\n\n## \[1\.0\.0\]/);
+
+		const unreleased = prependRelease(CHANGELOG, '## [Unreleased]\n\n### Added\n\n- New');
+		assert.doesNotMatch(unreleased, /Pending change/);
+		assert.match(unreleased, /^## \[Unreleased\]\n\n### Added\n\n- New\n\n## \[1\.0\.0\]/m);
+
+		assert.match(prependRelease('', '## [0.1.0] - 2024-01-01\n\n- Start'), /^# Changelog\n[\s\S]*Keep a Changelog[\s\S]*\n\n## \[0\.1\.0\] - 2024-01-01\n\n- Start\n$/);
+	});
+
+	test('release notes prompt and answer', () => {
+		const prompt = buildReleaseNotesPrompt({ groups: groupCommits([commit('abcdef12', 'fix(login): handle empty password')]), version: '2.0.0', language: 'ko' });
+		assert.match(prompt, /version 2\.0\.0/);
+		assert.match(prompt, /Fixed:\n- \*\*login:\*\* handle empty password \(abcdef1\)/);
+		assert.match(prompt, /in Korean/);
+
+		const release = { version: '2.0.0', date: '2024-03-01' };
+		assert.strictEqual(
+			parseReleaseNotes(release, '```markdown\n## 2.0.0\n\n### Fixed\n\n- Signing in with an empty password no longer fails\n```'),
+			'## [2.0.0] - 2024-03-01\n\n### Fixed\n\n- Signing in with an empty password no longer fails'
+		);
+		assert.throws(() => parseReleaseNotes(release, '## 2.0.0'), /did not return release notes/);
+	});
+
+	test('commits and tags are read from the repository', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-with-ai-changelog-'));
+		try {
+			await git(root, 'init', '--quiet');
+			for (const [file, message] of [['a.txt', 'feat: first'], ['b.txt', 'fix: second\n\nDetails.'], ['c.txt', 'docs: third']]) {
+				fs.writeFileSync(path.join(root, file), file);
+				await git(root, 'add', file);
+				await git(root, 'commit', '--quiet', '-m', message);
+				if (file === 'a.txt') {
+					await git(root, 'tag', 'v1.0.0');
+				}
+			}
+
+			assert.deepStrictEqual(await readTags('git', root), ['v1.0.0']);
+			const commits = await readCommits('git', root, 'v1.0.0..HEAD');
+			assert.deepStrictEqual(commits.map(item => [item.subject, item.body]), [['fix: second', 'Details.'], ['docs: third', '']]);
+			await assert.rejects(readCommits('git', root, 'v9..HEAD'));
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+});
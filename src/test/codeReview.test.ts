@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { buildReviewPrompt, numberDiffLines, parseReview } from '../codeReview';
+
+suite('Code Review Test Suite', () => {
+	const files = ['src/login.ts', 'src/session.ts'];
+
+	test('added and context lines get their new line number', () => {
+		const diff = [
+			'--- src/login.ts ---',
+			'diff --git a/src/login.ts b/src/login.ts',
+			'--- a/src/login.ts',
+			'+++ b/src/login.ts',
+			'@@ -10,3 +10,3 @@ export function login() {',
+			' const user = find();',
+			'-return user;',
+			'+console.log(user);',
+			'+return user!;',
+			'',
+		].join('\n');
+
+		assert.strictEqual(numberDiffLines(diff), [
+			'--- src/login.ts ---',
+			'diff --git a/src/login.ts b/src/login.ts',
+			'--- a/src/login.ts',
+			'+++ b/src/login.ts',
+			'@@ -10,3 +10,3 @@ export function login() {',
+			' 10| const user = find();',
+			'-return user;',
+			'+11| console.log(user);',
+			'+12| return user!;',
+			'',
+		].join('\n'));
+	});
+
+	test('review is parsed and cleaned from fenced JSON', () => {
+		const raw = 'Review:\n```json\n{"summary": "Mostly fine.", "findings": ['
+			+ '{"file": "src/login.ts", "line": 11, "category": "debug", "message": "Remove the console.log."},'
+			+ '{"file": "./src/session.ts", "line": "x", "category": "naming", "severity": "error", "message": "Token is never checked."},'
+			+ '{"file": "src/other.ts", "line": 1, "category": "bug", "message": "Not reviewed."},'
+			+ '{"file": "src/login.ts", "category": "test", "message": " "}'
+			+ ']}\n```';
+
+		assert.deepStrictEqual(parseReview(raw, files), {
+			summary: 'Mostly fine.',
+			findings: [
+				{ file: 'src/login.ts', line: 11, category: 'debug', severity: 'warning', message: 'Remove the console.log.' },
+				{ file: 'src/session.ts', line: undefined, category: 'risk', severity: 'error', message: 'Token is never checked.' },
+			],
+		});
+		assert.deepStrictEqual(parseReview('{"summary": "Clean."}', files), { summary: 'Clean.', findings: [] });
+		assert.throws(() => parseReview('Looks good to me!', files), /valid review/);
+	});
+
+	test('prompt lists the files and the language', () => {
+		const prompt = buildReviewPrompt({ diff: '+10| x', files, language: 'ko' });
+		assert.match(prompt, /^- src\/session\.ts$/m);
+		assert.match(prompt, /in Korean/);
+		assert.match(prompt, /\+10\| x/);
+	});
+});
@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import { generateCommitMessage, generatePullRequest, prepareDiff, readLlmSettings, reviewChanges, SettingsSource } from '../commitGenerator';
+import { DEFAULT_CONVENTIONS } from '../conventions';
+import { ChatMessage, LlmProvider } from '../llm';
+
+const conventions = { ...DEFAULT_CONVENTIONS, emoji: 'off' as const };
+
+// 정해진 응답을 순서대로 돌려주고 받은 대화를 기록하는 모델
+function fakeLlm(replies: string[]): LlmProvider & { calls: ChatMessage[][] } {
+	const calls: ChatMessage[][] = [];
+	return {
+		id: 'openai',
+		model: 'fake',
+		calls,
+		async complete(messages: ChatMessage[]) {
+			calls.push(messages);
+			return replies.shift() ?? '';
+		}
+	};
+}
+
+function settings(values: Record<string, unknown>): SettingsSource {
+	return { get: <T>(key: string) => values[key] as T | undefined };
+}
+
+suite('Commit Generator Test Suite', () => {
+	test('prompt contains the diff and context, and the reply is cleaned', async () => {
+		const llm = fakeLlm(['```\nfeat: add login form.\n```']);
+
+		const generated = await generateCommitMessage(llm, conventions, '+const form = 1;', {
+			context: { branch: 'feature/PROJ-7', tickets: ['PROJ-7'], files: ['src/login.ts'] },
+		});
+
+		assert.strictEqual(generated.message, 'feat: add login form');
+		assert.strictEqual(generated.fallback, false);
+		assert.ok(generated.promptTokens > 0);
+		const prompt = llm.calls[0][1].content;
+		assert.ok(prompt.includes('+const form = 1;'));
+		assert.ok(prompt.includes('PROJ-7'));
+	});
+
+	test('empty reply falls back to the default message', async () => {
+		const generated = await generateCommitMessage(fakeLlm(['   ']), conventions, '+x');
+
+		assert.strictEqual(generated.fallback, true);
+		assert.strictEqual(generated.message, 'feat: implement requested changes');
+	});
+
+	test('pull request template placeholders are filled and the reply is split', async () => {
+		const llm = fakeLlm(['Add login form\n\n## Summary\nAdds a form.']);
+
+		const pullRequest = await generatePullRequest(llm, 'Commits:\n{commits}\nInto {targetBranch}\n{diff}', {
+			diff: '+const form = 1;',
+			commits: [{ hash: 'abc', subject: 'feat: add login', body: '' }],
+			files: ['src/login.ts'],
+			targetBranch: 'develop',
+			language: 'en',
+		});
+
+		assert.deepStrictEqual(pullRequest, { title: 'Add login form', body: '## Summary\nAdds a form.' });
+		assert.strictEqual(llm.calls[0][1].content, 'Commits:\n- feat: add login\nInto develop\n+const form = 1;');
+	});
+
+	test('review keeps real line numbers when the diff is trimmed to the budget', async () => {
+		const context = (line: number) => ` context line ${line} of the reviewed file`;
+		const diff = [
+			'diff --git a/a.ts b/a.ts',
+			'@@ -1,15 +1,15 @@',
+			...Array.from({ length: 11 }, (_, index) => context(index + 1)),
+			'-const limit = items.length;',
+			'+const limit = items.length + 1;',
+			...Array.from({ length: 3 }, (_, index) => context(index + 13)),
+		].join('\n');
+		const llm = fakeLlm(['{"summary": "One issue.", "findings": [{"file": "a.ts", "line": 12, "category": "bug", "message": "Off by one."}]}']);
+
+		const review = await reviewChanges(llm, [{ path: 'a.ts', diff }], { tokenBudget: 80, contextLines: 1, collapsePatterns: [], mapReduce: true }, 'en');
+
+		assert.deepStrictEqual(review.findings, [{ file: 'a.ts', line: 12, category: 'bug', severity: 'error', message: 'Off by one.' }]);
+		// 요약하지 않고 앞뒤 문맥만 남긴 diff에 실제 줄 번호가 붙어 있어야 함
+		assert.strictEqual(llm.calls.length, 1);
+		const prompt = llm.calls[0][1].content;
+		assert.match(prompt, /^ \.\.\.\n 11\| context line 11 of the reviewed file\n-const limit = items\.length;\n\+12\| const limit = items\.length \+ 1;\n 13\| context line 13 of the reviewed file\n \.\.\.$/m);
+	});
+
+	test('remaining violations are re-prompted only when enabled', async () => {
+		const invalid = 'update things';
+		const withoutReprompt = fakeLlm([invalid, 'fix: update things']);
+		const withReprompt = fakeLlm([invalid, 'fix: update things']);
+
+		const first = await generateCommitMessage(withoutReprompt, conventions, '+x');
+		const second = await generateCommitMessage(withReprompt, conventions, '+x', { reprompt: true });
+
+		assert.strictEqual(withoutReprompt.calls.length, 1);
+		assert.ok(first.warnings.length > 0);
+		assert.strictEqual(withReprompt.calls.length, 2);
+		assert.strictEqual(second.message, 'fix: update things');
+		assert.deepStrictEqual(second.warnings, []);
+	});
+
+	test('model is only asked to summarize diffs over the budget', async () => {
+		const files = [{ path: 'a.ts', diff: 'diff --git a/a.ts b/a.ts\n+small' }];
+		let asked = false;
+		const getLlm = async () => {
+			asked = true;
+			return fakeLlm([]);
+		};
+
+		const prepared = await prepareDiff(files, { tokenBudget: 6000, contextLines: 1, collapsePatterns: [], mapReduce: true }, getLlm);
+
+		assert.strictEqual(asked, false);
+		assert.ok(prepared.content.includes('+small'));
+	});
+
+	test('API key comes from storage before the legacy setting', () => {
+		const source = settings({ provider: 'anthropic', anthropicApiKey: 'from-setting', model: '' });
+
+		assert.strictEqual(readLlmSettings(source, 'stored').apiKey, 'stored');
+		assert.strictEqual(readLlmSettings(source).apiKey, 'from-setting');
+		assert.strictEqual(readLlmSettings(source).model, undefined);
+	});
+});
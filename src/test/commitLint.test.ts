@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { cleanModelOutput, fixCommitMessage, lintCommitMessage } from '../commitLint';
+import { DEFAULT_CONVENTIONS } from '../conventions';
+
+const conventions = { ...DEFAULT_CONVENTIONS, subjectMaxLength: 50, bodyMaxLineLength: 40 };
+
+suite('Commit Lint Test Suite', () => {
+	test('fences, preambles and quotes are removed', () => {
+		assert.strictEqual(cleanModelOutput('Here is your commit message:\n\n```\nfeat: add parser\n```'), 'feat: add parser');
+		assert.strictEqual(cleanModelOutput('Sure! Here\'s a commit message:\n"fix: handle null"'), 'fix: handle null');
+		assert.strictEqual(cleanModelOutput('```text\ndocs: update readme\n\nExplain why.\n```\nLet me know if you need changes.'), 'docs: update readme\n\nExplain why.');
+	});
+
+	test('safe violations are fixed', () => {
+		const result = fixCommitMessage('Feature(api): add endpoint.\nThis endpoint returns the list of users that belong to a team.', conventions);
+
+		assert.strictEqual(result.message, 'feat(api): add endpoint\n\nThis endpoint returns the list of users\nthat belong to a team.');
+		assert.deepStrictEqual(result.violations, []);
+	});
+
+	test('emoji is kept while fixing the type', () => {
+		assert.strictEqual(fixCommitMessage('✨ FEAT: add x', conventions).message, '✨ feat: add x');
+	});
+
+	test('unsafe violations are reported', () => {
+		const result = fixCommitMessage('wip: ' + 'x'.repeat(60), conventions);
+		assert.deepStrictEqual(result.violations.map(violation => violation.rule), ['header-max-length', 'type-enum']);
+	});
+
+	test('prototype keys are not accepted as types', () => {
+		assert.deepStrictEqual(lintCommitMessage('constructor: add x', conventions).map(violation => violation.rule), ['type-enum']);
+		assert.strictEqual(fixCommitMessage('toString: add x', conventions).message, 'toString: add x');
+	});
+
+	test('lint ignores the leading emoji and long unbreakable lines', () => {
+		const message = '🐛 fix: handle null\n\nhttps://example.com/' + 'a'.repeat(60);
+		assert.deepStrictEqual(lintCommitMessage(message, conventions), []);
+	});
+
+	test('plain style does not require a type', () => {
+		assert.deepStrictEqual(lintCommitMessage('Add parser', { ...conventions, style: 'plain' }), []);
+	});
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { buildPlanPrompt, moveFileToGroup, parsePlan } from '../commitPlan';
+import { DEFAULT_CONVENTIONS } from '../conventions';
+
+suite('Commit Plan Test Suite', () => {
+	const files = ['src/parser.ts', 'package.json', 'package-lock.json', 'README.md'];
+
+	test('plan is parsed from fenced JSON', () => {
+		const raw = 'Here is the plan:\n```json\n{"commits": ['
+			+ '{"message": "fix(parser): handle empty input", "files": ["src/parser.ts"]},'
+			+ '{"message": "build: bump typescript", "files": ["package.json", "package-lock.json"]},'
+			+ '{"message": "docs: update usage", "files": ["README.md"]}'
+			+ ']}\n```';
+
+		assert.deepStrictEqual(parsePlan(raw, files), [
+			{ message: 'fix(parser): handle empty input', files: ['src/parser.ts'] },
+			{ message: 'build: bump typescript', files: ['package.json', 'package-lock.json'] },
+			{ message: 'docs: update usage', files: ['README.md'] },
+		]);
+	});
+
+	test('unknown, duplicate and missing files are reconciled', () => {
+		const raw = JSON.stringify([
+			{ message: 'fix: a', files: ['src/parser.ts', 'src/unknown.ts'] },
+			{ message: 'chore: b', files: ['src/parser.ts'] },
+			{ message: 'build: c', files: ['package.json'] },
+		]);
+
+		assert.deepStrictEqual(parsePlan(raw, files), [
+			{ message: 'fix: a', files: ['src/parser.ts'] },
+			{ message: 'build: c', files: ['package.json'] },
+			{ message: '', files: ['package-lock.json', 'README.md'] },
+		]);
+	});
+
+	test('output without a plan is rejected', () => {
+		assert.throws(() => parsePlan('I cannot split these changes.', files), /valid commit plan/);
+		assert.throws(() => parsePlan('{"message": "fix: a"}', files), /valid commit plan/);
+	});
+
+	test('files move between groups and empty groups disappear', () => {
+		const groups = [
+			{ message: 'fix: a', files: ['src/parser.ts'] },
+			{ message: 'docs: b', files: ['README.md', 'package.json'] },
+		];
+
+		assert.deepStrictEqual(moveFileToGroup(groups, 'src/parser.ts', 1), [
+			{ message: 'docs: b', files: ['README.md', 'package.json', 'src/parser.ts'] },
+		]);
+		assert.deepStrictEqual(moveFileToGroup(groups, 'package.json', 2)[2], { message: '', files: ['package.json'] });
+		assert.deepStrictEqual(groups[0].files, ['src/parser.ts']);
+	});
+
+	test('prompt lists every file and the allowed types', () => {
+		const prompt = buildPlanPrompt(DEFAULT_CONVENTIONS, { diff: '+x', files, language: 'Korean' });
+
+		assert.match(prompt, /^- package-lock\.json$/m);
+		assert.match(prompt, /^- feat: A new feature$/m);
+		assert.match(prompt, /Write the messages in Korean, but keep the type keyword in English\./);
+	});
+});
@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readCommits } from '../commitLog';
+import { listRecentCommits, readCommitChanges, readRewordRange, replaceCommitObject, rewordCommits } from '../commitRewrite';
+import { commit, git } from './gitFixture';
+
+suite('Commit Rewrite Test Suite', () => {
+	let root: string;
+	let hashes: string[];
+
+	setup(async () => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-with-ai-reword-'));
+		await git(root, 'init', '--quiet', '--initial-branch=main');
+		hashes = [
+			await commit(root, 'a.txt', 'a\n', 'initial'),
+			await commit(root, 'b.txt', 'b\n', 'wip'),
+			await commit(root, 'a.txt', 'a\nc\n', 'stuff\n\nRefs: PROJ-1'),
+		];
+		// 첫 커밋만 원격에 있는 것처럼 원격 추적 참조를 만듦
+		await git(root, 'update-ref', 'refs/remotes/origin/main', hashes[0]);
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('recent commits and ranges know which commits are pushed', async () => {
+		const recent = await listRecentCommits('git', root, 2);
+		assert.deepStrictEqual(recent.map(item => [item.subject, item.pushed]), [['stuff', false], ['wip', false]]);
+
+		const range = await readRewordRange('git', root, hashes[0]);
+		assert.strictEqual(range.head, hashes[2]);
+		assert.deepStrictEqual(range.commits.map(item => [item.hash, item.pushed]), [[hashes[0], true], [hashes[1], false], [hashes[2], false]]);
+
+		await git(root, 'checkout', '--quiet', '-b', 'other', hashes[1]);
+		await commit(root, 'd.txt', 'd\n', 'other');
+		await assert.rejects(readRewordRange('git', root, hashes[2]), /not an ancestor of HEAD/);
+	});
+
+	test('changes of a commit are read against its parent, or the empty tree for the first commit', async () => {
+		assert.deepStrictEqual(await readCommitChanges('git', root, hashes[2]), { base: hashes[1], files: ['a.txt'] });
+		assert.deepStrictEqual((await readCommitChanges('git', root, hashes[0])).files, ['a.txt']);
+	});
+
+	test('messages are rewritten without touching trees or the working tree', async () => {
+		fs.writeFileSync(path.join(root, 'b.txt'), 'dirty\n');
+		const range = await readRewordRange('git', root, hashes[1]);
+		const head = await rewordCommits('git', root, range, new Map([[hashes[1], 'feat: add b']]));
+
+		const commits = await readCommits('git', root, 'HEAD');
+		assert.deepStrictEqual(commits.map(item => [item.subject, item.body]), [['initial', ''], ['feat: add b', ''], ['stuff', 'Refs: PROJ-1']]);
+		assert.strictEqual(commits[0].hash, hashes[0]);
+		assert.strictEqual((await git(root, 'rev-parse', 'HEAD')).trim(), head);
+		assert.strictEqual((await git(root, 'rev-parse', 'HEAD^{tree}')).trim(), (await git(root, 'rev-parse', `${hashes[2]}^{tree}`)).trim());
+		assert.strictEqual(fs.readFileSync(path.join(root, 'b.txt'), 'utf8'), 'dirty\n');
+
+		// 초안을 만든 뒤 HEAD가 바뀌었으면 다시 쓰지 않음
+		await assert.rejects(rewordCommits('git', root, range, new Map([[hashes[2], 'fix: c']])));
+	});
+
+	test('commit objects get the new parent and message, without the signature', () => {
+		const raw = [
+			'tree 1111',
+			'parent 2222',
+			'author A <a@example.com> 1700000000 +0000',
+			'committer A <a@example.com> 1700000000 +0000',
+			'gpgsig -----BEGIN PGP SIGNATURE-----',
+			' ',
+			' abc',
+			' -----END PGP SIGNATURE-----',
+			'',
+			'old message',
+			'',
+		].join('\n');
+
+		assert.strictEqual(replaceCommitObject(raw, '3333', 'new message\n\nbody'), [
+			'tree 1111',
+			'parent 3333',
+			'author A <a@example.com> 1700000000 +0000',
+			'committer A <a@example.com> 1700000000 +0000',
+			'',
+			'new message',
+			'',
+			'body',
+			'',
+		].join('\n'));
+		assert.match(replaceCommitObject(raw, undefined, undefined), /^tree 1111\nparent 2222\n[\s\S]*\n\nold message\n$/);
+	});
+});
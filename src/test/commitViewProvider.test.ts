@@ -0,0 +1,158 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AiCommitProvider } from '../aiCommitProvider';
+import { GeneratedCommit } from '../commitGenerator';
+import { CommitViewProvider } from '../commitViewProvider';
+import { GenerationHistory } from '../generationHistory';
+import { ExtensionMessage, ViewSection, WebviewMessage } from '../webviewProtocol';
+
+// 확장이 보낸 메시지를 기록하고, 웹뷰에서 보내는 메시지를 흉내 내는 가짜 뷰
+function fakeView() {
+	const posted: ExtensionMessage[] = [];
+	let receive: (message: unknown) => Promise<void> = async () => {};
+	const view = {
+		visible: true,
+		webview: {
+			options: {},
+			html: '',
+			cspSource: 'vscode-webview:',
+			asWebviewUri: (uri: vscode.Uri) => uri,
+			postMessage: async (message: ExtensionMessage) => {
+				posted.push(message);
+				return true;
+			},
+			onDidReceiveMessage: (listener: (message: unknown) => Promise<void>) => {
+				receive = listener;
+				return new vscode.Disposable(() => {});
+			},
+		},
+		onDidDispose: () => new vscode.Disposable(() => {}),
+		onDidChangeVisibility: () => new vscode.Disposable(() => {}),
+	};
+	return {
+		view: view as unknown as vscode.WebviewView,
+		posted,
+		send: (message: WebviewMessage) => receive(message),
+	};
+}
+
+// 후보마다 정해진 메시지를 토큰 두 개로 나눠 스트리밍하는 공급자
+function fakeProvider(messages: string[]) {
+	const setup = new vscode.EventEmitter<undefined>();
+	const requests: { count: number }[] = [];
+	const provider = {
+		requests,
+		onDidChangeSetup: setup.event,
+		getSetupIssue: async () => undefined,
+		getFileDiffs: async (files: string[]) => files.map(file => ({ path: vscode.workspace.asRelativePath(file), diff: '+x', redactions: [], excluded: false })),
+		prepareDiff: async () => ({ content: '+x', files: [] }),
+		getPromptContext: async () => ({}),
+		generateCandidates: async (_diff: string, count: number, _options: unknown, onToken?: (index: number, token: string) => void) => {
+			requests.push({ count });
+			return messages.slice(0, count).map((message, index): GeneratedCommit => {
+				const middle = Math.ceil(message.length / 2);
+				onToken?.(index, message.slice(0, middle));
+				onToken?.(index, message.slice(middle));
+				return { message, warnings: [], fallback: false, promptTokens: 10 };
+			});
+		},
+		describeModel: async () => 'openai/fake',
+		lintMessage: () => [],
+	};
+	return provider as unknown as typeof provider & AiCommitProvider;
+}
+
+// 메모리에 저장하는 기록
+function memoryHistory(): GenerationHistory {
+	const values = new Map<string, unknown>();
+	return new GenerationHistory({
+		get: <T>(key: string) => values.get(key) as T | undefined,
+		update: async (key: string, value: unknown) => {
+			values.set(key, value);
+		},
+	});
+}
+
+// 마지막으로 그린 영역의 HTML
+function lastSection(posted: ExtensionMessage[], section: ViewSection): string {
+	for (const message of [...posted].reverse()) {
+		if (message.command === 'render' && message.sections[section] !== undefined) {
+			return message.sections[section]!;
+		}
+	}
+	return '';
+}
+
+function candidateMessages(sectionHtml: string): string[] {
+	return [...sectionHtml.matchAll(/<textarea class="candidate-message" data-index="\d+"[^>]*>([^<]*)<\/textarea>/g)].map(match => match[1]);
+}
+
+suite('Commit View Provider Test Suite', () => {
+	let diagnostics: vscode.DiagnosticCollection;
+	let viewProvider: CommitViewProvider;
+	let provider: ReturnType<typeof fakeProvider>;
+	let webview: ReturnType<typeof fakeView>;
+
+	setup(() => {
+		diagnostics = vscode.languages.createDiagnosticCollection('commit-with-ai-test');
+		viewProvider = new CommitViewProvider(vscode.Uri.file('/extension'), memoryHistory(), diagnostics);
+		provider = fakeProvider(['feat: add login', 'feat: add login form', 'feat(auth): add a login form']);
+		viewProvider.registerProvider(provider);
+		webview = fakeView();
+		viewProvider.resolveWebviewView(webview.view, { state: undefined }, new vscode.CancellationTokenSource().token);
+	});
+
+	teardown(() => {
+		diagnostics.dispose();
+	});
+
+	test('several candidates are streamed into their cards and one can be picked', async () => {
+		await webview.send({ command: 'generateCommit', selectedFiles: [vscode.Uri.file('/workspace/a.ts').fsPath] });
+
+		assert.deepStrictEqual(provider.requests, [{ count: 3 }]);
+		// 토큰은 후보별로 지금까지 받은 전체 텍스트로 전달됨
+		const streamed = new Map<number, string>();
+		for (const message of webview.posted) {
+			if (message.command === 'streamToken') {
+				streamed.set(message.index, message.text);
+			}
+		}
+		assert.deepStrictEqual([...streamed.entries()].sort(), [[0, 'feat: add login'], [1, 'feat: add login form'], [2, 'feat(auth): add a login form']]);
+		const messagesHtml = lastSection(webview.posted, 'messages');
+		assert.deepStrictEqual(candidateMessages(messagesHtml), ['feat: add login', 'feat: add login form', 'feat(auth): add a login form']);
+		assert.match(messagesHtml, /<input type="radio" name="candidate" value="0" checked>/);
+
+		await webview.send({ command: 'selectCandidate', index: 2 });
+		await webview.send({ command: 'showRound', index: 0 });
+
+		const selectedHtml = lastSection(webview.posted, 'messages');
+		assert.match(selectedHtml, /<input type="radio" name="candidate" value="2" checked>/);
+		assert.doesNotMatch(selectedHtml, /value="0" checked/);
+	});
+
+	test('reloading the file list keeps edited candidates', async () => {
+		await webview.send({ command: 'generateCommit', selectedFiles: [vscode.Uri.file('/workspace/a.ts').fsPath] });
+		await webview.send({ command: 'editCandidate', index: 0, message: 'feat: add the login page' });
+
+		const before = webview.posted.length;
+		await webview.send({ command: 'refreshFiles' });
+
+		// 파일 목록만 다시 그리므로 입력 중인 후보는 바뀌지 않음
+		for (const message of webview.posted.slice(before)) {
+			if (message.command === 'render') {
+				assert.deepStrictEqual(Object.keys(message.sections), ['files']);
+			}
+		}
+		await webview.send({ command: 'showRound', index: 0 });
+		assert.strictEqual(candidateMessages(lastSection(webview.posted, 'messages'))[0], 'feat: add the login page');
+	});
+
+	test('amending without files or a target repository asks for files', async () => {
+		// 테스트 환경에는 Git 저장소가 없으므로 결과의 대상 저장소도 비어 있음
+		await webview.send({ command: 'generateCommit', selectedFiles: [vscode.Uri.file('/workspace/a.ts').fsPath] });
+		await webview.send({ command: 'commitSelected', message: 'fix: typo', selectedFiles: [], amend: true, push: false });
+
+		// 커밋할 저장소가 없으므로 빈 성공 대신 오류를 표시
+		assert.match(lastSection(webview.posted, 'messages'), /<pre class="action-status error">Select the files to commit.<\/pre>/);
+	});
+});
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { applyEmoji, buildPrompt, DEFAULT_CONVENTIONS, fallbackMessage, languageName, resolveConventions } from '../conventions';
+
+suite('Conventions Test Suite', () => {
+	test('repository config file overrides settings', () => {
+		const conventions = resolveConventions(
+			{ style: 'conventional', emoji: 'unicode', subjectMaxLength: 100 },
+			{ emoji: 'off', subjectMaxLength: 72, rules: ['Prefix the subject with the Jira ticket'] }
+		);
+
+		assert.strictEqual(conventions.style, 'conventional');
+		assert.strictEqual(conventions.emoji, 'off');
+		assert.strictEqual(conventions.subjectMaxLength, 72);
+		assert.deepStrictEqual(conventions.rules, ['Prefix the subject with the Jira ticket']);
+	});
+
+	test('gitmoji style defaults to gitmoji emoji', () => {
+		assert.strictEqual(resolveConventions({ style: 'gitmoji' }).emoji, 'gitmoji');
+	});
+
+	test('custom template placeholders are filled', () => {
+		const conventions = { ...DEFAULT_CONVENTIONS, style: 'custom' as const, prompt: '[{branch}] {language}\n{files}\n{diff}\n{unknown}' };
+		const prompt = buildPrompt(conventions, { diff: '+a', branch: 'PROJ-1-fix', files: ['src/a.ts'], language: 'Korean' });
+
+		assert.strictEqual(prompt, '[PROJ-1-fix] Korean\n- src/a.ts\n+a\n{unknown}');
+	});
+
+	test('preset prompt includes only the provided repository context', () => {
+		const prompt = buildPrompt(DEFAULT_CONVENTIONS, {
+			diff: '+a',
+			branch: 'feature/PROJ-7-login',
+			tickets: ['PROJ-7'],
+			scopes: ['ui'],
+			recentCommits: ['feat(ui): add button (PROJ-6)'],
+		});
+
+		assert.match(prompt, /^Current branch: feature\/PROJ-7-login$/m);
+		assert.match(prompt, /^Ticket IDs from the branch name: PROJ-7\./m);
+		assert.match(prompt, /use them as the scope: ui$/m);
+		assert.match(prompt, /^- feat\(ui\): add button \(PROJ-6\)$/m);
+
+		const bare = buildPrompt(DEFAULT_CONVENTIONS, { diff: '+a' });
+		assert.doesNotMatch(bare, /Current branch|Ticket IDs|scope:|Recent commit|currently has the message/);
+
+		const reworded = buildPrompt(DEFAULT_CONVENTIONS, { diff: '+a', previousMessage: 'wip\n\nRefs: PROJ-1' });
+		assert.match(reworded, /currently has the message below[\s\S]*^> wip\n>\s*\n> Refs: PROJ-1$/m);
+	});
+
+	test('message language comes from the conventions and keeps type keywords in English', () => {
+		const conventions = resolveConventions({ language: 'en' }, { language: 'ja' });
+		const prompt = buildPrompt(conventions, { diff: '+a' });
+
+		assert.match(prompt, /in Japanese, but keep the type keyword in English/);
+		assert.strictEqual(languageName('ko-KR'), 'Korean');
+		assert.strictEqual(languageName('pt-br'), 'Brazilian Portuguese');
+		assert.strictEqual(languageName('auto'), 'English');
+		assert.strictEqual(languageName('Italian'), 'Italian');
+	});
+
+	test('custom style without a template is rejected', () => {
+		assert.throws(() => buildPrompt({ ...DEFAULT_CONVENTIONS, style: 'custom' }, { diff: '' }), /prompt template/);
+	});
+
+	test('emoji modes', () => {
+		const base = DEFAULT_CONVENTIONS;
+		assert.strictEqual(applyEmoji('fix(api): handle null', base), '🐛 fix(api): handle null');
+		assert.strictEqual(applyEmoji('🎉 feat: keep mine', base), '🎉 feat: keep mine');
+		assert.strictEqual(applyEmoji('✨ feat: add x', { ...base, emoji: 'off' }), 'feat: add x');
+		assert.strictEqual(applyEmoji('docs: update', { ...base, emoji: 'gitmoji' }), '📝 docs: update');
+		assert.strictEqual(applyEmoji('📚 docs: update', { ...base, emoji: 'shortcode' }), ':memo: docs: update');
+		assert.strictEqual(applyEmoji('Add parser', { ...base, style: 'plain', emoji: 'off' }), 'Add parser');
+	});
+
+	test('fallback message follows the style', () => {
+		assert.strictEqual(fallbackMessage(DEFAULT_CONVENTIONS), '✨ feat: implement requested changes');
+		assert.strictEqual(fallbackMessage({ ...DEFAULT_CONVENTIONS, style: 'plain', emoji: 'off' }), 'Implement requested changes');
+	});
+});
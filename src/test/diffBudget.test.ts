@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { DiffBudgetOptions, estimateTokens, planDiff, trimContext, truncateDiff } from '../diffBudget';
+import { matchesAnyGlob } from '../glob';
+
+// 변경 한 줄과 앞뒤 컨텍스트 줄로 된 diff 생성
+function makeDiff(contextLines: number, changed = '+const value = 1;'): string {
+	const context = Array.from({ length: contextLines }, (_, i) => ` line ${i}`);
+	return ['@@ -1,10 +1,11 @@', ...context, changed, ...context].join('\n');
+}
+
+const options: DiffBudgetOptions = {
+	tokenBudget: 1000,
+	contextLines: 1,
+	collapsePatterns: [],
+	mapReduce: true,
+};
+
+suite('Diff Budget Test Suite', () => {
+	test('glob patterns match file names and directories', () => {
+		assert.ok(matchesAnyGlob('packages/app/package-lock.json', ['package-lock.json']));
+		assert.ok(matchesAnyGlob('web/dist/bundle.js', ['dist/']));
+		assert.ok(matchesAnyGlob('src/vendor/lib.min.js', ['*.min.js']));
+		assert.ok(matchesAnyGlob('src/gen/api.ts', ['src/gen/**']));
+		assert.ok(!matchesAnyGlob('other/src/gen/api.ts', ['src/gen/**']));
+		assert.ok(!matchesAnyGlob('src/distance.ts', ['dist/']));
+	});
+
+	test('lock and binary files are collapsed into one line', () => {
+		const plan = planDiff([
+			{ path: 'yarn.lock', diff: '+a\n+b\n-c' },
+			{ path: 'logo.png', diff: 'Binary files a/logo.png and b/logo.png differ' },
+			{ path: 'src/index.ts', diff: makeDiff(2) },
+		], options);
+
+		assert.deepStrictEqual(plan.files.map(file => file.treatment), ['collapsed', 'collapsed', 'full']);
+		assert.strictEqual(plan.files[0].diff, 'generated or lock file updated (+2 -1 lines)');
+		assert.strictEqual(plan.files[1].diff, 'binary file changed');
+		assert.strictEqual(plan.chunks, undefined);
+	});
+
+	test('context lines are trimmed around changes', () => {
+		const trimmed = trimContext(makeDiff(5), 1);
+		assert.strictEqual(trimmed, ['@@ -1,10 +1,11 @@', ' ...', ' line 4', '+const value = 1;', ' line 0', ' ...'].join('\n'));
+	});
+
+	test('truncation cuts at a line boundary', () => {
+		const diff = Array.from({ length: 100 }, (_, i) => `+line ${i}`).join('\n');
+		const truncated = truncateDiff(diff, 20);
+		assert.ok(estimateTokens(truncated) < estimateTokens(diff));
+		assert.match(truncated, /\n\.\.\. \(\d+ more lines truncated\)$/);
+	});
+
+	test('over-budget changesets are chunked for map-reduce', () => {
+		const files = Array.from({ length: 6 }, (_, i) => ({ path: `src/file${i}.ts`, diff: makeDiff(1, '+' + 'x'.repeat(1600)) }));
+		const plan = planDiff(files, options);
+
+		assert.ok(plan.chunks && plan.chunks.length > 1);
+		assert.ok(plan.files.every(file => file.treatment === 'summarized'));
+		for (const chunk of plan.chunks) {
+			assert.ok(chunk.reduce((sum, file) => sum + file.tokens, 0) <= options.tokenBudget);
+		}
+	});
+
+	test('without map-reduce the largest files are truncated to fit', () => {
+		const files = [
+			{ path: 'src/big.ts', diff: makeDiff(1, '+' + 'x'.repeat(100).concat('\n+').repeat(60)) },
+			{ path: 'src/small.ts', diff: makeDiff(1) },
+		];
+		const plan = planDiff(files, { ...options, mapReduce: false });
+		const total = plan.files.reduce((sum, file) => sum + file.tokens, 0);
+
+		assert.strictEqual(plan.files[0].treatment, 'truncated');
+		assert.strictEqual(plan.files[1].treatment, 'full');
+		assert.ok(total <= options.tokenBudget + 20);
+	});
+});
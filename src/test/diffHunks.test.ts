@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseFileDiff, selectHunks, stageHunks } from '../diffHunks';
+import { git } from './gitFixture';
+
+// 서로 멀리 떨어진 두 곳을 고쳐 헝크가 두 개 생기도록 함
+const ORIGINAL = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`).join('\n') + '\n';
+const CHANGED = ORIGINAL.replace('line 2\n', 'line 2 changed\n').replace('line 19\n', 'line 19 changed\n');
+
+suite('Diff Hunks Test Suite', () => {
+	let root: string;
+
+	setup(async () => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-with-ai-hunks-'));
+		await git(root, 'init', '--quiet');
+		fs.writeFileSync(path.join(root, 'file.txt'), ORIGINAL);
+		await git(root, 'add', 'file.txt');
+		await git(root, 'commit', '--quiet', '-m', 'initial');
+		fs.writeFileSync(path.join(root, 'file.txt'), CHANGED);
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('diff is split into header and hunks', async () => {
+		const parsed = parseFileDiff(await git(root, 'diff', '--no-color'));
+
+		assert.ok(parsed.header[0].startsWith('diff --git a/file.txt b/file.txt'));
+		assert.deepStrictEqual(parsed.hunks.map(hunk => hunk.id), ['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+		assert.ok(parsed.hunks[1].lines.includes('+line 19 changed'));
+	});
+
+	test('left out hunks are removed from the diff', async () => {
+		const diff = await git(root, 'diff', '--no-color');
+
+		const selected = selectHunks(diff, new Set(['@@ -16,5 +16,5 @@']));
+
+		assert.ok(selected.includes('+line 2 changed'));
+		assert.ok(!selected.includes('line 19 changed'));
+		assert.strictEqual(selectHunks(diff, new Set()), diff);
+		assert.strictEqual(selectHunks(diff, new Set(['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@'])), '');
+		assert.strictEqual(selectHunks('Binary files a/x.png and b/x.png differ\n', new Set(['@@ -1 +1 @@'])), 'Binary files a/x.png and b/x.png differ\n');
+	});
+
+	test('selected unstaged hunks are added to the index', async () => {
+		await stageHunks('git', root, 'file.txt', 'unstaged', new Set(['@@ -1,5 +1,5 @@']));
+
+		const staged = await git(root, 'diff', '--cached', '--no-color');
+		assert.ok(staged.includes('+line 19 changed'));
+		assert.ok(!staged.includes('line 2 changed'));
+		assert.ok((await git(root, 'diff', '--no-color')).includes('+line 2 changed'));
+	});
+
+	test('left out staged hunks are removed from the index', async () => {
+		await git(root, 'add', 'file.txt');
+
+		await stageHunks('git', root, 'file.txt', 'staged', new Set(['@@ -16,5 +16,5 @@']));
+
+		const staged = await git(root, 'diff', '--cached', '--no-color');
+		assert.ok(staged.includes('+line 2 changed'));
+		assert.ok(!staged.includes('line 19 changed'));
+		assert.strictEqual(fs.readFileSync(path.join(root, 'file.txt'), 'utf8'), CHANGED);
+	});
+
+	test('a new file with all of its hunks left out is unstaged', async () => {
+		fs.writeFileSync(path.join(root, 'new.txt'), 'new\n');
+		await git(root, 'add', 'new.txt');
+
+		await stageHunks('git', root, 'new.txt', 'all', new Set(['@@ -0,0 +1 @@']));
+
+		assert.strictEqual((await git(root, 'diff', '--cached', '--name-only')).trim(), '');
+	});
+
+	test('hunks are staged in a repository without commits', async () => {
+		const empty = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-with-ai-hunks-empty-'));
+		try {
+			await git(empty, 'init', '--quiet');
+			fs.writeFileSync(path.join(empty, 'kept.txt'), 'kept\n');
+			fs.writeFileSync(path.join(empty, 'left.txt'), 'left\n');
+			await git(empty, 'add', 'kept.txt', 'left.txt');
+
+			await stageHunks('git', empty, 'kept.txt', 'staged', new Set());
+			await stageHunks('git', empty, 'left.txt', 'staged', new Set(['@@ -0,0 +1 @@']));
+			await stageHunks('git', empty, 'kept.txt', 'all', new Set());
+
+			assert.strictEqual((await git(empty, 'diff', '--cached', '--name-only')).trim(), 'kept.txt');
+			assert.strictEqual(fs.readFileSync(path.join(empty, 'left.txt'), 'utf8'), 'left\n');
+		} finally {
+			fs.rmSync(empty, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { editRatio, GenerationHistory, HistoryStorage, summarizeEdits } from '../generationHistory';
+
+// workspaceState 대신 쓰는 메모리 저장소
+function memoryStorage(): HistoryStorage {
+	const values = new Map<string, unknown>();
+	return {
+		get: <T>(key: string) => values.get(key) as T | undefined,
+		update: async (key, value) => {
+			values.set(key, value);
+		}
+	};
+}
+
+const RUN = { timestamp: 1, model: 'openai/gpt-4o-mini', files: ['a.ts'], promptTokens: 120, generated: ['feat: add a', 'feat(a): add a'] };
+
+suite('Generation History Test Suite', () => {
+	test('entries are kept per repository, newest first and up to the limit', async () => {
+		const history = new GenerationHistory(memoryStorage(), 2);
+
+		await history.add('/repo', { ...RUN, timestamp: 1 });
+		await history.add('/repo', { ...RUN, timestamp: 2 });
+		await history.add('/repo', { ...RUN, timestamp: 3 });
+		await history.add('/other', RUN);
+
+		assert.deepStrictEqual(history.list('/repo').map(entry => entry.timestamp), [3, 2]);
+		assert.strictEqual(history.list('/other').length, 1);
+
+		await history.clear('/repo');
+		assert.deepStrictEqual(history.list('/repo'), []);
+		assert.strictEqual(history.list('/other').length, 1);
+	});
+
+	test('the applied message is recorded against its candidate', async () => {
+		const history = new GenerationHistory(memoryStorage());
+		const entry = await history.add('/repo', RUN);
+
+		await history.setFinal('/repo', entry.id, 1, 'feat(a): add module a');
+		await history.setFinal('/repo', 'missing', 0, 'ignored');
+
+		const [stored] = history.list('/repo');
+		assert.strictEqual(stored.final, 'feat(a): add module a');
+		assert.strictEqual(stored.finalCandidate, 1);
+	});
+
+	test('edits are measured as a share of the message', () => {
+		assert.strictEqual(editRatio('feat: add a', 'feat: add a\n'), 0);
+		assert.strictEqual(editRatio('abcd', 'abxd'), 0.25);
+		assert.strictEqual(editRatio('', 'fix: typo'), 1);
+
+		const summary = summarizeEdits([
+			{ ...RUN, id: '1', final: 'feat: add a', finalCandidate: 0 },
+			{ ...RUN, id: '2', final: 'feat(a): add b', finalCandidate: 1 },
+			{ ...RUN, id: '3' },
+		]);
+		assert.strictEqual(summary.applied, 2);
+		assert.strictEqual(summary.edited, 1);
+		assert.ok(summary.averageEditRatio > 0 && summary.averageEditRatio < 0.1);
+	});
+});
@@ -0,0 +1,137 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitDiffCollector, parseRenames } from '../gitDiff';
+import { git } from './gitFixture';
+
+// 임시 저장소에서 git 실행 (커밋 작성자는 고정)
+function write(root: string, relativePath: string, content: string | Buffer) {
+	fs.mkdirSync(path.dirname(path.join(root, relativePath)), { recursive: true });
+	fs.writeFileSync(path.join(root, relativePath), content);
+}
+
+suite('Git Diff Test Suite', () => {
+	let root: string;
+
+	setup(async () => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-with-ai-diff-'));
+		await git(root, 'init', '--quiet');
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	async function commitInitial(files: Record<string, string>) {
+		for (const [relativePath, content] of Object.entries(files)) {
+			write(root, relativePath, content);
+		}
+		await git(root, 'add', '-A');
+		await git(root, 'commit', '--quiet', '-m', 'initial');
+	}
+
+	test('staged new file has a new file header', async () => {
+		await commitInitial({ 'a.txt': 'a\n' });
+		write(root, 'src/new.ts', 'export const x = 1;\n');
+		await git(root, 'add', 'src/new.ts');
+
+		const diff = await new GitDiffCollector('git', root, 'staged').getDiff('src/new.ts');
+
+		assert.match(diff, /^diff --git a\/src\/new\.ts b\/src\/new\.ts$/m);
+		assert.match(diff, /^new file mode 100644$/m);
+		assert.match(diff, /^\+export const x = 1;$/m);
+	});
+
+	test('deleted file is reported without its old content', async () => {
+		await commitInitial({ 'gone.txt': 'line 1\nline 2\n' });
+		fs.rmSync(path.join(root, 'gone.txt'));
+
+		const unstaged = await new GitDiffCollector('git', root, 'unstaged').getDiff('gone.txt');
+		await git(root, 'rm', '--quiet', 'gone.txt');
+		const staged = await new GitDiffCollector('git', root, 'staged').getDiff('gone.txt');
+
+		for (const diff of [unstaged, staged]) {
+			assert.match(diff, /^deleted file mode 100644$/m);
+			assert.doesNotMatch(diff, /^-line 1$/m);
+		}
+	});
+
+	test('rename is diffed as one entry from the new path', async () => {
+		await commitInitial({ 'old/name.ts': 'export const value = 42;\nexport const other = 1;\n' });
+		fs.mkdirSync(path.join(root, 'new'));
+		await git(root, 'mv', 'old/name.ts', 'new/name.ts');
+
+		const collector = new GitDiffCollector('git', root, 'staged');
+		const diff = await collector.getDiff('new/name.ts');
+
+		assert.match(diff, /^rename from old\/name\.ts$/m);
+		assert.match(diff, /^rename to new\/name\.ts$/m);
+		assert.strictEqual(await collector.getRenamedTo('old/name.ts'), 'new/name.ts');
+		assert.strictEqual(await collector.getRenamedTo('new/name.ts'), undefined);
+	});
+
+	test('mode change is shown', async function () {
+		if (process.platform === 'win32') {
+			this.skip();
+		}
+		await commitInitial({ 'run.sh': 'echo hi\n' });
+		fs.chmodSync(path.join(root, 'run.sh'), 0o755);
+
+		const diff = await new GitDiffCollector('git', root, 'all').getDiff('run.sh');
+
+		assert.match(diff, /^old mode 100644$/m);
+		assert.match(diff, /^new mode 100755$/m);
+	});
+
+	test('binary files are summarized instead of decoded', async () => {
+		await commitInitial({ 'a.txt': 'a\n' });
+		write(root, 'image.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01, 0x02, 0xff, 0x00]));
+		await git(root, 'add', 'image.png');
+
+		const diff = await new GitDiffCollector('git', root, 'staged').getDiff('image.png');
+
+		assert.match(diff, /^Binary files \/dev\/null and b\/image\.png differ$/m);
+		assert.ok(!diff.includes('\u0000'));
+	});
+
+	test('untracked file in unstaged mode is diffed against an empty file', async () => {
+		await commitInitial({ 'a.txt': 'a\n' });
+		write(root, 'notes.md', '# Notes\n');
+
+		const diff = await new GitDiffCollector('git', root, 'unstaged').getDiff('notes.md');
+
+		assert.match(diff, /^new file mode/m);
+		assert.match(diff, /^\+# Notes$/m);
+		assert.strictEqual(await new GitDiffCollector('git', root, 'staged').getDiff('notes.md'), '');
+	});
+
+	test('all mode works before the first commit', async () => {
+		write(root, 'first.txt', 'hello\n');
+		await git(root, 'add', 'first.txt');
+
+		const diff = await new GitDiffCollector('git', root, 'all').getDiff('first.txt');
+
+		assert.match(diff, /^new file mode 100644$/m);
+		assert.match(diff, /^\+hello$/m);
+	});
+
+	test('submodule change is summarized', async () => {
+		await commitInitial({ 'a.txt': 'a\n' });
+		const head = (await git(root, 'rev-parse', 'HEAD')).trim();
+		await git(root, 'update-index', '--add', '--cacheinfo', `160000,${head},vendor/lib`);
+
+		const diff = await new GitDiffCollector('git', root, 'staged').getDiff('vendor/lib');
+
+		assert.match(diff, /^Submodule vendor\/lib /m);
+	});
+
+	test('rename and copy entries are parsed from name-status output', () => {
+		const renames = parseRenames('M\0a.ts\0R100\0old.ts\0new.ts\0C75\0src.ts\0copy.ts\0D\0gone.ts\0');
+
+		assert.deepStrictEqual([...renames], [
+			['new.ts', { path: 'old.ts', renamed: true }],
+			['copy.ts', { path: 'src.ts', renamed: false }],
+		]);
+	});
+});
@@ -0,0 +1,27 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { runGit } from '../gitDiff';
+
+/**
+ * Run git in a test repository, with a fixed author and without commit signing
+ * @param root Repository root
+ * @param args Git arguments
+ */
+export function git(root: string, ...args: string[]): Promise<string> {
+	return runGit('git', root, ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args]);
+}
+
+/**
+ * Write a file and commit it
+ * @param root Repository root
+ * @param relativePath Path of the file relative to `root`
+ * @param content New content of the file
+ * @param message Commit message
+ * @returns Hash of the new commit
+ */
+export async function commit(root: string, relativePath: string, content: string, message: string): Promise<string> {
+	fs.writeFileSync(path.join(root, relativePath), content);
+	await git(root, 'add', relativePath);
+	await git(root, 'commit', '--quiet', '-m', message);
+	return (await git(root, 'rev-parse', 'HEAD')).trim();
+}
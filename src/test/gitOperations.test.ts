@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import { commitAndPush, commitGroups, describeGitError, stageExactly } from '../gitOperations';
+
+// 호출된 Git API 메서드를 기록하는 가짜 저장소
+function fakeRepo(state: any) {
+	const calls: [string, ...any[]][] = [];
+	return {
+		calls,
+		state,
+		add: async (paths: string[]) => { calls.push(['add', paths]); },
+		revert: async (paths: string[]) => { calls.push(['revert', paths]); },
+		commit: async (message: string, options: any) => { calls.push(['commit', message, options]); },
+		push: async (...args: any[]) => { calls.push(['push', ...args]); },
+	};
+}
+
+suite('Git Operations Test Suite', () => {
+	test('unselected staged files are unstaged and selected files staged', async () => {
+		const repo = fakeRepo({ indexChanges: [{ uri: { fsPath: '/r/a.ts' } }, { uri: { fsPath: '/r/b.ts' } }] });
+		await stageExactly(repo, ['/r/a.ts', '/r/c.ts'], 'unstaged');
+
+		assert.deepStrictEqual(repo.calls, [['revert', ['/r/b.ts']], ['add', ['/r/a.ts', '/r/c.ts']]]);
+	});
+
+	test('staged mode keeps the index as is for selected files', async () => {
+		const repo = fakeRepo({ indexChanges: [{ uri: { fsPath: '/r/a.ts' } }] });
+		await stageExactly(repo, ['/r/a.ts'], 'staged');
+
+		assert.deepStrictEqual(repo.calls, []);
+	});
+
+	test('partially selected files are kept in the index without being staged fully', async () => {
+		const repo = fakeRepo({ indexChanges: [{ uri: { fsPath: '/r/b.ts' } }] });
+		await stageExactly(repo, ['/r/a.ts', '/r/b.ts'], 'unstaged', ['/r/b.ts']);
+
+		assert.deepStrictEqual(repo.calls, [['add', ['/r/a.ts']]]);
+	});
+
+	test('push sets the upstream when the branch has none', async () => {
+		const repo = fakeRepo({ HEAD: { name: 'feature' }, remotes: [{ name: 'origin' }] });
+		await commitAndPush(repo, 'feat: x', { push: true, amend: true });
+
+		assert.deepStrictEqual(repo.calls, [['commit', 'feat: x', { amend: true }], ['push', 'origin', 'feature', true]]);
+	});
+
+	test('groups are committed in order and stop at the first failure', async () => {
+		const repo = fakeRepo({ indexChanges: [] });
+		repo.commit = async (message: string, options: any) => {
+			repo.calls.push(['commit', message, options]);
+			if (message === 'broken') {
+				throw new Error('hook failed');
+			}
+		};
+		const committed: number[] = [];
+
+		await assert.rejects(commitGroups(repo, [
+			{ message: 'fix: a', files: ['/r/a.ts'] },
+			{ message: 'broken', files: ['/r/b.ts'] },
+			{ message: 'docs: c', files: ['/r/c.md'] },
+		], index => committed.push(index)), /hook failed/);
+
+		assert.deepStrictEqual(committed, [0]);
+		assert.deepStrictEqual(repo.calls, [
+			['add', ['/r/a.ts']],
+			['commit', 'fix: a', { amend: false }],
+			['add', ['/r/b.ts']],
+			['commit', 'broken', { amend: false }],
+		]);
+	});
+
+	test('partial files of a group get only their selected hunks staged', async () => {
+		const repo = fakeRepo({ indexChanges: [] });
+		const staged: string[] = [];
+
+		await commitGroups(repo, [
+			{ message: 'fix: a', files: ['/r/a.ts', '/r/b.ts'] },
+			{ message: 'docs: c', files: ['/r/c.md'] },
+		], undefined, { files: ['/r/b.ts'], stage: async file => { staged.push(file); } });
+
+		assert.deepStrictEqual(staged, ['/r/b.ts']);
+		assert.deepStrictEqual(repo.calls, [
+			['add', ['/r/a.ts']],
+			['commit', 'fix: a', { amend: false }],
+			['add', ['/r/c.md']],
+			['commit', 'docs: c', { amend: false }],
+		]);
+	});
+
+	test('git output is preferred over the generic error message', () => {
+		const error = Object.assign(new Error('Failed to execute git'), { stderr: 'husky - pre-commit hook exited with code 1\n' });
+		assert.strictEqual(describeGitError(error), 'husky - pre-commit hook exited with code 1');
+		assert.strictEqual(describeGitError(new Error('boom')), 'boom');
+	});
+});
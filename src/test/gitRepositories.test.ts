@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getChangeKind, getChangesForSource, getRepositoryForPath, GitStatus, groupByRepository } from '../gitRepositories';
+
+// rootUri만 가진 가짜 저장소
+function fakeRepo(root: string) {
+	return { rootUri: vscode.Uri.file(root) };
+}
+
+suite('Git Repositories Test Suite', () => {
+	const base = path.resolve('/workspace');
+	const app = fakeRepo(path.join(base, 'app'));
+	const lib = fakeRepo(path.join(base, 'app', 'packages', 'lib'));
+	const docs = fakeRepo(path.join(base, 'docs'));
+	const git = { repositories: [app, lib, docs] };
+
+	test('nested repository wins over its parent', () => {
+		assert.strictEqual(getRepositoryForPath(git, path.join(base, 'app', 'packages', 'lib', 'index.ts')), lib);
+		assert.strictEqual(getRepositoryForPath(git, path.join(base, 'app', 'src', 'main.ts')), app);
+	});
+
+	test('sibling folders with a common prefix do not match', () => {
+		assert.strictEqual(getRepositoryForPath(git, path.join(base, 'app-old', 'main.ts')), undefined);
+	});
+
+	test('files are grouped per repository', () => {
+		const groups = groupByRepository(git, [
+			path.join(base, 'app', 'a.ts'),
+			path.join(base, 'docs', 'readme.md'),
+			path.join(base, 'app', 'b.ts'),
+			path.join(base, 'outside.txt'),
+		]);
+
+		assert.deepStrictEqual(groups.get(app), [path.join(base, 'app', 'a.ts'), path.join(base, 'app', 'b.ts')]);
+		assert.deepStrictEqual(groups.get(docs), [path.join(base, 'docs', 'readme.md')]);
+		assert.strictEqual(groups.size, 2);
+	});
+
+	test('all mode lists a file once with its index status', () => {
+		const added = vscode.Uri.file(path.join(base, 'app', 'new.ts'));
+		const edited = vscode.Uri.file(path.join(base, 'app', 'edited.ts'));
+		const repo = {
+			state: {
+				indexChanges: [{ uri: added, status: GitStatus.INDEX_ADDED }],
+				workingTreeChanges: [{ uri: added, status: GitStatus.MODIFIED }, { uri: edited, status: GitStatus.MODIFIED }],
+			},
+		};
+
+		assert.deepStrictEqual(getChangesForSource(repo, 'staged').map(change => change.uri), [added]);
+		assert.strictEqual(getChangesForSource(repo, 'unstaged').length, 2);
+		const all = getChangesForSource(repo, 'all');
+		assert.deepStrictEqual(all.map(change => getChangeKind(change.status)), ['added', 'modified']);
+	});
+});
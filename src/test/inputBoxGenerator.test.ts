@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AiCommitProvider } from '../aiCommitProvider';
+import { GenerateOptions } from '../commitGenerator';
+import { InputBoxGenerator } from '../inputBoxGenerator';
+
+// 스테이징된 파일 하나와 입력란만 가진 가짜 저장소
+function fakeRepo(value: string) {
+	const file = vscode.Uri.file('/workspace/app/a.ts');
+	return {
+		rootUri: vscode.Uri.file('/workspace/app'),
+		inputBox: { value },
+		state: { indexChanges: [{ uri: file, originalUri: file, status: 5 }], workingTreeChanges: [] },
+	};
+}
+
+// 메시지 생성은 주어진 함수로 대신하는 공급자
+function fakeProvider(generate: (options: GenerateOptions) => Promise<string>) {
+	let calls = 0;
+	const provider = {
+		get calls() {
+			return calls;
+		},
+		getSetupIssue: async () => undefined,
+		getFileDiffs: async () => [{ path: 'a.ts', diff: '+x', redactions: [], excluded: false }],
+		prepareDiff: async () => ({ content: '+x', files: [] }),
+		getPromptContext: async () => ({}),
+		generateCommitMessage: async (_diffContent: string, options: GenerateOptions) => {
+			calls++;
+			return { message: await generate(options), warnings: [], fallback: false, promptTokens: 1 };
+		},
+	};
+	return provider as unknown as typeof provider & AiCommitProvider;
+}
+
+suite('Input Box Generator Test Suite', () => {
+	test('the message is streamed into the input box and replaced by the cleaned one', async () => {
+		const repo = fakeRepo('draft');
+		const seen: string[] = [];
+		const provider = fakeProvider(async options => {
+			for (const token of ['feat: add ', 'login.']) {
+				options.onToken?.(token);
+				seen.push(repo.inputBox.value);
+			}
+			return 'feat: add login';
+		});
+
+		await new InputBoxGenerator(provider).generate(repo);
+
+		assert.deepStrictEqual(seen, ['feat: add ', 'feat: add login.']);
+		assert.strictEqual(repo.inputBox.value, 'feat: add login');
+	});
+
+	test('running again in the same repository stops the generation and restores the input', async () => {
+		const repo = fakeRepo('draft');
+		let started!: () => void;
+		const waiting = new Promise<void>(resolve => {
+			started = resolve;
+		});
+		// 처음에는 토큰 하나만 보내고 중단될 때까지 기다림
+		let aborted = false;
+		const provider = fakeProvider(options => aborted ? Promise.resolve('feat: add login') : new Promise((_resolve, reject) => {
+			options.onToken?.('feat: ');
+			options.signal?.addEventListener('abort', () => {
+				aborted = true;
+				reject(new vscode.CancellationError());
+			});
+			started();
+		}));
+		const generator = new InputBoxGenerator(provider);
+
+		const first = generator.generate(repo);
+		await waiting;
+		assert.strictEqual(repo.inputBox.value, 'feat: ');
+		await generator.generate(repo);
+		await first;
+
+		assert.strictEqual(provider.calls, 1);
+		assert.strictEqual(repo.inputBox.value, 'draft');
+
+		// 중단한 뒤에는 다시 생성할 수 있음
+		await generator.generate(repo);
+		assert.strictEqual(provider.calls, 2);
+		assert.strictEqual(repo.inputBox.value, 'feat: add login');
+	});
+});
@@ -0,0 +1,188 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createLlmProvider } from '../llm';
+
+interface RecordedRequest {
+	url: string;
+	headers: http.IncomingHttpHeaders;
+	body: any;
+}
+
+// 공급자 요청을 기록하고 고정 응답을 돌려주는 로컬 스텁 서버
+// 응답이 문자열이면 스트리밍 응답으로 그대로 씀
+function startStubServer(respond: (req: RecordedRequest) => unknown): Promise<{ baseUrl: string; requests: RecordedRequest[]; close: () => Promise<void> }> {
+	const requests: RecordedRequest[] = [];
+	const server = http.createServer((req, res) => {
+		let raw = '';
+		req.on('data', chunk => raw += chunk);
+		req.on('end', () => {
+			const recorded = { url: req.url ?? '', headers: req.headers, body: raw ? JSON.parse(raw) : undefined };
+			requests.push(recorded);
+			const response = respond(recorded);
+			if (typeof response === 'string') {
+				res.setHeader('Content-Type', 'text/event-stream');
+				res.end(response);
+			} else {
+				res.setHeader('Content-Type', 'application/json');
+				res.end(JSON.stringify(response));
+			}
+		});
+	});
+
+	return new Promise(resolve => {
+		server.listen(0, '127.0.0.1', () => {
+			const { port } = server.address() as AddressInfo;
+			resolve({
+				baseUrl: `http://127.0.0.1:${port}`,
+				requests,
+				close: () => new Promise<void>(done => server.close(() => done())),
+			});
+		});
+	});
+}
+
+const messages = [
+	{ role: 'system' as const, content: 'system prompt' },
+	{ role: 'user' as const, content: 'diff' },
+];
+
+suite('LLM Provider Test Suite', () => {
+	test('openai-compatible sends chat completions to the configured base URL', async () => {
+		const stub = await startStubServer(() => ({
+			id: 'x', object: 'chat.completion', created: 0, model: 'local',
+			choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'feat: add stub' } }],
+		}));
+		try {
+			const llm = createLlmProvider({ provider: 'openai-compatible', baseUrl: `${stub.baseUrl}/v1`, model: 'local' });
+			const result = await llm.complete(messages, { maxTokens: 50 });
+
+			assert.strictEqual(result, 'feat: add stub');
+			assert.strictEqual(stub.requests[0].url, '/v1/chat/completions');
+			assert.strictEqual(stub.requests[0].body.model, 'local');
+			assert.strictEqual(stub.requests[0].body.max_tokens, 50);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('ollama uses the native chat endpoint', async () => {
+		const stub = await startStubServer(() => ({ message: { role: 'assistant', content: 'fix: handle null' }, done: true }));
+		try {
+			const llm = createLlmProvider({ provider: 'ollama', baseUrl: stub.baseUrl, model: 'qwen2.5-coder' });
+			const result = await llm.complete(messages);
+
+			assert.strictEqual(result, 'fix: handle null');
+			assert.strictEqual(stub.requests[0].url, '/api/chat');
+			assert.strictEqual(stub.requests[0].body.model, 'qwen2.5-coder');
+			assert.strictEqual(stub.requests[0].body.stream, false);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('anthropic moves system messages out of the conversation', async () => {
+		const stub = await startStubServer(() => ({ content: [{ type: 'text', text: 'docs: update readme' }] }));
+		try {
+			const llm = createLlmProvider({ provider: 'anthropic', apiKey: 'test-key', baseUrl: stub.baseUrl });
+			const result = await llm.complete(messages);
+
+			assert.strictEqual(result, 'docs: update readme');
+			assert.strictEqual(stub.requests[0].url, '/v1/messages');
+			assert.strictEqual(stub.requests[0].headers['x-api-key'], 'test-key');
+			assert.strictEqual(stub.requests[0].body.system, 'system prompt');
+			assert.deepStrictEqual(stub.requests[0].body.messages, [{ role: 'user', content: 'diff' }]);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('azure-openai targets the deployment URL', async () => {
+		const stub = await startStubServer(() => ({
+			id: 'x', object: 'chat.completion', created: 0, model: 'gpt-4o',
+			choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'chore: bump' } }],
+		}));
+		try {
+			const llm = createLlmProvider({ provider: 'azure-openai', apiKey: 'k', baseUrl: stub.baseUrl, deployment: 'my-gpt' });
+			const result = await llm.complete(messages);
+
+			assert.strictEqual(result, 'chore: bump');
+			assert.ok(stub.requests[0].url.startsWith('/openai/deployments/my-gpt/chat/completions'));
+			assert.strictEqual(stub.requests[0].headers['api-key'], 'k');
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('missing required settings are rejected', () => {
+		assert.throws(() => createLlmProvider({ provider: 'openai' }), /API key/);
+		assert.throws(() => createLlmProvider({ provider: 'openai-compatible', model: 'x' }), /base URL/);
+		assert.throws(() => createLlmProvider({ provider: 'azure-openai', apiKey: 'k', baseUrl: 'http://x' }), /deployment/);
+	});
+
+	test('openai-compatible streams tokens', async () => {
+		const chunk = (content: string) => `data: ${JSON.stringify({
+			id: 'x', object: 'chat.completion.chunk', created: 0, model: 'local',
+			choices: [{ index: 0, finish_reason: null, delta: { content } }],
+		})}\n\n`;
+		const stub = await startStubServer(() => chunk('feat: ') + chunk('stream') + 'data: [DONE]\n\n');
+		try {
+			const llm = createLlmProvider({ provider: 'openai-compatible', baseUrl: `${stub.baseUrl}/v1`, model: 'local' });
+			const tokens: string[] = [];
+			const result = await llm.complete(messages, { onToken: token => tokens.push(token) });
+
+			assert.strictEqual(result, 'feat: stream');
+			assert.deepStrictEqual(tokens, ['feat: ', 'stream']);
+			assert.strictEqual(stub.requests[0].body.stream, true);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('ollama streams NDJSON tokens', async () => {
+		const lines = ['fix: ', 'null ', 'check'].map(content => JSON.stringify({ message: { role: 'assistant', content }, done: false }));
+		const stub = await startStubServer(() => lines.join('\n') + '\n' + JSON.stringify({ done: true }) + '\n');
+		try {
+			const llm = createLlmProvider({ provider: 'ollama', baseUrl: stub.baseUrl, model: 'llama3.1' });
+			const tokens: string[] = [];
+			const result = await llm.complete(messages, { onToken: token => tokens.push(token) });
+
+			assert.strictEqual(result, 'fix: null check');
+			assert.strictEqual(tokens.length, 3);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('anthropic streams text deltas', async () => {
+		const event = (data: object) => `event: x\ndata: ${JSON.stringify(data)}\n\n`;
+		const stub = await startStubServer(() =>
+			event({ type: 'message_start' }) +
+			event({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'docs: ' } }) +
+			event({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'readme' } }) +
+			event({ type: 'message_stop' }));
+		try {
+			const llm = createLlmProvider({ provider: 'anthropic', apiKey: 'k', baseUrl: stub.baseUrl });
+			const tokens: string[] = [];
+			const result = await llm.complete(messages, { onToken: token => tokens.push(token) });
+
+			assert.strictEqual(result, 'docs: readme');
+			assert.deepStrictEqual(tokens, ['docs: ', 'readme']);
+		} finally {
+			await stub.close();
+		}
+	});
+
+	test('aborted requests reject', async () => {
+		const stub = await startStubServer(() => ({ message: { role: 'assistant', content: 'late' } }));
+		try {
+			const llm = createLlmProvider({ provider: 'ollama', baseUrl: stub.baseUrl, model: 'llama3.1' });
+			const controller = new AbortController();
+			controller.abort();
+
+			await assert.rejects(llm.complete(messages, { signal: controller.signal }));
+		} finally {
+			await stub.close();
+		}
+	});
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitDiffCollector } from '../gitDiff';
+import { buildPullRequestPrompt, collectBranchChanges, DEFAULT_PULL_REQUEST_TEMPLATE, parsePullRequest } from '../pullRequest';
+import { commit, git } from './gitFixture';
+
+suite('Pull Request Test Suite', () => {
+	let root: string;
+
+	setup(async () => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-with-ai-pr-'));
+		await git(root, 'init', '--quiet', '--initial-branch=main');
+		await commit(root, 'a.txt', 'a\n', 'initial');
+		await git(root, 'checkout', '--quiet', '-b', 'feature/PROJ-7-login');
+		await commit(root, 'login.ts', 'export const login = 1;\n', 'feat: add login\n\nUses the session API.');
+		await commit(root, 'a.txt', 'a\nb\n', 'fix: extend a');
+		// 브랜치를 만든 뒤 대상 브랜치에 생긴 커밋은 포함되지 않아야 함
+		await git(root, 'checkout', '--quiet', 'main');
+		await commit(root, 'main.txt', 'main\n', 'chore: unrelated');
+		await git(root, 'checkout', '--quiet', 'feature/PROJ-7-login');
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('commits and files since the merge base are collected', async () => {
+		const changes = await collectBranchChanges('git', root, 'main');
+
+		assert.strictEqual(changes.target, 'main');
+		assert.deepStrictEqual(changes.commits.map(item => [item.subject, item.body]), [
+			['feat: add login', 'Uses the session API.'],
+			['fix: extend a', ''],
+		]);
+		assert.deepStrictEqual(changes.files.sort(), ['a.txt', 'login.ts']);
+
+		const diff = await new GitDiffCollector('git', root, { base: changes.mergeBase, head: 'HEAD' }).getDiff('a.txt');
+		assert.match(diff, /^\+b$/m);
+	});
+
+	test('a missing target branch is reported', async () => {
+		await assert.rejects(collectBranchChanges('git', root, 'develop'), /develop was not found/);
+	});
+
+	test('prompt lists the commits, files and tickets', () => {
+		const prompt = buildPullRequestPrompt(DEFAULT_PULL_REQUEST_TEMPLATE, {
+			diff: '+export const login = 1;',
+			commits: [{ hash: 'abc', subject: 'feat: add login', body: 'Uses the session API.' }],
+			files: ['login.ts'],
+			branch: 'feature/PROJ-7-login',
+			targetBranch: 'main',
+			language: 'ko',
+			tickets: ['PROJ-7'],
+		});
+
+		assert.ok(prompt.includes('merges feature/PROJ-7-login into main'));
+		assert.ok(prompt.includes('- feat: add login\n  Uses the session API.'));
+		assert.ok(prompt.includes('- login.ts'));
+		assert.ok(prompt.includes('PROJ-7'));
+		assert.ok(prompt.includes('in Korean'));
+		assert.ok(prompt.includes('+export const login = 1;'));
+	});
+
+	test('title and description are split from the answer', () => {
+		assert.deepStrictEqual(parsePullRequest('Title: Add login form\n\n## Summary\nAdds a form.\n\n```ts\nlogin();\n```'), {
+			title: 'Add login form',
+			body: '## Summary\nAdds a form.\n\n```ts\nlogin();\n```',
+		});
+		assert.deepStrictEqual(parsePullRequest('```markdown\n# Add login form\n\n## Summary\nAdds a form.\n```'), {
+			title: 'Add login form',
+			body: '## Summary\nAdds a form.',
+		});
+		assert.throws(() => parsePullRequest('  '), /did not return a pull request title/);
+	});
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runGit } from '../gitDiff';
+import { extractTickets, findScopes, readRecentCommitSubjects } from '../repoContext';
+
+function write(root: string, relativePath: string, content: string) {
+	fs.mkdirSync(path.dirname(path.join(root, relativePath)), { recursive: true });
+	fs.writeFileSync(path.join(root, relativePath), content);
+}
+
+suite('Repository Context Test Suite', () => {
+	let root: string;
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-with-ai-context-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('ticket IDs are pulled out of branch names', () => {
+		assert.deepStrictEqual(extractTickets('feature/proj-123-login'), ['PROJ-123']);
+		assert.deepStrictEqual(extractTickets('ABC-1_and_ABC-1-and-XY2-30'), ['ABC-1', 'XY2-30']);
+		assert.deepStrictEqual(extractTickets('main'), []);
+		assert.deepStrictEqual(extractTickets('fix/issue-42', 'issue-\\d+'), ['ISSUE-42']);
+	});
+
+	test('nearest manifest names the scope', () => {
+		write(root, 'package.json', JSON.stringify({ name: 'monorepo' }));
+		write(root, 'packages/ui/package.json', JSON.stringify({ name: '@acme/ui' }));
+		write(root, 'crates/core/Cargo.toml', '[package]\nname = "acme-core"\nversion = "0.1.0"\n');
+
+		const scopes = findScopes(root, [
+			'packages/ui/src/button.tsx',
+			'packages/ui/src/input.tsx',
+			'crates/core/src/lib.rs',
+			'apps/web/index.ts',
+			'README.md',
+		]);
+
+		assert.deepStrictEqual(scopes, ['ui', 'acme-core', 'web']);
+	});
+
+	test('recent commit subjects are read newest first without merges', async () => {
+		const git = (...args: string[]) => runGit('git', root, ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args]);
+		await git('init', '--quiet');
+		assert.deepStrictEqual(await readRecentCommitSubjects('git', root, 5), []);
+
+		for (const subject of ['feat: first', 'fix(api): second', 'docs: third']) {
+			await git('commit', '--quiet', '--allow-empty', '-m', subject);
+		}
+
+		assert.deepStrictEqual(await readRecentCommitSubjects('git', root, 2), ['docs: third', 'fix(api): second']);
+		assert.deepStrictEqual(await readRecentCommitSubjects('git', root, 0), []);
+	});
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { parseFileDiff } from '../diffHunks';
+import { escapeHtml, html, renderDiffLines } from '../webviewHtml';
+
+// 파일 내용과 경로로 웹뷰 마크업을 깨거나 스크립트를 넣으려는 diff
+const MALICIOUS_DIFF = [
+	'diff --git a/"><img src=x onerror=alert(1)>.ts b/"><img src=x onerror=alert(1)>.ts',
+	'--- a/"><img src=x onerror=alert(1)>.ts',
+	'+++ b/"><img src=x onerror=alert(1)>.ts',
+	'@@ -1 +1 @@ </pre><script>alert(1)</script>',
+	'-</textarea><script>alert(1)</script>',
+	'+<!-- \' " & -->',
+	'',
+].join('\n');
+
+suite('Webview HTML Test Suite', () => {
+	test('diff content cannot close the diff viewer or add elements', () => {
+		const parsed = parseFileDiff(MALICIOUS_DIFF);
+
+		const rendered = html`<code>${parsed.hunks[0].header}</code>${renderDiffLines(parsed.hunks[0].lines)}`.toString();
+
+		assert.ok(!/<(script|img|\/textarea)/i.test(rendered));
+		assert.strictEqual((rendered.match(/<\/pre>/g) ?? []).length, 1);
+		assert.ok(rendered.includes('<span class="diff-removed">-&lt;/textarea&gt;&lt;script&gt;alert(1)&lt;/script&gt;</span>'));
+		assert.ok(rendered.includes('<span class="diff-added">+&lt;!-- &#39; &quot; &amp; --&gt;</span>'));
+	});
+
+	test('values cannot leave a quoted attribute or a textarea', () => {
+		const path = '"><img src=x onerror=alert(1)>.ts';
+		const message = 'fix: x</textarea><script>alert(1)</script>';
+
+		const rendered = html`<a data-path="${path}" title='${path}'>${path}</a><textarea>${message}</textarea>`.toString();
+
+		assert.strictEqual(rendered, `<a data-path="${escapeHtml(path)}" title='${escapeHtml(path)}'>${escapeHtml(path)}</a><textarea>${escapeHtml(message)}</textarea>`);
+		assert.ok(!/<(script|img)/i.test(rendered));
+		assert.strictEqual((rendered.match(/<\/textarea>/g) ?? []).length, 1);
+	});
+
+	test('nested templates are kept and empty values render nothing', () => {
+		const items = ['<b>', 'c&d'];
+
+		const rendered = html`<ul>${items.map(item => html`<li>${item}</li>`)}</ul>${false}${undefined}${null}${0}`.toString();
+
+		assert.strictEqual(rendered, '<ul><li>&lt;b&gt;</li><li>c&amp;d</li></ul>0');
+	});
+});
@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { parseWebviewMessage } from '../webviewProtocol';
+
+suite('Webview Protocol Test Suite', () => {
+	test('valid messages keep only their known fields', () => {
+		assert.deepStrictEqual(
+			parseWebviewMessage({ command: 'toggleHunk', path: '/r/a.ts', hunk: '@@ -1 +1 @@', selected: false, html: '<script>' }),
+			{ command: 'toggleHunk', path: '/r/a.ts', hunk: '@@ -1 +1 @@', selected: false }
+		);
+		assert.deepStrictEqual(parseWebviewMessage({ command: 'refreshFiles' }), { command: 'refreshFiles' });
+		assert.deepStrictEqual(
+			parseWebviewMessage({ command: 'commitSelected', message: 'fix: x', selectedFiles: ['/r/a.ts'], amend: false, push: true }),
+			{ command: 'commitSelected', message: 'fix: x', selectedFiles: ['/r/a.ts'], amend: false, push: true }
+		);
+	});
+
+	test('unknown commands and malformed values are rejected', () => {
+		assert.strictEqual(parseWebviewMessage(undefined), undefined);
+		assert.strictEqual(parseWebviewMessage('refreshFiles'), undefined);
+		assert.strictEqual(parseWebviewMessage({ command: 'runShell', script: 'rm -rf /' }), undefined);
+		assert.strictEqual(parseWebviewMessage({ command: 'toString' }), undefined);
+		assert.strictEqual(parseWebviewMessage({ command: 'applyCommit' }), undefined);
+		assert.strictEqual(parseWebviewMessage({ command: 'applyCommit', message: 42 }), undefined);
+		assert.strictEqual(parseWebviewMessage({ command: 'selectCandidate', index: -1 }), undefined);
+		assert.strictEqual(parseWebviewMessage({ command: 'showRound', index: 1.5 }), undefined);
+		assert.strictEqual(parseWebviewMessage({ command: 'generateCommit', selectedFiles: ['/r/a.ts', 1] }), undefined);
+		assert.strictEqual(parseWebviewMessage({ command: 'setDiffSource', source: 'HEAD~1' }), undefined);
+		assert.strictEqual(parseWebviewMessage({ command: 'toggleHistory', open: 'true' }), undefined);
+	});
+});
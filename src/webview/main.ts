@@ -0,0 +1,284 @@
+import { DiffSource } from '../gitDiff';
+import { ExtensionMessage, WebviewMessage } from '../webviewProtocol';
+
+// AI Commit 뷰의 웹뷰 스크립트. dist/webview.js로 따로 번들되어 CSP nonce와 함께 로드됨
+
+declare function acquireVsCodeApi(): { postMessage(message: WebviewMessage): void };
+
+const vscode = acquireVsCodeApi();
+
+function post(message: WebviewMessage) {
+  vscode.postMessage(message);
+}
+
+// 스트리밍 중인 후보 메시지 반영 (매번 후보별 전체 텍스트가 전달됨)
+window.addEventListener('message', (event: MessageEvent<ExtensionMessage>) => {
+  const message = event.data;
+  if (message.command === 'render') {
+    // 바뀐 영역만 새로 그리고, 파일 목록의 스크롤 위치는 유지 (HTML은 확장에서 모든 값을 이스케이프해 만듦)
+    for (const [section, html] of Object.entries(message.sections)) {
+      const element = document.getElementById(`section-${section}`);
+      if (!element) {
+        continue;
+      }
+      const scrollTop = element.querySelector('.file-list')?.scrollTop ?? 0;
+      const edits = flushPendingInputs(element);
+      element.innerHTML = html ?? '';
+      restoreInputs(element, edits);
+      const newFileList = element.querySelector('.file-list');
+      if (newFileList) {
+        newFileList.scrollTop = scrollTop;
+      }
+      bindEvents(element);
+    }
+  } else if (message.command === 'streamToken') {
+    const messageElement = document.querySelector<HTMLTextAreaElement>(`.candidate-message[data-index="${message.index}"]`);
+    if (messageElement) {
+      messageElement.value = message.text;
+      messageElement.scrollTop = messageElement.scrollHeight;
+    }
+  } else if (message.command === 'lintResult' || message.command === 'planLintResult') {
+    const warningsElement = document.getElementById(`${message.command === 'lintResult' ? 'lint-warnings-' : 'plan-warnings-'}${message.index}`);
+    if (warningsElement) {
+      warningsElement.replaceChildren(...message.warnings.map(warning => {
+        const item = document.createElement('li');
+        item.textContent = `${warning.message} `;
+        const rule = document.createElement('span');
+        rule.className = 'lint-rule';
+        rule.textContent = `(${warning.rule})`;
+        item.appendChild(rule);
+        return item;
+      }));
+    }
+  }
+});
+
+function getSelectedFiles(): string[] {
+  return Array.from(document.querySelectorAll<HTMLInputElement>('.file-checkbox'))
+    .filter(checkbox => checkbox.checked)
+    .map(checkbox => checkbox.dataset.path ?? '');
+}
+
+function getSelectedMessage(): string {
+  const selected = document.querySelector<HTMLInputElement>('input[name="candidate"]:checked');
+  const messageElement = document.querySelector<HTMLTextAreaElement>(`.candidate-message[data-index="${selected ? selected.value : 0}"]`);
+  return messageElement ? messageElement.value : '';
+}
+
+// 버튼을 누르면 누른 요소로 만든 메시지를 보냄
+function onClick(root: ParentNode, selector: string, message: (element: HTMLElement) => WebviewMessage) {
+  root.querySelectorAll<HTMLElement>(selector).forEach(element => {
+    element.addEventListener('click', () => post(message(element)));
+  });
+}
+
+// 입력이 멈추기를 기다리는 중이라 아직 보내지 않은 입력란과 바로 보내는 함수
+const pendingInputs = new Map<HTMLTextAreaElement, () => void>();
+
+// 입력이 멈추고 잠시 후 메시지를 보냄
+function onInputIdle(element: HTMLTextAreaElement, message: () => WebviewMessage) {
+  let lintTimer: ReturnType<typeof setTimeout> | undefined;
+  const flush = () => {
+    clearTimeout(lintTimer);
+    pendingInputs.delete(element);
+    post(message());
+  };
+  element.addEventListener('input', () => {
+    clearTimeout(lintTimer);
+    pendingInputs.set(element, flush);
+    lintTimer = setTimeout(flush, 400);
+  });
+}
+
+// 새로 그린 영역에서 같은 입력란을 찾기 위한 키
+function inputKey(element: HTMLTextAreaElement): string {
+  return `${element.className}:${element.dataset.index ?? element.dataset.group ?? element.id}`;
+}
+
+// 영역을 새로 그리기 전에 그 안의 보내지 않은 입력을 보내고, 입력란의 내용을 돌려줌
+function flushPendingInputs(root: HTMLElement): Map<string, string> {
+  const edits = new Map<string, string>();
+  for (const [element, flush] of pendingInputs) {
+    if (root.contains(element)) {
+      edits.set(inputKey(element), element.value);
+      flush();
+    }
+  }
+  return edits;
+}
+
+// 새 HTML은 보내기 전의 상태로 만들어졌으므로 고치던 내용을 같은 입력란에 되돌림
+function restoreInputs(root: HTMLElement, edits: Map<string, string>) {
+  if (edits.size === 0) {
+    return;
+  }
+  root.querySelectorAll<HTMLTextAreaElement>('textarea').forEach(element => {
+    const value = edits.get(inputKey(element));
+    if (value !== undefined && !element.readOnly) {
+      element.value = value;
+    }
+  });
+}
+
+// 처음 그릴 때와 영역을 새로 그릴 때마다 그 안의 요소에 이벤트를 연결
+function bindEvents(root: ParentNode) {
+  onClick(root, '#apply-button', () => ({ command: 'applyCommit', message: getSelectedMessage() }));
+  onClick(root, '#regenerate-button', () => ({ command: 'regenerate' }));
+  onClick(root, '#generate-button', () => ({ command: 'generateCommit', selectedFiles: getSelectedFiles() }));
+  onClick(root, '#plan-button', () => ({ command: 'planCommits', selectedFiles: getSelectedFiles() }));
+  onClick(root, '#commit-plan-button', () => ({ command: 'commitPlan' }));
+  onClick(root, '#discard-plan-button', () => ({ command: 'discardPlan' }));
+  onClick(root, '#review-button', () => ({ command: 'reviewChanges', selectedFiles: getSelectedFiles() }));
+  onClick(root, '#discard-review-button', () => ({ command: 'discardReview' }));
+  onClick(root, '#stop-button', () => ({ command: 'stopGeneration' }));
+  onClick(root, '#refresh-button', () => ({ command: 'refreshFiles' }));
+  onClick(root, '#set-api-key-button', () => ({ command: 'setApiKey' }));
+  onClick(root, '#open-settings-button', () => ({ command: 'openSettings' }));
+
+  // 계획의 파일을 다른 커밋(또는 새 커밋)으로 끌어서 이동
+  root.querySelectorAll<HTMLElement>('.plan-file[draggable="true"]').forEach(item => {
+    item.addEventListener('dragstart', event => {
+      event.dataTransfer?.setData('text/plain', item.dataset.path ?? '');
+    });
+  });
+  root.querySelectorAll<HTMLElement>('.plan-group:not(.committed)').forEach(group => {
+    group.addEventListener('dragover', event => {
+      event.preventDefault();
+      group.classList.add('drag-over');
+    });
+    group.addEventListener('dragleave', () => group.classList.remove('drag-over'));
+    group.addEventListener('drop', event => {
+      event.preventDefault();
+      post({
+        command: 'movePlanFile',
+        path: event.dataTransfer?.getData('text/plain') ?? '',
+        group: Number(group.dataset.group)
+      });
+    });
+  });
+
+  root.querySelectorAll<HTMLTextAreaElement>('.plan-message').forEach(messageElement => {
+    onInputIdle(messageElement, () => ({
+      command: 'editPlanMessage',
+      group: Number(messageElement.dataset.group),
+      message: messageElement.value
+    }));
+  });
+
+  // 선택한 후보 메시지로 체크된 파일만 커밋 (필요하면 푸시)
+  const amendCheckbox = root.querySelector<HTMLInputElement>('#amend-checkbox');
+  for (const [selector, push] of [['#commit-button', false], ['#commit-push-button', true]] as const) {
+    onClick(root, selector, () => ({
+      command: 'commitSelected',
+      message: getSelectedMessage(),
+      selectedFiles: getSelectedFiles(),
+      amend: amendCheckbox ? amendCheckbox.checked : false,
+      push
+    }));
+  }
+
+  const candidateElements = root.querySelectorAll<HTMLElement>('.candidate');
+  candidateElements.forEach(candidateElement => {
+    const index = Number(candidateElement.dataset.index);
+    const radio = candidateElement.querySelector<HTMLInputElement>('input[type="radio"]');
+    const messageElement = candidateElement.querySelector('textarea');
+    if (!radio || !messageElement) {
+      return;
+    }
+
+    // 후보 카드를 클릭하거나 편집하면 해당 후보를 선택
+    const select = () => {
+      if (radio.checked && candidateElement.classList.contains('selected')) {
+        return;
+      }
+      radio.checked = true;
+      candidateElements.forEach(element => element.classList.toggle('selected', element === candidateElement));
+      post({ command: 'selectCandidate', index });
+    };
+    radio.addEventListener('change', select);
+    messageElement.addEventListener('focus', select);
+
+    // 메시지를 고치면 저장하고 잠시 후 다시 검사
+    if (!messageElement.readOnly) {
+      onInputIdle(messageElement, () => ({ command: 'editCandidate', index, message: messageElement.value }));
+    }
+  });
+
+  onClick(root, '#prev-round-button, #next-round-button', button => ({ command: 'showRound', index: Number(button.dataset.round) }));
+
+  // 파일 diff 펼치기/접기, 파일 이름을 누르면 VS Code diff 편집기로 열기
+  root.querySelectorAll<HTMLInputElement>('.file-checkbox').forEach(checkbox => {
+    checkbox.addEventListener('change', () => {
+      post({ command: 'toggleFile', path: checkbox.dataset.path ?? '', selected: checkbox.checked });
+    });
+  });
+
+  onClick(root, '.file-toggle', button => ({ command: 'toggleFileDiff', path: button.dataset.path ?? '' }));
+
+  root.querySelectorAll<HTMLElement>('.file-open').forEach(link => {
+    link.addEventListener('click', event => {
+      event.preventDefault();
+      post({ command: 'openChange', path: link.dataset.path ?? '' });
+    });
+  });
+
+  // 검토 결과의 위치를 누르면 해당 줄을 편집기로 열기
+  root.querySelectorAll<HTMLElement>('.review-open').forEach(link => {
+    link.addEventListener('click', event => {
+      event.preventDefault();
+      post({ command: 'openReviewFinding', index: Number(link.dataset.index) });
+    });
+  });
+
+  root.querySelectorAll<HTMLInputElement>('.hunk-checkbox').forEach(checkbox => {
+    checkbox.addEventListener('change', () => {
+      post({ command: 'toggleHunk', path: checkbox.dataset.path ?? '', hunk: checkbox.dataset.hunk ?? '', selected: checkbox.checked });
+    });
+  });
+
+  onClick(root, '.stage-hunks-button', button => ({ command: 'stageHunks', path: button.dataset.path ?? '' }));
+
+  const history = root.querySelector<HTMLDetailsElement>('.history');
+  history?.addEventListener('toggle', () => post({ command: 'toggleHistory', open: history.open }));
+
+  // 기록의 메시지를 다시 적용하거나 복사하고, 저장소의 기록을 지움
+  onClick(root, '.reapply-history-button', button => ({ command: 'reapplyHistory', repoRoot: button.dataset.repo ?? '', id: button.dataset.id ?? '' }));
+  onClick(root, '.copy-history-button', button => ({ command: 'copyHistory', repoRoot: button.dataset.repo ?? '', id: button.dataset.id ?? '' }));
+  onClick(root, '.clear-history-button', button => ({ command: 'clearHistory', repoRoot: button.dataset.repo ?? '' }));
+
+  // PR 제목과 설명은 고치면 저장하고, 복사와 저장에는 입력란의 현재 내용을 보냄
+  const pullRequestTitle = root.querySelector<HTMLInputElement>('#pr-title');
+  const pullRequestBody = root.querySelector<HTMLTextAreaElement>('#pr-body');
+  if (pullRequestTitle && pullRequestBody) {
+    const edit = (): WebviewMessage => ({ command: 'editPullRequest', title: pullRequestTitle.value, body: pullRequestBody.value });
+    pullRequestTitle.addEventListener('change', () => post(edit()));
+    onInputIdle(pullRequestBody, edit);
+    onClick(root, '#copy-pr-title-button', () => ({ command: 'copyPullRequestTitle', title: pullRequestTitle.value }));
+    onClick(root, '#copy-pr-body-button', () => ({ command: 'copyPullRequestBody', body: pullRequestBody.value }));
+    onClick(root, '#save-pr-body-button', () => ({ command: 'savePullRequestBody', body: pullRequestBody.value }));
+  }
+  onClick(root, '#regenerate-pr-button', () => ({ command: 'regeneratePullRequest' }));
+  onClick(root, '#discard-pr-button', () => ({ command: 'discardPullRequest' }));
+
+  // 다시 쓸 커밋 메시지는 고치면 저장하고, 적용할 때는 입력란의 현재 내용을 함께 보냄
+  const rewordMessages = Array.from(root.querySelectorAll<HTMLTextAreaElement>('.reword-message'));
+  rewordMessages.forEach(messageElement => {
+    onInputIdle(messageElement, () => ({ command: 'editRewordMessage', index: Number(messageElement.dataset.index), message: messageElement.value }));
+  });
+  root.querySelectorAll<HTMLInputElement>('.reword-checkbox').forEach(checkbox => {
+    checkbox.addEventListener('change', () => {
+      post({ command: 'toggleRewordCommit', index: Number(checkbox.dataset.index), selected: checkbox.checked });
+    });
+  });
+  onClick(root, '#apply-reword-button', () => ({ command: 'applyReword', messages: rewordMessages.map(messageElement => messageElement.value) }));
+  onClick(root, '#regenerate-reword-button', () => ({ command: 'regenerateReword' }));
+  onClick(root, '#discard-reword-button', () => ({ command: 'discardReword' }));
+
+  const diffSourceSelect = root.querySelector<HTMLSelectElement>('#diff-source-select');
+  diffSourceSelect?.addEventListener('change', () => {
+    post({ command: 'setDiffSource', source: diffSourceSelect.value as DiffSource });
+  });
+}
+
+// 스크립트는 본문 끝에서 로드되므로 바로 연결
+bindEvents(document);
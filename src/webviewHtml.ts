@@ -0,0 +1,69 @@
+/**
+ * HTML that is already escaped and is inserted as-is by `html`
+ */
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+/**
+ * Values that can be interpolated into `html`
+ */
+export type HtmlValue = SafeHtml | string | number | boolean | undefined | null | readonly HtmlValue[];
+
+/**
+ * Escape text for an HTML text node or a quoted attribute value
+ * @param text Untrusted text
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderValue(value: HtmlValue): string {
+  if (value instanceof SafeHtml) {
+    return value.value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(renderValue).join('');
+  }
+  if (value === undefined || value === null || value === false) {
+    return '';
+  }
+  return escapeHtml(String(value));
+}
+
+/**
+ * Tagged template for webview HTML. Every interpolated value is escaped except `SafeHtml` from nested `html`
+ * templates; arrays are joined and `undefined`, `null` and `false` render nothing.
+ * @example html`<pre>${diff}</pre>${items.map(item => html`<li>${item}</li>`)}`
+ */
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+  return new SafeHtml(strings.reduce((result, text, index) => result + renderValue(values[index - 1]) + text));
+}
+
+// diff 줄의 첫 글자로 색을 정함
+function diffLineClass(line: string): string {
+  if (line.startsWith('+')) {
+    return 'diff-added';
+  }
+  if (line.startsWith('-')) {
+    return 'diff-removed';
+  }
+  return line.startsWith('\\') ? 'diff-note' : 'diff-context';
+}
+
+/**
+ * Render diff lines with a class per line kind (`diff-added`, `diff-removed`, `diff-note`, `diff-context`)
+ * @param lines Lines of a hunk
+ */
+export function renderDiffLines(lines: string[]): SafeHtml {
+  return html`<pre class="diff-lines">${lines.map((line, index) => html`${index > 0 ? '\n' : ''}<span class="${diffLineClass(line)}">${line}</span>`)}</pre>`;
+}
@@ -0,0 +1,164 @@
+import { DiffSource } from './gitDiff';
+
+// 확장과 웹뷰 스크립트(src/webview/main.ts)가 함께 쓰는 메시지 정의. vscode나 Node 모듈을 가져오지 않아야 함
+
+/**
+ * Parts of the AI Commit view that are rendered separately
+ */
+export type ViewSection = 'setup' | 'source' | 'files' | 'plan' | 'review' | 'messages' | 'reword' | 'pullRequest' | 'history';
+
+export const VIEW_SECTIONS: readonly ViewSection[] = ['setup', 'source', 'files', 'plan', 'review', 'messages', 'reword', 'pullRequest', 'history'];
+
+/**
+ * Messages the webview sends to the extension
+ */
+export type WebviewMessage =
+  | { command: 'applyCommit', message: string }
+  | { command: 'commitSelected', message: string, selectedFiles: string[], amend: boolean, push: boolean }
+  | { command: 'selectCandidate', index: number }
+  | { command: 'showRound', index: number }
+  | { command: 'regenerate' }
+  | { command: 'generateCommit', selectedFiles: string[] }
+  | { command: 'refreshFiles' }
+  | { command: 'editCandidate', index: number, message: string }
+  | { command: 'planCommits', selectedFiles: string[] }
+  | { command: 'movePlanFile', path: string, group: number }
+  | { command: 'editPlanMessage', group: number, message: string }
+  | { command: 'commitPlan' }
+  | { command: 'discardPlan' }
+  | { command: 'reviewChanges', selectedFiles: string[] }
+  | { command: 'openReviewFinding', index: number }
+  | { command: 'discardReview' }
+  | { command: 'stopGeneration' }
+  | { command: 'setApiKey' }
+  | { command: 'openSettings' }
+  | { command: 'setDiffSource', source: DiffSource }
+  | { command: 'toggleFile', path: string, selected: boolean }
+  | { command: 'toggleFileDiff', path: string }
+  | { command: 'toggleHunk', path: string, hunk: string, selected: boolean }
+  | { command: 'stageHunks', path: string }
+  | { command: 'openChange', path: string }
+  | { command: 'toggleHistory', open: boolean }
+  | { command: 'reapplyHistory', repoRoot: string, id: string }
+  | { command: 'copyHistory', repoRoot: string, id: string }
+  | { command: 'clearHistory', repoRoot: string }
+  | { command: 'editPullRequest', title: string, body: string }
+  | { command: 'copyPullRequestTitle', title: string }
+  | { command: 'copyPullRequestBody', body: string }
+  | { command: 'savePullRequestBody', body: string }
+  | { command: 'regeneratePullRequest' }
+  | { command: 'discardPullRequest' }
+  | { command: 'editRewordMessage', index: number, message: string }
+  | { command: 'toggleRewordCommit', index: number, selected: boolean }
+  | { command: 'applyReword', messages: string[] }
+  | { command: 'regenerateReword' }
+  | { command: 'discardReword' };
+
+/**
+ * Messages the extension sends to the webview
+ */
+export type ExtensionMessage =
+  | { command: 'render', sections: Partial<Record<ViewSection, string>> }
+  | { command: 'streamToken', index: number, text: string }
+  | { command: 'lintResult' | 'planLintResult', index: number, warnings: { message: string, rule: string }[] };
+
+/**
+ * Kind of a message field
+ * - index: a non-negative integer
+ * - strings: an array of strings
+ * - diffSource: one of `DIFF_SOURCES`
+ */
+type FieldKind = 'string' | 'boolean' | 'index' | 'strings' | 'diffSource';
+
+type MessageSchemas = {
+  [C in WebviewMessage['command']]: { [K in Exclude<keyof Extract<WebviewMessage, { command: C }>, 'command'>]-?: FieldKind };
+};
+
+const DIFF_SOURCES: readonly DiffSource[] = ['staged', 'unstaged', 'all'];
+
+// 명령별 필드와 종류 (새 명령을 추가하면 타입 검사가 여기에도 추가하도록 요구함)
+const MESSAGE_SCHEMAS: MessageSchemas = {
+  applyCommit: { message: 'string' },
+  commitSelected: { message: 'string', selectedFiles: 'strings', amend: 'boolean', push: 'boolean' },
+  selectCandidate: { index: 'index' },
+  showRound: { index: 'index' },
+  regenerate: {},
+  generateCommit: { selectedFiles: 'strings' },
+  refreshFiles: {},
+  editCandidate: { index: 'index', message: 'string' },
+  planCommits: { selectedFiles: 'strings' },
+  movePlanFile: { path: 'string', group: 'index' },
+  editPlanMessage: { group: 'index', message: 'string' },
+  commitPlan: {},
+  discardPlan: {},
+  reviewChanges: { selectedFiles: 'strings' },
+  openReviewFinding: { index: 'index' },
+  discardReview: {},
+  stopGeneration: {},
+  setApiKey: {},
+  openSettings: {},
+  setDiffSource: { source: 'diffSource' },
+  toggleFile: { path: 'string', selected: 'boolean' },
+  toggleFileDiff: { path: 'string' },
+  toggleHunk: { path: 'string', hunk: 'string', selected: 'boolean' },
+  stageHunks: { path: 'string' },
+  openChange: { path: 'string' },
+  toggleHistory: { open: 'boolean' },
+  reapplyHistory: { repoRoot: 'string', id: 'string' },
+  copyHistory: { repoRoot: 'string', id: 'string' },
+  clearHistory: { repoRoot: 'string' },
+  editPullRequest: { title: 'string', body: 'string' },
+  copyPullRequestTitle: { title: 'string' },
+  copyPullRequestBody: { body: 'string' },
+  savePullRequestBody: { body: 'string' },
+  regeneratePullRequest: {},
+  discardPullRequest: {},
+  editRewordMessage: { index: 'index', message: 'string' },
+  toggleRewordCommit: { index: 'index', selected: 'boolean' },
+  applyReword: { messages: 'strings' },
+  regenerateReword: {},
+  discardReword: {},
+};
+
+function isFieldValid(kind: FieldKind, value: unknown): boolean {
+  switch (kind) {
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'index':
+      return Number.isInteger(value) && (value as number) >= 0;
+    case 'strings':
+      return Array.isArray(value) && value.every(item => typeof item === 'string');
+    case 'diffSource':
+      return DIFF_SOURCES.includes(value as DiffSource);
+  }
+}
+
+/**
+ * Check a message received from the webview against the protocol
+ * @param value Raw message
+ * @returns The message with only its known fields, or undefined if the command is unknown or a field is missing
+ *   or has the wrong type
+ */
+export function parseWebviewMessage(value: unknown): WebviewMessage | undefined {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+
+  const command = (value as { command?: unknown }).command;
+  if (typeof command !== 'string' || !Object.prototype.hasOwnProperty.call(MESSAGE_SCHEMAS, command)) {
+    return undefined;
+  }
+
+  const schema: Record<string, FieldKind> = MESSAGE_SCHEMAS[command as WebviewMessage['command']];
+  const message: Record<string, unknown> = { command };
+  for (const [field, kind] of Object.entries(schema)) {
+    const fieldValue = (value as Record<string, unknown>)[field];
+    if (!isFieldValid(kind, fieldValue)) {
+      return undefined;
+    }
+    message[field] = fieldValue;
+  }
+  return message as WebviewMessage;
+}
@@ -3,6 +3,7 @@
 'use strict';
 
 const path = require('path');
+const webpack = require('webpack');
 
 //@ts-check
 /** @typedef {import('webpack').Configuration} WebpackConfig **/
@@ -45,4 +46,46 @@ const extensionConfig = {
     level: "log", // enables logging required for problem matchers
   },
 };
-module.exports = [ extensionConfig ];
\ No newline at end of file
+
+/** @type WebpackConfig */
+const cliConfig = {
+  ...extensionConfig,
+  entry: './src/cli/index.ts', // command-line tool and git hook, shares the generation core with the extension
+  output: {
+    path: path.resolve(__dirname, 'dist'),
+    filename: 'cli.js'
+  },
+  externals: {},
+  plugins: [
+    new webpack.BannerPlugin({ banner: '#!/usr/bin/env node', raw: true })
+  ],
+};
+
+/** @type WebpackConfig */
+const webviewConfig = {
+  ...extensionConfig,
+  target: 'web', // script of the AI Commit view, loaded by the webview with a CSP nonce
+  entry: './src/webview/main.ts',
+  output: {
+    path: path.resolve(__dirname, 'dist'),
+    filename: 'webview.js'
+  },
+  externals: {},
+  module: {
+    rules: [
+      {
+        test: /\.ts$/,
+        exclude: /node_modules/,
+        use: [
+          {
+            loader: 'ts-loader',
+            options: {
+              configFile: path.resolve(__dirname, 'src/webview/tsconfig.json')
+            }
+          }
+        ]
+      }
+    ]
+  },
+};
+module.exports = [ extensionConfig, cliConfig, webviewConfig ];
\ No newline at end of file